@@ -11,12 +11,13 @@ export const unstable_settings = {
 };
 
 const WS_URL = process.env.EXPO_PUBLIC_WS_URL || 'ws://localhost:8080';
+const ACCESS_TOKEN = process.env.EXPO_PUBLIC_ACCESS_TOKEN || undefined;
 
 export default function RootLayout() {
   const colorScheme = useColorScheme();
 
   return (
-    <AudioStreamProvider wsUrl={WS_URL}>
+    <AudioStreamProvider wsUrl={WS_URL} accessToken={ACCESS_TOKEN}>
       <ThemeProvider value={colorScheme === 'dark' ? DarkTheme : DefaultTheme}>
         <Stack>
           <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
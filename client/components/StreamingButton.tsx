@@ -12,7 +12,7 @@ import { useAudioStream } from '@/hooks/useAudioStream';
 import { useThemeColor } from '@/hooks/use-theme-color';
 
 export function StreamingButton(): React.ReactElement {
-  const { state, startRecording, stopRecording } = useAudioStream();
+  const { state, startRecording, stopRecording, interruptResponse, startNewConversation } = useAudioStream();
 
   const backgroundColor = useThemeColor(
     { light: '#f5f5f5', dark: '#1c1c1c' },
@@ -102,6 +102,24 @@ export function StreamingButton(): React.ReactElement {
           </View>
         )}
 
+        {/* Interrupt Response */}
+        {state.isPlaying && (
+          <TouchableOpacity onPress={interruptResponse}>
+            <Text style={[styles.linkText, { color: accentColor }]}>
+              Stop response
+            </Text>
+          </TouchableOpacity>
+        )}
+
+        {/* New Conversation */}
+        {!state.isRecording && state.transcript !== '' && (
+          <TouchableOpacity onPress={startNewConversation} disabled={state.isProcessing}>
+            <Text style={[styles.linkText, { color: accentColor }]}>
+              New conversation
+            </Text>
+          </TouchableOpacity>
+        )}
+
         {/* Stage Indicator */}
         {state.stage !== 'idle' && state.stage !== 'recording' && (
           <Text style={[styles.stageText, { color: accentColor }]}>
@@ -113,6 +131,18 @@ export function StreamingButton(): React.ReactElement {
         )}
       </View>
 
+      {/* Live Captions */}
+      {state.partialTranscript && !state.transcript && (
+        <View style={[styles.card, styles.contentCard]}>
+          <Text style={[styles.label, { color: textColor }]}>Hearing:</Text>
+          <Text style={[styles.content, { color: textColor }]}>
+            {state.partialTranscript.stable}
+            {state.partialTranscript.stable && state.partialTranscript.unstable ? ' ' : ''}
+            <Text style={styles.unstableText}>{state.partialTranscript.unstable}</Text>
+          </Text>
+        </View>
+      )}
+
       {/* Transcript Display */}
       {state.transcript && (
         <View style={[styles.card, styles.contentCard]}>
@@ -207,6 +237,12 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: '500',
   },
+  linkText: {
+    fontSize: 14,
+    fontWeight: '500',
+    marginTop: 12,
+    textAlign: 'center',
+  },
   stageText: {
     fontSize: 14,
     fontWeight: '500',
@@ -232,6 +268,9 @@ const styles = StyleSheet.create({
     fontSize: 14,
     lineHeight: 20,
   },
+  unstableText: {
+    opacity: 0.5,
+  },
   debugText: {
     fontSize: 11,
     fontFamily: 'Courier New',
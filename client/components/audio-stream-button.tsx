@@ -12,6 +12,7 @@ import { useThemeColor } from "@/hooks/use-theme-color";
 
 interface AudioStreamButtonProps {
   serverUrl: string;
+  accessToken?: string;
   onStatusChange?: (status: {
     isRecording: boolean;
     isStreaming: boolean;
@@ -20,6 +21,7 @@ interface AudioStreamButtonProps {
 
 export function AudioStreamButton({
   serverUrl,
+  accessToken,
   onStatusChange,
 }: AudioStreamButtonProps): React.ReactElement {
   const [isRecording, setIsRecording] = useState(false);
@@ -52,6 +54,7 @@ export function AudioStreamButton({
       await audioService.startRecording({
         serverUrl,
         sessionId,
+        accessToken,
         sampleRate: 16000,
         channels: 1,
       });
@@ -75,7 +78,10 @@ export function AudioStreamButton({
       setIsRecording(false);
       onStatusChange?.({ isRecording: false, isStreaming: false });
 
-      Alert.alert("Success", `Recording saved: ${result.duration.toFixed(2)}s`);
+      Alert.alert(
+        "Reply",
+        `You said: ${result.result.transcript}\n\n${result.result.responseText}`
+      );
     } catch (error) {
       Alert.alert("Error", `Failed to stop recording: ${error}`);
       console.error(error);
@@ -18,6 +18,7 @@ export interface AudioStreamState {
   stage: AudioStreamStage;
 
   // Content state
+  partialTranscript: { stable: string; unstable: string } | null;
   transcript: string;
   llmResponse: string;
   llmChunks: string[];
@@ -44,6 +45,7 @@ const initialState: AudioStreamState = {
   recordingDuration: 0,
   isProcessing: false,
   stage: 'idle',
+  partialTranscript: null,
   transcript: '',
   llmResponse: '',
   llmChunks: [],
@@ -66,6 +68,7 @@ function reducer(state: AudioStreamState, action: AudioStreamAction): AudioStrea
         isRecording: true,
         stage: 'recording',
         recordingDuration: 0,
+        partialTranscript: null,
         transcript: '',
         llmResponse: '',
         llmChunks: [],
@@ -78,8 +81,11 @@ function reducer(state: AudioStreamState, action: AudioStreamAction): AudioStrea
     case 'SET_PROCESSING':
       return { ...state, isProcessing: true, stage: action.payload };
 
+    case 'SET_PARTIAL_TRANSCRIPT':
+      return { ...state, partialTranscript: action.payload };
+
     case 'SET_TRANSCRIPT':
-      return { ...state, transcript: action.payload, stage: 'generating' };
+      return { ...state, transcript: action.payload, partialTranscript: null, stage: 'generating' };
 
     case 'APPEND_LLM_CHUNK':
       return {
@@ -97,6 +103,18 @@ function reducer(state: AudioStreamState, action: AudioStreamAction): AudioStrea
     case 'STOP_PLAYING':
       return { ...state, isPlaying: false, stage: 'idle' };
 
+    case 'RESPONSE_INTERRUPTED':
+      // A new recording has already cleared the previous response
+      if (state.isRecording) {
+        return { ...state, isPlaying: false };
+      }
+      return {
+        ...state,
+        isPlaying: false,
+        stage: 'idle',
+        llmResponse: action.payload?.deliveredText ?? state.llmResponse,
+      };
+
     case 'SET_SESSION_ID':
       return { ...state, currentSessionId: action.payload };
 
@@ -122,12 +140,14 @@ const AudioStreamContext = createContext<AudioStreamContextType | undefined>(und
 
 interface AudioStreamProviderProps {
   wsUrl: string;
+  /** API key or bearer token for servers that require authentication */
+  accessToken?: string;
   children: ReactNode;
 }
 
-export function AudioStreamProvider({ wsUrl, children }: AudioStreamProviderProps) {
+export function AudioStreamProvider({ wsUrl, accessToken, children }: AudioStreamProviderProps) {
   const [state, dispatch] = useReducer(reducer, initialState);
-  const [wsManager] = React.useState(() => new WebSocketManager(wsUrl));
+  const [wsManager] = React.useState(() => new WebSocketManager(wsUrl, accessToken));
 
   useEffect(() => {
     // Connect WebSocket
@@ -1,5 +1,29 @@
 import { useCallback, useEffect } from 'react';
 import { useAudioStreamContext } from '../context/AudioStreamContext';
+import { PROTOCOL_VERSION, ServerMessageOf } from '../services/protocol';
+import { WebSocketManager } from '../services/WebSocketManager';
+
+/**
+ * Resolve with the server's session.ready, or fail with the error sent instead
+ */
+function waitForSessionReady(wsManager: WebSocketManager): Promise<ServerMessageOf<'session.ready'>> {
+  return new Promise((resolve, reject) => {
+    const onReady = (message: ServerMessageOf<'session.ready'>) => {
+      cleanup();
+      resolve(message);
+    };
+    const onError = (message: ServerMessageOf<'error'> | Event) => {
+      cleanup();
+      reject(new Error('data' in message ? message.data.message : 'Connection error'));
+    };
+    const cleanup = () => {
+      wsManager.off('session.ready', onReady);
+      wsManager.off('error', onError);
+    };
+    wsManager.on('session.ready', onReady);
+    wsManager.on('error', onError);
+  });
+}
 
 export function useAudioStream() {
   const { state, dispatch, wsManager, audioService } = useAudioStreamContext();
@@ -7,13 +31,7 @@ export function useAudioStream() {
   // Initialize audio service on mount
   useEffect(() => {
     if (wsManager && state.isConnected) {
-      const sessionId = `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-      dispatch({ type: 'SET_SESSION_ID', payload: sessionId });
-
-      audioService.initialize({
-        wsManager,
-        sessionId,
-      }).catch((error) => {
+      audioService.initialize({ wsManager }).catch((error) => {
         console.error('[useAudioStream] Initialization failed:', error);
         dispatch({ type: 'SET_ERROR', payload: String(error) });
       });
@@ -24,80 +42,135 @@ export function useAudioStream() {
   useEffect(() => {
     if (!wsManager) return;
 
+    // Session ready - stream audio at the server's chunk cadence
+    wsManager.on('session.ready', (message: ServerMessageOf<'session.ready'>) => {
+      const chunkDuration = message.data.config?.chunkDuration;
+      if (chunkDuration) {
+        audioService.setChunkDuration(chunkDuration);
+      }
+      wsManager.setBinaryAudio(message.data.audioTransport === 'binary');
+    });
+
+    // Interim transcript - live captions until the final transcript arrives
+    wsManager.on('transcript.partial', (message: ServerMessageOf<'transcript.partial'>) => {
+      dispatch({
+        type: 'SET_PARTIAL_TRANSCRIPT',
+        payload: { stable: message.data.stable, unstable: message.data.unstable },
+      });
+    });
+
     // Transcript received
-    wsManager.on('transcript.complete', (message: any) => {
+    wsManager.on('transcript.complete', (message: ServerMessageOf<'transcript.complete'>) => {
       console.log('[useAudioStream] Transcript received:', message.data.transcript);
       dispatch({ type: 'SET_TRANSCRIPT', payload: message.data.transcript });
     });
 
     // LLM chunks received
-    wsManager.on('llm.chunk', (message: any) => {
+    wsManager.on('llm.chunk', (message: ServerMessageOf<'llm.chunk'>) => {
       console.log('[useAudioStream] LLM chunk:', message.data.content);
       dispatch({ type: 'APPEND_LLM_CHUNK', payload: message.data.content });
     });
 
     // LLM complete
-    wsManager.on('llm.complete', (message: any) => {
+    wsManager.on('llm.complete', (message: ServerMessageOf<'llm.complete'>) => {
       console.log('[useAudioStream] LLM complete');
       dispatch({ type: 'SET_LLM_COMPLETE' });
     });
 
-    // Audio chunks received - accumulate and play
-    let audioChunks: string[] = [];
-    wsManager.on('audio.chunk', (message: any) => {
-      console.log('[useAudioStream] Audio chunk received');
-      audioChunks.push(message.data.chunk);
+    // Audio chunks received - accumulate each segment and queue it once complete
+    let segmentChunks: string[] = [];
+    let isPlaying = false;
+    wsManager.on('audio.chunk', (message: ServerMessageOf<'audio.chunk'>) => {
+      segmentChunks.push(message.data.chunk);
+
+      if (message.data.isLastInSegment) {
+        console.log('[useAudioStream] Audio segment received:', message.data.segmentIndex);
+        audioService.enqueueAudio(segmentChunks.join(''));
+        segmentChunks = [];
+
+        if (!isPlaying) {
+          isPlaying = true;
+          dispatch({ type: 'START_PLAYING' });
+        }
+      }
     });
 
-    // Audio complete - play accumulated audio
-    wsManager.on('audio.complete', async (message: any) => {
-      console.log('[useAudioStream] Audio complete, playing...');
+    // Audio complete - wait for the queued segments to finish playing
+    wsManager.on('audio.complete', async (message: ServerMessageOf<'audio.complete'>) => {
+      console.log('[useAudioStream] Audio complete, segments:', message.data.segmentCount);
       try {
-        const fullAudio = audioChunks.join('');
-        dispatch({ type: 'START_PLAYING' });
-        await audioService.playAudio(fullAudio);
+        if (segmentChunks.length > 0) {
+          audioService.enqueueAudio(segmentChunks.join(''));
+          segmentChunks = [];
+        }
+        await audioService.waitForPlayback();
         dispatch({ type: 'STOP_PLAYING' });
-        audioChunks = [];
       } catch (error) {
         console.error('[useAudioStream] Playback error:', error);
         dispatch({ type: 'SET_ERROR', payload: String(error) });
+      } finally {
+        isPlaying = false;
       }
     });
 
+    // Response interrupted - the server stopped generating; drop any audio still queued
+    wsManager.on('response.interrupted', async (message: ServerMessageOf<'response.interrupted'>) => {
+      console.log('[useAudioStream] Response interrupted:', message.data.reason);
+      segmentChunks = [];
+      isPlaying = false;
+      await audioService.stopPlayback();
+      dispatch({ type: 'RESPONSE_INTERRUPTED', payload: message.data });
+    });
+
     // Error handling
-    wsManager.on('error', (message: any) => {
+    wsManager.on('error', (message: ServerMessageOf<'error'>) => {
       console.error('[useAudioStream] Server error:', message.data);
       dispatch({ type: 'SET_ERROR', payload: message.data.message });
     });
 
     return () => {
+      wsManager.off('session.ready', () => {});
+      wsManager.off('transcript.partial', () => {});
       wsManager.off('transcript.complete', () => {});
       wsManager.off('llm.chunk', () => {});
       wsManager.off('llm.complete', () => {});
       wsManager.off('audio.chunk', () => {});
       wsManager.off('audio.complete', () => {});
+      wsManager.off('response.interrupted', () => {});
       wsManager.off('error', () => {});
     };
   }, [wsManager, audioService, dispatch]);
 
   const startRecording = useCallback(async () => {
     try {
-      if (!state.currentSessionId) {
-        throw new Error('No active session');
-      }
-
       if (!wsManager?.isReady()) {
         throw new Error('Not connected to server');
       }
 
-      // Notify server of session start
+      // Talking over the assistant cuts it off; the server aborts its response on session.start
+      if (state.isPlaying || state.stage === 'generating') {
+        await audioService.stopPlayback();
+      }
+
+      // Notify server of session start; the first one creates the session and the server picks its id
+      const ready = waitForSessionReady(wsManager);
       wsManager.send({
         type: 'session.start',
-        sessionId: state.currentSessionId,
+        sessionId: state.currentSessionId ?? undefined,
         timestamp: Date.now(),
-        data: { sampleRate: 16000, channels: 1 },
+        data: {
+          protocolVersion: PROTOCOL_VERSION,
+          sampleRate: 16000,
+          channels: 1,
+          audioTransport: 'binary',
+          partialTranscripts: true,
+        },
       });
 
+      const { sessionId } = await ready;
+      audioService.setSessionId(sessionId);
+      dispatch({ type: 'SET_SESSION_ID', payload: sessionId });
+
       // Start recording
       dispatch({ type: 'START_RECORDING' });
       await audioService.startRecording();
@@ -106,7 +179,7 @@ export function useAudioStream() {
       dispatch({ type: 'SET_ERROR', payload: String(error) });
       throw error;
     }
-  }, [state.currentSessionId, wsManager, audioService, dispatch]);
+  }, [state.currentSessionId, state.isPlaying, state.stage, wsManager, audioService, dispatch]);
 
   const stopRecording = useCallback(async () => {
     try {
@@ -137,10 +210,38 @@ export function useAudioStream() {
     }
   }, [state.currentSessionId, wsManager, audioService, dispatch]);
 
+  const interruptResponse = useCallback(async () => {
+    if (state.currentSessionId) {
+      wsManager?.send({
+        type: 'response.interrupt',
+        sessionId: state.currentSessionId,
+        timestamp: Date.now(),
+        data: {},
+      });
+    }
+    await audioService.stopPlayback();
+  }, [state.currentSessionId, wsManager, audioService]);
+
+  // The server keeps conversation history per session; the next recording starts a new one
+  const startNewConversation = useCallback(() => {
+    if (state.currentSessionId) {
+      wsManager?.send({
+        type: 'session.cancel',
+        sessionId: state.currentSessionId,
+        timestamp: Date.now(),
+        data: {},
+      });
+    }
+
+    dispatch({ type: 'RESET' });
+  }, [state.currentSessionId, wsManager, dispatch]);
+
   return {
     state,
     startRecording,
     stopRecording,
     cancelSession,
+    interruptResponse,
+    startNewConversation,
   };
 }
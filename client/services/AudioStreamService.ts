@@ -4,7 +4,8 @@ import { WebSocketManager } from './WebSocketManager';
 
 interface AudioStreamConfig {
   wsManager: WebSocketManager;
-  sessionId: string;
+  /** Usually set later from session.ready, once the server has created the session */
+  sessionId?: string;
   sampleRate?: number;
   channels?: number;
 }
@@ -17,6 +18,14 @@ export class AudioStreamService {
   private sampleRate: number = 16000;
   private channels: number = 1;
   private isInitialized = false;
+  private chunkDuration: number = 100;
+  private chunkTimer: ReturnType<typeof setInterval> | null = null;
+  private pendingRead: Promise<void> | null = null;
+  private bytesSent = 0;
+  private sequenceNumber = 0;
+  private playbackChain: Promise<void> = Promise.resolve();
+  private playbackGeneration = 0;
+  private finishCurrentPlayback: (() => void) | null = null;
 
   constructor() {
     // Initialize with dummy manager, will be set via initialize()
@@ -26,7 +35,7 @@ export class AudioStreamService {
   async initialize(config: AudioStreamConfig): Promise<void> {
     try {
       this.wsManager = config.wsManager;
-      this.sessionId = config.sessionId;
+      this.sessionId = config.sessionId ?? '';
       this.sampleRate = config.sampleRate || 16000;
       this.channels = config.channels || 1;
 
@@ -52,6 +61,17 @@ export class AudioStreamService {
     }
   }
 
+  setSessionId(sessionId: string): void {
+    this.sessionId = sessionId;
+  }
+
+  /**
+   * Use the chunk cadence announced by the server in session.ready
+   */
+  setChunkDuration(chunkDuration: number): void {
+    this.chunkDuration = chunkDuration;
+  }
+
   async startRecording(): Promise<void> {
     try {
       if (!this.isInitialized) {
@@ -96,6 +116,8 @@ export class AudioStreamService {
       await this.recording.prepareToRecordAsync(recordingOptions);
       await this.recording.startAsync();
 
+      this.startChunkStreaming();
+
       console.log('[AudioStreamService] Recording started');
     } catch (error) {
       console.error('[AudioStreamService] Failed to start recording:', error);
@@ -110,26 +132,18 @@ export class AudioStreamService {
       }
 
       console.log('[AudioStreamService] Stopping recording');
+      await this.stopChunkStreaming();
       await this.recording.stopAndUnloadAsync();
 
-      const uri = this.recording.getURI();
-      if (!uri) {
-        throw new Error('Failed to get recording URI');
-      }
-
       // Get recording duration
       const status = await this.recording.getStatusAsync();
       const duration = status.durationMillis || 0;
 
       console.log('[AudioStreamService] Recording stopped, duration:', duration, 'ms');
 
-      // Read audio file
-      const base64Data = await FileSystem.readAsStringAsync(uri, {
-        encoding: FileSystem.EncodingType.Base64,
-      });
-
-      // Send audio to server
-      await this.sendAudio(base64Data);
+      // Send whatever was written after the last chunk, then close the utterance
+      await this.sendNewAudio();
+      this.sendAudioEnd();
 
       this.recording = null;
 
@@ -140,38 +154,74 @@ export class AudioStreamService {
     }
   }
 
-  private async sendAudio(base64Audio: string): Promise<void> {
+  private startChunkStreaming(): void {
+    this.bytesSent = 0;
+    this.sequenceNumber = 0;
+
+    this.chunkTimer = setInterval(() => {
+      // Skip a tick rather than overlap reads of the recording file
+      if (!this.pendingRead) {
+        this.pendingRead = this.sendNewAudio().finally(() => {
+          this.pendingRead = null;
+        });
+      }
+    }, this.chunkDuration);
+  }
+
+  private async stopChunkStreaming(): Promise<void> {
+    if (this.chunkTimer) {
+      clearInterval(this.chunkTimer);
+      this.chunkTimer = null;
+    }
+    if (this.pendingRead) {
+      await this.pendingRead;
+    }
+  }
+
+  /**
+   * Read the bytes appended to the recording file since the last chunk and send them.
+   * The recorder only finalizes the file header on stop; the server repairs it.
+   */
+  private async sendNewAudio(): Promise<void> {
     try {
-      console.log('[AudioStreamService] Sending audio to server');
-
-      // Send audio chunk message
-      this.wsManager.send({
-        type: 'audio.chunk',
-        sessionId: this.sessionId,
-        timestamp: Date.now(),
-        data: {
-          chunk: base64Audio,
-          sequenceNumber: 1,
-        },
-      });
+      const uri = this.recording?.getURI();
+      if (!uri) {
+        return;
+      }
 
-      // Send audio end message
-      this.wsManager.send({
-        type: 'audio.end',
-        sessionId: this.sessionId,
-        timestamp: Date.now(),
-        data: {
-          totalChunks: 1,
-        },
+      const info = await FileSystem.getInfoAsync(uri);
+      if (!info.exists || info.size <= this.bytesSent) {
+        return;
+      }
+
+      const length = info.size - this.bytesSent;
+      const base64Chunk = await FileSystem.readAsStringAsync(uri, {
+        encoding: FileSystem.EncodingType.Base64,
+        position: this.bytesSent,
+        length,
       });
+      this.bytesSent += length;
+      this.sequenceNumber++;
 
-      console.log('[AudioStreamService] Audio sent to server');
+      this.wsManager.sendAudioChunk(this.sessionId, this.sequenceNumber, base64Chunk);
     } catch (error) {
-      console.error('[AudioStreamService] Failed to send audio:', error);
-      throw error;
+      console.error('[AudioStreamService] Failed to send audio chunk:', error);
     }
   }
 
+  private sendAudioEnd(): void {
+    this.wsManager.send({
+      type: 'audio.end',
+      sessionId: this.sessionId,
+      timestamp: Date.now(),
+      data: {
+        totalChunks: this.sequenceNumber,
+      },
+    });
+
+    console.log('[AudioStreamService] Audio sent to server in', this.sequenceNumber, 'chunks');
+  }
+
   async playAudio(base64Audio: string): Promise<void> {
     try {
       console.log('[AudioStreamService] Playing audio');
@@ -205,8 +255,55 @@ export class AudioStreamService {
     }
   }
 
+  /**
+   * Queue a complete audio segment to play after the segments already queued
+   */
+  enqueueAudio(base64Audio: string): void {
+    const generation = this.playbackGeneration;
+    this.playbackChain = this.playbackChain
+      .then(() => {
+        if (generation === this.playbackGeneration) {
+          return this.playToEnd(base64Audio);
+        }
+      })
+      .catch((error) => {
+        console.error('[AudioStreamService] Failed to play queued audio:', error);
+      });
+  }
+
+  /**
+   * Resolves once every queued segment has finished playing
+   */
+  waitForPlayback(): Promise<void> {
+    return this.playbackChain;
+  }
+
+  private async playToEnd(base64Audio: string): Promise<void> {
+    if (this.sound) {
+      await this.sound.unloadAsync();
+    }
+
+    const uri = `data:audio/mp3;base64,${base64Audio}`;
+    const { sound } = await Audio.Sound.createAsync({ uri }, { shouldPlay: true });
+    this.sound = sound;
+
+    await new Promise<void>((resolve) => {
+      this.finishCurrentPlayback = resolve;
+      sound.setOnPlaybackStatusUpdate((status: any) => {
+        if (status.didJustFinish || !status.isLoaded) {
+          resolve();
+        }
+      });
+    });
+    this.finishCurrentPlayback = null;
+  }
+
   async stopPlayback(): Promise<void> {
     try {
+      // Drop queued segments and release the one currently playing
+      this.playbackGeneration++;
+      this.finishCurrentPlayback?.();
+
       if (this.sound) {
         await this.sound.stopAsync();
         console.log('[AudioStreamService] Playback stopped');
@@ -218,6 +315,8 @@ export class AudioStreamService {
 
   async cleanup(): Promise<void> {
     try {
+      await this.stopChunkStreaming();
+
       if (this.recording) {
         await this.recording.stopAndUnloadAsync();
       }
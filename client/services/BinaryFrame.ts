@@ -0,0 +1,114 @@
+/**
+ * Binary WebSocket framing for audio, mirroring server/src/websocket/BinaryFrame.ts.
+ *
+ * Layout (big-endian):
+ *   0   u8   version
+ *   1   u8   message type
+ *   2   u8   flags (bit 0: last chunk of a TTS segment)
+ *   3   u8   session id length (N)
+ *   4   u32  sequence number
+ *   8   u32  segment index (0xFFFFFFFF when not set)
+ *   12  u32  event sequence number of the session (version 2 only)
+ *   H   N    session id (UTF-8), H being 12 in version 1 and 16 in version 2
+ *   H+N      audio bytes
+ *
+ * Frames without an event sequence number are written as version 1.
+ */
+
+export const BINARY_FRAME_VERSION = 2;
+export const BINARY_FRAME_HEADER_SIZE = 16;
+const V1_HEADER_SIZE = 12;
+
+const NO_SEGMENT = 0xffffffff;
+const FLAG_LAST_IN_SEGMENT = 0x01;
+
+export enum BinaryFrameType {
+  AudioChunk = 1,
+}
+
+export interface BinaryFrame {
+  type: BinaryFrameType;
+  sessionId: string;
+  sequenceNumber: number;
+  segmentIndex?: number;
+  isLastInSegment?: boolean;
+  /** Position in the session's event stream, for resuming after a reconnect */
+  eventSeq?: number;
+  payload: Uint8Array;
+}
+
+export function encodeBinaryFrame(frame: BinaryFrame): ArrayBuffer {
+  const sessionId = new TextEncoder().encode(frame.sessionId);
+  if (sessionId.length > 255) {
+    throw new Error('Session id is too long for a binary frame');
+  }
+
+  const version = frame.eventSeq === undefined ? 1 : BINARY_FRAME_VERSION;
+  const headerSize = version === 1 ? V1_HEADER_SIZE : BINARY_FRAME_HEADER_SIZE;
+  const buffer = new ArrayBuffer(headerSize + sessionId.length + frame.payload.length);
+  const view = new DataView(buffer);
+  view.setUint8(0, version);
+  view.setUint8(1, frame.type);
+  view.setUint8(2, frame.isLastInSegment ? FLAG_LAST_IN_SEGMENT : 0);
+  view.setUint8(3, sessionId.length);
+  view.setUint32(4, frame.sequenceNumber);
+  view.setUint32(8, frame.segmentIndex ?? NO_SEGMENT);
+  if (frame.eventSeq !== undefined) {
+    view.setUint32(12, frame.eventSeq);
+  }
+
+  const bytes = new Uint8Array(buffer);
+  bytes.set(sessionId, headerSize);
+  bytes.set(frame.payload, headerSize + sessionId.length);
+  return buffer;
+}
+
+export function decodeBinaryFrame(buffer: ArrayBuffer): BinaryFrame {
+  if (buffer.byteLength < V1_HEADER_SIZE) {
+    throw new Error(`Binary frame too short: ${buffer.byteLength} bytes`);
+  }
+
+  const view = new DataView(buffer);
+  const version = view.getUint8(0);
+  if (version !== 1 && version !== BINARY_FRAME_VERSION) {
+    throw new Error(`Unsupported binary frame version: ${version}`);
+  }
+  const headerSize = version === 1 ? V1_HEADER_SIZE : BINARY_FRAME_HEADER_SIZE;
+  if (buffer.byteLength < headerSize) {
+    throw new Error(`Binary frame too short: ${buffer.byteLength} bytes`);
+  }
+
+  const flags = view.getUint8(2);
+  const sessionIdLength = view.getUint8(3);
+  const payloadStart = headerSize + sessionIdLength;
+  const segmentIndex = view.getUint32(8);
+
+  return {
+    type: view.getUint8(1),
+    sessionId: new TextDecoder().decode(new Uint8Array(buffer, headerSize, sessionIdLength)),
+    sequenceNumber: view.getUint32(4),
+    segmentIndex: segmentIndex === NO_SEGMENT ? undefined : segmentIndex,
+    isLastInSegment: (flags & FLAG_LAST_IN_SEGMENT) !== 0,
+    eventSeq: version === 1 ? undefined : view.getUint32(12),
+    payload: new Uint8Array(buffer, payloadStart),
+  };
+}
+
+export function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  // Build the string in slices to stay within argument limits for large chunks
+  const sliceSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += sliceSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + sliceSize));
+  }
+  return btoa(binary);
+}
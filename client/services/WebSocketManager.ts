@@ -1,23 +1,43 @@
 import { EventEmitter } from 'events';
+import {
+  BinaryFrameType,
+  base64ToBytes,
+  bytesToBase64,
+  decodeBinaryFrame,
+  encodeBinaryFrame,
+} from './BinaryFrame';
+import {
+  AudioOutputMessage,
+  ClientMessage,
+  ConnectionEstablishedMessage,
+  PROTOCOL_VERSION,
+  ServerMessage,
+} from './protocol';
 
-interface WebSocketMessage {
-  type: string;
-  sessionId: string;
-  timestamp: number;
-  data: any;
-}
+/** How often (ms) to ping the server while connected */
+const HEARTBEAT_INTERVAL = 10000;
+/** A link silent for this long (ms) past a missed pong is treated as dead */
+const HEARTBEAT_TIMEOUT = 5000;
 
 export class WebSocketManager extends EventEmitter {
   private ws: WebSocket | null = null;
   private url: string;
+  private accessToken: string | undefined;
   private reconnectAttempts = 0;
   private maxReconnectAttempts = 5;
-  private messageQueue: WebSocketMessage[] = [];
+  private messageQueue: ClientMessage[] = [];
   private isConnected = false;
+  private binaryAudio = false;
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  private lastMessageAt = 0;
+  // Session to resume after a reconnect, and the last event of it received
+  private resumableSessionId: string | null = null;
+  private lastSeq = 0;
 
-  constructor(url: string) {
+  constructor(url: string, accessToken?: string) {
     super();
     this.url = url;
+    this.accessToken = accessToken;
   }
 
   async connect(): Promise<void> {
@@ -25,12 +45,17 @@ export class WebSocketManager extends EventEmitter {
       try {
         console.log('[WebSocketManager] Connecting to', this.url);
 
-        this.ws = new WebSocket(this.url);
+        this.ws = new WebSocket(this.connectionUrl());
+        this.ws.binaryType = 'arraybuffer';
 
         this.ws.onopen = () => {
           console.log('[WebSocketManager] Connected');
           this.reconnectAttempts = 0;
           this.isConnected = true;
+          this.startHeartbeat();
+
+          // Pick the session back up before anything queued for it goes out
+          this.resumeSession();
 
           // Send queued messages
           this.flushMessageQueue();
@@ -40,9 +65,16 @@ export class WebSocketManager extends EventEmitter {
         };
 
         this.ws.onmessage = (event) => {
+          this.lastMessageAt = Date.now();
           try {
-            const message = JSON.parse(event.data);
+            const message: ServerMessage = typeof event.data === 'string'
+              ? JSON.parse(event.data)
+              : this.parseBinaryMessage(event.data);
             console.log('[WebSocketManager] Received:', message.type);
+            if (message.type === 'connection.established') {
+              this.checkProtocolVersion(message);
+            }
+            this.trackSessionEvents(message);
             this.emit(message.type, message);
             this.emit('message', message);
           } catch (error) {
@@ -59,6 +91,7 @@ export class WebSocketManager extends EventEmitter {
 
         this.ws.onclose = () => {
           console.log('[WebSocketManager] Disconnected');
+          this.stopHeartbeat();
           this.isConnected = false;
           this.emit('disconnected');
           this.attemptReconnect();
@@ -71,7 +104,7 @@ export class WebSocketManager extends EventEmitter {
     });
   }
 
-  send(message: WebSocketMessage): boolean {
+  send(message: ClientMessage): boolean {
     if (!this.ws) {
       this.messageQueue.push(message);
       return false;
@@ -87,6 +120,178 @@ export class WebSocketManager extends EventEmitter {
     }
   }
 
+  /**
+   * Switch audio chunks to binary frames once the server agrees in session.ready
+   */
+  setBinaryAudio(enabled: boolean): void {
+    this.binaryAudio = enabled;
+  }
+
+  /**
+   * Send a recorded audio chunk, as a binary frame when negotiated
+   */
+  sendAudioChunk(sessionId: string, sequenceNumber: number, base64Chunk: string): boolean {
+    if (this.binaryAudio && this.ws?.readyState === WebSocket.OPEN) {
+      this.ws.send(encodeBinaryFrame({
+        type: BinaryFrameType.AudioChunk,
+        sessionId,
+        sequenceNumber,
+        payload: base64ToBytes(base64Chunk),
+      }));
+      return true;
+    }
+
+    return this.send({
+      type: 'audio.chunk',
+      sessionId,
+      timestamp: Date.now(),
+      data: {
+        chunk: base64Chunk,
+        sequenceNumber,
+      },
+    });
+  }
+
+  /**
+   * Warn early when the server cannot speak our protocol version; session.start will be refused
+   */
+  private checkProtocolVersion(message: ConnectionEstablishedMessage): void {
+    const supported = message.data.supportedVersions ?? [1];
+    if (!supported.includes(PROTOCOL_VERSION)) {
+      console.warn(
+        `[WebSocketManager] Server supports protocol versions ${supported.join(', ')}, client uses ${PROTOCOL_VERSION}`
+      );
+    }
+  }
+
+  /**
+   * Present a binary audio frame as the equivalent JSON audio.chunk message
+   */
+  private parseBinaryMessage(data: ArrayBuffer): AudioOutputMessage {
+    const frame = decodeBinaryFrame(data);
+    return {
+      type: 'audio.chunk',
+      sessionId: frame.sessionId,
+      timestamp: Date.now(),
+      data: {
+        chunk: bytesToBase64(frame.payload),
+        sequenceNumber: frame.sequenceNumber,
+        segmentIndex: frame.segmentIndex,
+        isLastInSegment: frame.isLastInSegment,
+      },
+      seq: frame.eventSeq,
+    };
+  }
+
+  /**
+   * Follow the current session and the last event received of it, so a reconnect can resume it
+   */
+  private trackSessionEvents(message: ServerMessage): void {
+    switch (message.type) {
+      case 'session.ready':
+        this.resumableSessionId = message.sessionId;
+        this.lastSeq = 0;
+        break;
+
+      case 'session.resumed':
+        this.binaryAudio = message.data.audioTransport === 'binary';
+        if (!message.data.complete) {
+          console.warn('[WebSocketManager] Some events were lost while reconnecting');
+        }
+        break;
+
+      case 'session.cancelled':
+        if (message.sessionId === this.resumableSessionId) {
+          this.resumableSessionId = null;
+        }
+        return;
+
+      case 'error':
+        // The server no longer has the session, or won't hand it over
+        if (
+          message.sessionId === this.resumableSessionId &&
+          (message.data.code === 'SESSION_NOT_FOUND' || message.data.code === 'SESSION_FORBIDDEN')
+        ) {
+          this.resumableSessionId = null;
+        }
+        break;
+    }
+
+    if ('seq' in message && message.seq !== undefined && message.sessionId === this.resumableSessionId) {
+      this.lastSeq = Math.max(this.lastSeq, message.seq);
+    }
+  }
+
+  /**
+   * Ask the server for the session this client was in, with the events it missed
+   */
+  private resumeSession(): void {
+    if (!this.resumableSessionId || this.ws?.readyState !== WebSocket.OPEN) {
+      return;
+    }
+    const resume: ClientMessage = {
+      type: 'session.resume',
+      sessionId: this.resumableSessionId,
+      timestamp: Date.now(),
+      data: {
+        lastSeq: this.lastSeq,
+        audioTransport: this.binaryAudio ? 'binary' : 'json',
+      },
+    };
+    this.ws.send(JSON.stringify(resume));
+    console.log('[WebSocketManager] Resuming session', this.resumableSessionId, 'after event', this.lastSeq);
+  }
+
+  /**
+   * Mobile links can stall without the socket closing for minutes. Ping the server
+   * and reconnect once nothing, not even a pong, has arrived for too long.
+   */
+  private startHeartbeat(): void {
+    this.stopHeartbeat();
+    this.lastMessageAt = Date.now();
+
+    this.heartbeatTimer = setInterval(() => {
+      if (Date.now() - this.lastMessageAt > HEARTBEAT_INTERVAL + HEARTBEAT_TIMEOUT) {
+        this.handleStalledConnection();
+        return;
+      }
+      // Pings aren't queued: one that can't go out now is already stale
+      if (this.ws?.readyState === WebSocket.OPEN) {
+        const ping: ClientMessage = { type: 'ping', timestamp: Date.now(), data: {} };
+        this.ws.send(JSON.stringify(ping));
+      }
+    }, HEARTBEAT_INTERVAL);
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+
+  /**
+   * Drop a socket that stopped answering without waiting for its close handshake, and reconnect
+   */
+  private handleStalledConnection(): void {
+    console.warn('[WebSocketManager] No response from server, reconnecting');
+    this.stopHeartbeat();
+
+    const ws = this.ws;
+    this.ws = null;
+    this.isConnected = false;
+    if (ws) {
+      ws.onopen = null;
+      ws.onmessage = null;
+      ws.onerror = null;
+      ws.onclose = null;
+      ws.close();
+    }
+
+    this.emit('disconnected');
+    this.attemptReconnect();
+  }
+
   private flushMessageQueue(): void {
     console.log('[WebSocketManager] Flushing queue with', this.messageQueue.length, 'messages');
     while (this.messageQueue.length > 0) {
@@ -97,6 +302,17 @@ export class WebSocketManager extends EventEmitter {
     }
   }
 
+  /**
+   * WebSockets can't carry custom headers here, so the credential travels as a query parameter
+   */
+  private connectionUrl(): string {
+    if (!this.accessToken) {
+      return this.url;
+    }
+    const separator = this.url.includes('?') ? '&' : '?';
+    return `${this.url}${separator}access_token=${encodeURIComponent(this.accessToken)}`;
+  }
+
   private async attemptReconnect(): Promise<void> {
     if (this.reconnectAttempts < this.maxReconnectAttempts) {
       this.reconnectAttempts++;
@@ -124,6 +340,7 @@ export class WebSocketManager extends EventEmitter {
   }
 
   disconnect(): void {
+    this.stopHeartbeat();
     if (this.ws) {
       this.isConnected = false;
       this.ws.close();
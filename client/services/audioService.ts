@@ -4,10 +4,20 @@ import { Platform } from "react-native";
 interface AudioStreamConfig {
   serverUrl: string;
   sessionId: string;
+  /** API key or bearer token, when the server requires authentication */
+  accessToken?: string;
   sampleRate?: number;
   channels?: number;
 }
 
+/** Result of an upload processed by the server: what was heard and the reply */
+export interface UploadResult {
+  transcript: string;
+  responseText: string;
+  /** Absolute URL of the synthesized reply, or null when there is none */
+  audioUrl: string | null;
+}
+
 interface StreamStatus {
   isRecording: boolean;
   isStreaming: boolean;
@@ -129,7 +139,7 @@ export class AudioService {
     }
   }
 
-  async stopRecording(): Promise<{ uri: string; duration: number }> {
+  async stopRecording(): Promise<{ uri: string; duration: number; result: UploadResult }> {
     try {
       if (!this.recording) {
         throw new Error("No recording in progress");
@@ -152,20 +162,20 @@ export class AudioService {
       const status = await this.recording.getStatusAsync();
       const duration = (status.durationMillis || 0) / 1000;
 
-      // Upload to server
-      await this.uploadAudioFile(uri);
+      // Upload to server and wait for the reply
+      const result = await this.uploadAudioFile(uri);
 
       this.recording = null;
       this.config = null;
 
-      return { uri, duration };
+      return { uri, duration, result };
     } catch (error) {
       console.error("Failed to stop recording:", error);
       throw error;
     }
   }
 
-  private async uploadAudioFile(uri: string): Promise<void> {
+  private async uploadAudioFile(uri: string): Promise<UploadResult> {
     try {
       if (!this.config) {
         throw new Error("No active session");
@@ -180,18 +190,28 @@ export class AudioService {
       } as any);
 
       const response = await fetch(
-        `${this.config.serverUrl}/upload-audio`,
+        `${this.config.serverUrl}/upload-audio?wait=true`,
         {
           method: "POST",
+          headers: this.config.accessToken
+            ? { Authorization: `Bearer ${this.config.accessToken}` }
+            : undefined,
           body: formData,
         }
       );
 
+      const body = await response.json().catch(() => null);
       if (!response.ok) {
-        throw new Error(`Upload failed: ${response.statusText}`);
+        throw new Error(`Upload failed: ${body?.error ?? response.statusText}`);
       }
 
-      console.log("Audio uploaded successfully");
+      console.log("Audio uploaded and processed");
+      const { transcript, responseText, audioUrl } = body.job.result;
+      return {
+        transcript,
+        responseText,
+        audioUrl: audioUrl ? `${this.config.serverUrl}${audioUrl}` : null,
+      };
     } catch (error) {
       console.error("Failed to upload audio:", error);
       throw error;
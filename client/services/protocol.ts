@@ -0,0 +1,20 @@
+/**
+ * WebSocket message types, shared with the server in server/src/protocol/messages.ts.
+ * Only types are imported, so none of the server code ends up in the app bundle.
+ */
+import type { ProtocolVersion } from '../../server/src/protocol/messages';
+
+export type {
+  AudioOutputMessage,
+  AudioTransport,
+  ClientMessage,
+  ConnectionEstablishedMessage,
+  DeliveryProgress,
+  ErrorMessage,
+  ServerMessage,
+  ServerMessageOf,
+  ServerMessageType,
+} from '../../server/src/protocol/messages';
+
+/** Typed against the server's constant, so bumping the protocol there fails the client build until it follows */
+export const PROTOCOL_VERSION: ProtocolVersion = 1;
@@ -1,3 +1,6 @@
+// Keep test output readable; run with LOG_LEVEL=debug to see the logs
+process.env.LOG_LEVEL = process.env.LOG_LEVEL || 'silent';
+
 module.exports = {
   preset: 'ts-jest',
   testEnvironment: 'node',
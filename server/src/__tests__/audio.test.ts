@@ -0,0 +1,191 @@
+import {
+  AudioFormatError,
+  concatWav,
+  createWavHeader,
+  detectAudioFormat,
+  downmixToMono,
+  encodeWav,
+  estimateDuration,
+  normalizeAudio,
+  parseWav,
+  resample,
+  toPcm16,
+} from "../audio";
+import { audioGenerator } from "./testAudioGenerator";
+
+function samples(...values: number[]): Buffer {
+  const buffer = Buffer.alloc(values.length * 2);
+  values.forEach((value, i) => buffer.writeInt16LE(value, i * 2));
+  return buffer;
+}
+
+/**
+ * An ISO BMFF box of the given type around its payload
+ */
+function box(type: string, ...payload: Buffer[]): Buffer {
+  const body = Buffer.concat(payload);
+  const header = Buffer.alloc(8);
+  header.writeUInt32BE(8 + body.length, 0);
+  header.write(type, 4, "ascii");
+  return Buffer.concat([header, body]);
+}
+
+function readSamples(pcm: Buffer): number[] {
+  const values: number[] = [];
+  for (let i = 0; i + 1 < pcm.length; i += 2) {
+    values.push(pcm.readInt16LE(i));
+  }
+  return values;
+}
+
+describe("WAV parsing", () => {
+  it("should read the format of a generated file", () => {
+    const wav = audioGenerator.generateTone(0.5);
+
+    expect(parseWav(wav)).toEqual({
+      encoding: 1,
+      sampleRate: 16000,
+      channels: 1,
+      bitsPerSample: 16,
+      dataOffset: 44,
+      dataLength: 16000,
+    });
+  });
+
+  it("should skip extra chunks such as FLLR padding", () => {
+    const pcm = samples(1, 2, 3);
+    const header = createWavHeader(pcm.length, { sampleRate: 16000, channels: 1, bitsPerSample: 16 });
+    const filler = Buffer.alloc(8 + 5);
+    filler.write("FLLR", 0);
+    filler.writeUInt32LE(5, 4);
+
+    // fmt chunk, odd-sized filler (padded to even), then data
+    const wav = Buffer.concat([header.subarray(0, 36), filler, Buffer.alloc(1), header.subarray(36), pcm]);
+
+    expect(parseWav(wav).dataOffset).toBe(36 + 14 + 8);
+  });
+
+  it("should ignore placeholder sizes in streamed headers", () => {
+    const wav = encodeWav(samples(1, 2, 3, 4), 16000, 1);
+    wav.writeUInt32LE(2, 40);
+
+    expect(parseWav(wav).dataLength).toBe(2);
+    expect(parseWav(wav, true).dataLength).toBe(8);
+  });
+
+  it.each([
+    ["bit depth", 34, 0, "Unsupported bit depth: 0"],
+    ["channel count", 22, 0, "Unsupported channel count: 0"],
+    ["sample rate", 24, 0, "Unsupported sample rate: 0"],
+    ["encoding", 20, 2, "Unsupported WAV encoding: 2"],
+  ])("should reject a zero or unsupported %s", (_field, offset, value, message) => {
+    const wav = encodeWav(samples(1, 2), 16000, 1);
+    if (offset === 24) {
+      wav.writeUInt32LE(value, offset);
+    } else {
+      wav.writeUInt16LE(value, offset);
+    }
+
+    expect(() => parseWav(wav)).toThrow(AudioFormatError);
+    expect(() => parseWav(wav)).toThrow(message);
+  });
+
+  it("should reject files without a data chunk", () => {
+    expect(() => parseWav(audioGenerator.generateTone(0.1).subarray(0, 36))).toThrow("no data chunk");
+  });
+
+  it("should join files that share a format", () => {
+    const joined = concatWav([encodeWav(samples(1, 2), 16000, 1), encodeWav(samples(3), 16000, 1)]);
+
+    expect(parseWav(joined).dataLength).toBe(6);
+    expect(readSamples(joined.subarray(44))).toEqual([1, 2, 3]);
+    expect(() => concatWav([encodeWav(samples(1), 16000, 1), encodeWav(samples(1), 8000, 1)])).toThrow("share a format");
+  });
+});
+
+describe("Audio format detection", () => {
+  it.each([
+    ["wav", audioGenerator.generateSilence(0.1)],
+    ["mp3", Buffer.from("ID3\u0004\u0000")],
+    ["ogg", Buffer.from("OggS\u0000\u0002")],
+    ["flac", Buffer.from("fLaC\u0000")],
+    ["webm", Buffer.from([0x1a, 0x45, 0xdf, 0xa3, 0x01])],
+    ["mp4", Buffer.concat([Buffer.from([0, 0, 0, 0x20]), Buffer.from("ftypM4A ")])],
+    ["pcm", samples(0, 100, -100)],
+  ])("should detect %s", (format, buffer) => {
+    expect(detectAudioFormat(buffer)).toBe(format);
+  });
+});
+
+describe("PCM conversion", () => {
+  it("should convert 8-bit, 24-bit and float samples to 16-bit", () => {
+    expect(readSamples(toPcm16(Buffer.from([0, 128, 255]), 8))).toEqual([-32768, 0, 32512]);
+
+    const pcm24 = Buffer.alloc(6);
+    pcm24.writeIntLE(0x7fffff, 0, 3);
+    pcm24.writeIntLE(-0x800000, 3, 3);
+    expect(readSamples(toPcm16(pcm24, 24))).toEqual([32767, -32768]);
+
+    const float = Buffer.alloc(8);
+    float.writeFloatLE(0.5, 0);
+    float.writeFloatLE(-2, 4);
+    expect(readSamples(toPcm16(float, 32, 3))).toEqual([16384, -32767]);
+  });
+
+  it("should average channels when downmixing", () => {
+    expect(readSamples(downmixToMono(samples(100, 300, -50, 50), 2))).toEqual([200, 0]);
+  });
+
+  it("should resample by interpolation", () => {
+    expect(readSamples(resample(samples(0, 100, 200, 300), 16000, 8000))).toEqual([0, 200]);
+    expect(readSamples(resample(samples(0, 100), 8000, 16000))).toEqual([0, 50, 100, 100]);
+  });
+});
+
+describe("normalizeAudio", () => {
+  it("should turn stereo 44.1kHz 24-bit WAV into mono 16kHz 16-bit WAV", () => {
+    const frames = 4410;
+    const data = Buffer.alloc(frames * 2 * 3);
+    for (let i = 0; i < frames * 2; i++) {
+      data.writeIntLE(0x100000, i * 3, 3);
+    }
+    const header = createWavHeader(data.length, { sampleRate: 44100, channels: 2, bitsPerSample: 24 });
+
+    const result = normalizeAudio(Buffer.concat([header, data]));
+    const info = parseWav(result.data);
+
+    expect(result.sourceFormat).toBe("wav");
+    expect(info).toMatchObject({ sampleRate: 16000, channels: 1, bitsPerSample: 16 });
+    expect(info.dataLength).toBe(1600 * 2);
+    expect(result.duration).toBeCloseTo(0.1, 3);
+    expect(result.data.readInt16LE(info.dataOffset)).toBe(0x1000);
+  });
+
+  it("should pass compressed audio through", () => {
+    const ogg = Buffer.from("OggS\u0000\u0002rest");
+    const result = normalizeAudio(ogg);
+
+    expect(result.data).toBe(ogg);
+    expect(result.extension).toBe(".ogg");
+  });
+
+  it("should read the duration an MP4 movie header declares", () => {
+    // Version 0 mvhd: version and flags, creation and modification times, timescale, duration
+    const mvhd = Buffer.alloc(20);
+    mvhd.writeUInt32BE(1000, 12);
+    mvhd.writeUInt32BE(2500, 16);
+    const mp4 = Buffer.concat([box("ftyp", Buffer.from("M4A \u0000\u0000\u0000\u0000")), box("moov", box("mvhd", mvhd))]);
+
+    const result = normalizeAudio(mp4);
+
+    expect(result.sourceFormat).toBe("mp4");
+    expect(result.duration).toBe(2.5);
+  });
+
+  it("should estimate the duration of compressed audio that doesn't declare one", () => {
+    const ogg = Buffer.concat([Buffer.from("OggS"), Buffer.alloc(3996)]);
+
+    expect(normalizeAudio(ogg).duration).toBeNull();
+    expect(estimateDuration(ogg, "ogg")).toBe(1);
+  });
+});
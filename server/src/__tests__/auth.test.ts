@@ -0,0 +1,275 @@
+import * as grpc from "@grpc/grpc-js";
+import * as protoLoader from "@grpc/proto-loader";
+import * as fs from "fs";
+import * as path from "path";
+import request from "supertest";
+import WebSocket from "ws";
+import { ANONYMOUS_PRINCIPAL, AuthError, Authenticator, signToken, verifyToken } from "../auth";
+import { AudioStreamApp } from "../app";
+import { GrpcAudioServer } from "../grpc/GrpcAudioServer";
+import { JobManager } from "../jobs/JobManager";
+import { ConversationPipeline } from "../pipeline/ConversationPipeline";
+import { WebSocketServer } from "../websocket/WebSocketServer";
+import { SessionManager } from "../session/SessionManager";
+import { EchoService } from "../services/EchoService";
+import { audioGenerator } from "./testAudioGenerator";
+import { close, connect, nextMessage, send } from "./testWebSocket";
+
+const WS_PORT = 18081;
+const GRPC_PORT = 18091;
+const SECRET = "test-secret";
+
+function createAuthenticator(): Authenticator {
+  return new Authenticator({ apiKeys: ["alice:alice-key", "bob:bob-key"], jwtSecret: SECRET });
+}
+
+describe("Bearer tokens", () => {
+  it("should verify a signed token", () => {
+    const token = signToken({ sub: "alice", exp: Math.floor(Date.now() / 1000) + 60 }, SECRET);
+    expect(verifyToken(token, SECRET).sub).toBe("alice");
+  });
+
+  it("should reject tokens signed with another secret", () => {
+    const token = signToken({ sub: "alice" }, "other-secret");
+    expect(() => verifyToken(token, SECRET)).toThrow("Invalid token signature");
+  });
+
+  it("should reject expired tokens", () => {
+    const token = signToken({ sub: "alice", exp: Math.floor(Date.now() / 1000) - 60 }, SECRET);
+    expect(() => verifyToken(token, SECRET)).toThrow("Token expired");
+  });
+
+  it("should reject tokens that switch the algorithm", () => {
+    const [, payload] = signToken({ sub: "alice" }, SECRET).split(".");
+    const header = Buffer.from(JSON.stringify({ alg: "none" })).toString("base64url");
+    expect(() => verifyToken(`${header}.${payload}.`, SECRET)).toThrow(AuthError);
+  });
+});
+
+describe("Authenticator", () => {
+  it("should let everyone in as the anonymous principal when nothing is configured", () => {
+    const authenticator = new Authenticator({ apiKeys: [], jwtSecret: "" });
+    expect(authenticator.isEnabled()).toBe(false);
+    expect(authenticator.authenticate(undefined)).toBe(ANONYMOUS_PRINCIPAL);
+  });
+
+  it("should map API keys and tokens to principals", () => {
+    const authenticator = createAuthenticator();
+    expect(authenticator.authenticate("bob-key")).toEqual({ id: "bob", method: "api-key" });
+    expect(authenticator.authenticate(signToken({ sub: "carol" }, SECRET))).toEqual({ id: "carol", method: "token" });
+  });
+
+  it("should reject missing and unknown credentials", () => {
+    const authenticator = createAuthenticator();
+    expect(() => authenticator.authenticate(undefined)).toThrow("Missing credentials");
+    expect(() => authenticator.authenticate("guessed-key")).toThrow("Invalid API key");
+  });
+
+  it("should give bare keys an id that doesn't contain the key", () => {
+    const principal = new Authenticator({ apiKeys: ["secret-value"], jwtSecret: "" }).authenticate("secret-value");
+    expect(principal.id).toMatch(/^key-[0-9a-f]{12}$/);
+  });
+});
+
+describe("Upload jobs", () => {
+  it("should recreate a session that expired while queued for the principal that submitted it", async () => {
+    const echo = new EchoService({ tokenDelay: 0 });
+    const sessionManager = new SessionManager();
+    const outputDir = audioGenerator.getTestFilePath("auth-jobs");
+    const jobs = new JobManager(sessionManager, new ConversationPipeline({ stt: echo, chat: echo, tts: echo }), outputDir);
+    try {
+      const job = jobs.submit("expired-session", audioGenerator.generateSpeechLike(0.3), { principalId: "alice" });
+      await jobs.wait(job.id);
+
+      const session = sessionManager.getSession("expired-session")!;
+      expect(session.belongsTo({ id: "alice", method: "api-key" })).toBe(true);
+      expect(session.belongsTo({ id: "bob", method: "api-key" })).toBe(false);
+    } finally {
+      sessionManager.stop();
+      fs.rmSync(outputDir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("HTTP authentication", () => {
+  let app: AudioStreamApp;
+  let sessionManager: SessionManager;
+  const uploadDir = audioGenerator.getTestFilePath("auth-uploads");
+
+  beforeAll(() => {
+    const echo = new EchoService({ tokenDelay: 0 });
+    sessionManager = new SessionManager();
+    app = new AudioStreamApp({
+      uploadDir,
+      providers: { stt: echo, chat: echo, tts: echo },
+      sessionManager,
+      authenticator: createAuthenticator(),
+      metricsToken: "scrape-token",
+    });
+    sessionManager.createSession("alice-session", "alice");
+  });
+
+  afterAll(async () => {
+    await app.drain();
+    sessionManager.stop();
+    fs.rmSync(uploadDir, { recursive: true, force: true });
+  });
+
+  it("should keep the health check public", async () => {
+    await request(app.getExpressApp()).get("/health").expect(200);
+  });
+
+  it("should let scrapers read metrics with the metrics token only", async () => {
+    await request(app.getExpressApp()).get("/metrics").set("Authorization", "Bearer scrape-token").expect(200);
+    await request(app.getExpressApp()).get("/metrics").expect(401);
+    await request(app.getExpressApp()).get("/metrics").set("X-API-Key", "bob-key").expect(401);
+  });
+
+  it("should reject requests without valid credentials", async () => {
+    const missing = await request(app.getExpressApp()).get("/sessions");
+    expect(missing.status).toBe(401);
+    expect(missing.body).toEqual({ error: "Missing credentials", code: "UNAUTHORIZED" });
+
+    await request(app.getExpressApp()).get("/sessions").set("X-API-Key", "guessed-key").expect(401);
+  });
+
+  it("should only show a principal its own sessions", async () => {
+    const token = signToken({ sub: "alice" }, SECRET);
+    const own = await request(app.getExpressApp()).get("/sessions").set("Authorization", `Bearer ${token}`);
+    expect(own.body.sessions.map((session: any) => session.id)).toEqual(["alice-session"]);
+
+    const other = await request(app.getExpressApp()).get("/sessions").set("X-API-Key", "bob-key");
+    expect(other.body.total).toBe(0);
+    const forbidden = await request(app.getExpressApp()).get("/sessions/alice-session").set("X-API-Key", "bob-key");
+    expect(forbidden.status).toBe(403);
+    expect(forbidden.body.code).toBe("SESSION_FORBIDDEN");
+    await request(app.getExpressApp()).delete("/sessions/alice-session").set("X-API-Key", "bob-key").expect(403);
+  });
+
+  it("should refuse uploads into another principal's session", async () => {
+    const response = await request(app.getExpressApp())
+      .post("/upload-audio")
+      .set("X-API-Key", "bob-key")
+      .field("sessionId", "alice-session")
+      .attach("audioFile", audioGenerator.generateTone(0.2), "audio.wav");
+
+    expect(response.status).toBe(403);
+    expect(sessionManager.getSession("alice-session")?.turns).toHaveLength(0);
+  });
+});
+
+describe("WebSocket authentication", () => {
+  let server: WebSocketServer;
+
+  beforeAll(async () => {
+    const echo = new EchoService({ tokenDelay: 0 });
+    server = new WebSocketServer(WS_PORT, { stt: echo, chat: echo, tts: echo }, undefined, createAuthenticator());
+    await server.start();
+  });
+
+  afterAll(() => {
+    server.stop();
+  });
+
+  it("should reject the upgrade without credentials", async () => {
+    const ws = new WebSocket(`ws://localhost:${WS_PORT}`);
+    const status = await new Promise<number>((resolve) => {
+      ws.on("unexpected-response", (_req, res) => resolve(res.statusCode!));
+    });
+    expect(status).toBe(401);
+  });
+
+  it("should keep other principals out of a session", async () => {
+    const alice = await connect(WS_PORT, "?access_token=alice-key");
+    const bob = await connect(WS_PORT, `?access_token=${signToken({ sub: "bob" }, SECRET)}`);
+
+    send(alice, "session.start", "ws-owned");
+    await nextMessage(alice, "session.ready");
+
+    send(bob, "session.cancel", "ws-owned");
+    const error = await nextMessage(bob, "error");
+    expect(error.data.code).toBe("SESSION_FORBIDDEN");
+    expect(server.getSessionManager().getSession("ws-owned")).toBeDefined();
+
+    await close(alice);
+    await close(bob);
+  });
+
+  it("should let a principal take over its session from a connection that is still open", async () => {
+    const stale = await connect(WS_PORT, "?access_token=alice-key");
+    send(stale, "session.start", "ws-takeover");
+    await nextMessage(stale, "session.ready");
+
+    // The client gave up on the stalled socket and reconnected before the server noticed
+    const reconnected = await connect(WS_PORT, "?access_token=alice-key");
+    send(reconnected, "session.resume", "ws-takeover", { lastSeq: 1 });
+    const resumed = await nextMessage(reconnected, "session.resumed");
+    expect(resumed.data.complete).toBe(true);
+
+    const chunk = audioGenerator.generateSilence(0.1).toString("base64");
+    send(reconnected, "audio.chunk", "ws-takeover", { chunk, sequenceNumber: 1 });
+    await nextMessage(reconnected, "audio.received");
+    send(stale, "audio.chunk", "ws-takeover", { chunk, sequenceNumber: 2 });
+    const error = await nextMessage(stale, "error");
+    expect(error.data.code).toBe("SESSION_FORBIDDEN");
+
+    await close(stale);
+    await close(reconnected);
+  });
+});
+
+describe("gRPC authentication", () => {
+  let server: GrpcAudioServer;
+  let client: any;
+  const audioDir = audioGenerator.getTestFilePath("auth-grpc");
+
+  beforeAll(async () => {
+    const echo = new EchoService({ tokenDelay: 0 });
+    server = new GrpcAudioServer(GRPC_PORT, { stt: echo, chat: echo, tts: echo }, undefined, {
+      audioDir,
+      authenticator: createAuthenticator(),
+    });
+    await server.start();
+
+    const packageDefinition = protoLoader.loadSync(path.join(__dirname, "../../proto/audio.proto"), {
+      keepCase: true,
+      defaults: true,
+      oneofs: true,
+    });
+    const audioProto: any = grpc.loadPackageDefinition(packageDefinition);
+    client = new audioProto.audio.AudioService(`localhost:${GRPC_PORT}`, grpc.credentials.createInsecure());
+  });
+
+  afterAll(() => {
+    client.close();
+    server.stop();
+    fs.rmSync(audioDir, { recursive: true, force: true });
+  });
+
+  function firstEvent(metadata: grpc.Metadata): Promise<{ event?: any; error?: grpc.ServiceError }> {
+    return new Promise((resolve) => {
+      const call = client.Conversation(metadata);
+      call.on("data", (event: any) => {
+        resolve({ event });
+        call.end();
+      });
+      call.on("error", (error: grpc.ServiceError) => resolve({ error }));
+      call.write({ start: { session_id: "grpc-auth", protocol_version: 1 } });
+    });
+  }
+
+  it("should reject calls without credentials", async () => {
+    const { error } = await firstEvent(new grpc.Metadata());
+    expect(error?.code).toBe(grpc.status.UNAUTHENTICATED);
+    expect(error?.details).toBe("Missing credentials");
+  });
+
+  it("should accept an API key in the metadata", async () => {
+    const metadata = new grpc.Metadata();
+    metadata.set("x-api-key", "alice-key");
+
+    const { event } = await firstEvent(metadata);
+    expect(event.event).toBe("ready");
+    expect(server.getSessionManager().getSession("grpc-auth")?.principalId).toBe("alice");
+  });
+});
@@ -0,0 +1,63 @@
+import { BinaryFrameType, decodeBinaryFrame, encodeBinaryFrame } from "../websocket/BinaryFrame";
+
+describe("BinaryFrame", () => {
+  it("should round-trip an audio chunk", () => {
+    const payload = Buffer.from([0, 1, 2, 254, 255]);
+    const encoded = encodeBinaryFrame({
+      type: BinaryFrameType.AudioChunk,
+      sessionId: "session-é",
+      sequenceNumber: 42,
+      segmentIndex: 3,
+      isLastInSegment: true,
+      payload,
+    });
+
+    const frame = decodeBinaryFrame(encoded);
+    expect(frame.type).toBe(BinaryFrameType.AudioChunk);
+    expect(frame.sessionId).toBe("session-é");
+    expect(frame.sequenceNumber).toBe(42);
+    expect(frame.segmentIndex).toBe(3);
+    expect(frame.isLastInSegment).toBe(true);
+    expect(frame.payload.equals(payload)).toBe(true);
+  });
+
+  it("should leave the segment unset for uploaded audio", () => {
+    const frame = decodeBinaryFrame(encodeBinaryFrame({
+      type: BinaryFrameType.AudioChunk,
+      sessionId: "upload",
+      sequenceNumber: 1,
+      payload: Buffer.alloc(0),
+    }));
+
+    expect(frame.segmentIndex).toBeUndefined();
+    expect(frame.isLastInSegment).toBe(false);
+    expect(frame.payload.length).toBe(0);
+  });
+
+  it("should carry the event sequence number of session events", () => {
+    const frame = decodeBinaryFrame(encodeBinaryFrame({
+      type: BinaryFrameType.AudioChunk,
+      sessionId: "resumable",
+      sequenceNumber: 7,
+      eventSeq: 123456,
+      payload: Buffer.from([1, 2, 3]),
+    }));
+
+    expect(frame.eventSeq).toBe(123456);
+    expect(frame.sessionId).toBe("resumable");
+    expect(frame.payload.equals(Buffer.from([1, 2, 3]))).toBe(true);
+  });
+
+  it("should reject malformed frames", () => {
+    expect(() => decodeBinaryFrame(Buffer.alloc(4))).toThrow("too short");
+
+    const badVersion = Buffer.alloc(12);
+    badVersion.writeUInt8(9, 0);
+    expect(() => decodeBinaryFrame(badVersion)).toThrow("version");
+
+    const badType = Buffer.alloc(12);
+    badType.writeUInt8(1, 0);
+    badType.writeUInt8(99, 1);
+    expect(() => decodeBinaryFrame(badType)).toThrow("type");
+  });
+});
@@ -0,0 +1,112 @@
+import { ConversationMemory } from "../session/ConversationMemory";
+import { Session } from "../session/Session";
+import { EchoService } from "../services/EchoService";
+
+function addTurn(session: Session, user: string, assistant: string): void {
+  session.startTurn(user);
+  session.completeTurn(assistant);
+}
+
+describe("ConversationMemory", () => {
+  it("should include completed turns in order", () => {
+    const memory = new ConversationMemory({
+      maxTurns: 10,
+      maxHistoryTokens: 2000,
+      summarizeOlderTurns: true,
+    });
+    const session = new Session("memory-1");
+    addTurn(session, "Hi", "Hello!");
+    addTurn(session, "How are you?", "Great.");
+    session.startTurn("In progress");
+
+    expect(memory.buildHistory(session)).toEqual([
+      { role: "user", content: "Hi" },
+      { role: "assistant", content: "Hello!" },
+      { role: "user", content: "How are you?" },
+      { role: "assistant", content: "Great." },
+    ]);
+  });
+
+  it("should limit history to the turn window", () => {
+    const memory = new ConversationMemory({
+      maxTurns: 2,
+      maxHistoryTokens: 2000,
+      summarizeOlderTurns: false,
+    });
+    const session = new Session("memory-2");
+    addTurn(session, "one", "1");
+    addTurn(session, "two", "2");
+    addTurn(session, "three", "3");
+
+    const history = memory.buildHistory(session);
+    expect(history.map((m) => m.content)).toEqual(["two", "2", "three", "3"]);
+  });
+
+  it("should limit history to the token budget", () => {
+    const memory = new ConversationMemory({
+      maxTurns: 10,
+      maxHistoryTokens: 10,
+      summarizeOlderTurns: false,
+    });
+    const session = new Session("memory-3");
+    addTurn(session, "a".repeat(40), "b".repeat(40));
+    addTurn(session, "short", "reply");
+
+    const history = memory.buildHistory(session);
+    expect(history.map((m) => m.content)).toEqual(["short", "reply"]);
+  });
+
+  it("should summarize turns that fall out of the window", async () => {
+    const memory = new ConversationMemory({
+      maxTurns: 1,
+      maxHistoryTokens: 2000,
+      summarizeOlderTurns: true,
+    });
+    const session = new Session("memory-4");
+    addTurn(session, "My name is Ada", "Nice to meet you, Ada.");
+    addTurn(session, "What is my name?", "Ada.");
+
+    await memory.compact(session, new EchoService());
+
+    expect(session.summary).toBe("The user said: My name is Ada");
+    expect(session.summarizedTurnCount).toBe(1);
+    expect(memory.buildHistory(session)).toEqual([
+      { role: "system", content: "Summary of the earlier conversation: The user said: My name is Ada" },
+      { role: "user", content: "What is my name?" },
+      { role: "assistant", content: "Ada." },
+    ]);
+  });
+
+  it("should keep no turns when the turn window is zero", () => {
+    const memory = new ConversationMemory({
+      maxTurns: 0,
+      maxHistoryTokens: 2000,
+      summarizeOlderTurns: false,
+    });
+    const session = new Session("memory-5");
+    addTurn(session, "one", "1");
+
+    expect(memory.buildHistory(session)).toEqual([]);
+  });
+
+  it("should fold turns that never completed into the summarized range", async () => {
+    const memory = new ConversationMemory({
+      maxTurns: 1,
+      maxHistoryTokens: 2000,
+      summarizeOlderTurns: true,
+    });
+    const session = new Session("memory-6");
+    session.startTurn("Abandoned");
+    addTurn(session, "My name is Ada", "Nice to meet you, Ada.");
+    addTurn(session, "What is my name?", "Ada.");
+
+    await memory.compact(session, new EchoService());
+
+    expect(session.summarizedTurnCount).toBe(2);
+    expect(memory.buildHistory(session)).toEqual([
+      { role: "system", content: "Summary of the earlier conversation: The user said: My name is Ada" },
+      { role: "user", content: "What is my name?" },
+      { role: "assistant", content: "Ada." },
+    ]);
+  });
+});
@@ -0,0 +1,460 @@
+import * as fs from "fs";
+import request from "supertest";
+import WebSocket from "ws";
+import { AudioStreamApp } from "../app";
+import { ConversationPipeline } from "../pipeline/ConversationPipeline";
+import { SessionManager } from "../session/SessionManager";
+import { WebSocketServer } from "../websocket/WebSocketServer";
+import { EchoService } from "../services/EchoService";
+import { BinaryFrameType, encodeBinaryFrame } from "../websocket/BinaryFrame";
+import { audioGenerator } from "./testAudioGenerator";
+import { close, collectUntil, connect, send } from "./testWebSocket";
+
+const TEST_PORT = 18080;
+const SHARED_PORT = 18092;
+
+describe("Echo provider pipeline", () => {
+  let server: WebSocketServer;
+  let ws: WebSocket;
+
+  beforeAll(async () => {
+    const echo = new EchoService({
+      transcripts: ["What is the capital of France?"],
+      tokenDelay: 1,
+    });
+    server = new WebSocketServer(TEST_PORT, { stt: echo, chat: echo, tts: echo });
+    await server.start();
+  });
+
+  afterAll(() => {
+    server.stop();
+  });
+
+  beforeEach(async () => {
+    ws = await connect(TEST_PORT);
+  });
+
+  afterEach(async () => {
+    await close(ws);
+  });
+
+  it("should run the full pipeline without outside services", async () => {
+    const sessionId = "echo-session-1";
+
+    send(ws, "session.start", sessionId);
+    await collectUntil(ws, "session.ready");
+
+    const audio = audioGenerator.generateSpeechLike(0.5);
+    send(ws, "audio.chunk", sessionId, {
+      chunk: audio.toString("base64"),
+      sequenceNumber: 1,
+    });
+    await collectUntil(ws, "audio.received");
+
+    send(ws, "audio.end", sessionId);
+    const messages = await collectUntil(ws, "audio.complete");
+    const types = messages.map((m) => m.type);
+
+    const transcript = messages.find((m) => m.type === "transcript.complete");
+    expect(transcript.data.transcript).toBe("What is the capital of France?");
+
+    const llmText = messages
+      .filter((m) => m.type === "llm.chunk")
+      .map((m) => m.data.content)
+      .join("");
+    expect(llmText).toBe("You said: What is the capital of France?");
+
+    const complete = messages.find((m) => m.type === "llm.complete");
+    expect(complete.data.fullText).toBe(llmText);
+
+    expect(types.indexOf("transcript.complete")).toBeLessThan(types.indexOf("llm.complete"));
+    expect(types).toContain("audio.chunk");
+
+    const audioBytes = Buffer.concat(
+      messages
+        .filter((m) => m.type === "audio.chunk")
+        .map((m) => Buffer.from(m.data.chunk, "base64"))
+    );
+    expect(audioBytes.toString("ascii", 0, 4)).toBe("RIFF");
+  });
+
+  it("should keep one session across several recordings", async () => {
+    const sessionId = "echo-session-2";
+
+    for (let i = 0; i < 2; i++) {
+      send(ws, "session.start", sessionId);
+      const [ready] = await collectUntil(ws, "session.ready");
+      expect(ready.data.turnCount).toBe(i);
+
+      send(ws, "audio.chunk", sessionId, {
+        chunk: audioGenerator.generateTone(0.2).toString("base64"),
+        sequenceNumber: 1,
+      });
+      send(ws, "audio.end", sessionId);
+      await collectUntil(ws, "audio.complete");
+    }
+
+    const session = server.getSessionManager().getSession(sessionId)!;
+    expect(session.turns).toHaveLength(2);
+    expect(session.turns.every((turn) => turn.completedAt !== null)).toBe(true);
+    expect(session.getAudioBuffer().length).toBe(0);
+  });
+
+  it("should exchange audio as binary frames when negotiated", async () => {
+    const sessionId = "echo-session-binary";
+
+    send(ws, "session.start", sessionId, { audioTransport: "binary" });
+    const [ready] = await collectUntil(ws, "session.ready");
+    expect(ready.data.audioTransport).toBe("binary");
+
+    const audio = audioGenerator.generateTone(0.2);
+    ws.send(encodeBinaryFrame({
+      type: BinaryFrameType.AudioChunk,
+      sessionId,
+      sequenceNumber: 1,
+      payload: audio,
+    }));
+    const [received] = await collectUntil(ws, "audio.received");
+    expect(received.data.sequenceNumber).toBe(1);
+
+    send(ws, "audio.end", sessionId);
+    const messages = await collectUntil(ws, "audio.complete");
+
+    const frames = messages.filter((m) => m.type === "binary").map((m) => m.frame);
+    expect(messages.filter((m) => m.type === "audio.chunk")).toHaveLength(0);
+    expect(frames.length).toBeGreaterThan(0);
+    expect(frames.every((frame) => frame.sessionId === sessionId)).toBe(true);
+    expect(frames.map((frame) => frame.sequenceNumber)).toEqual(frames.map((_, i) => i));
+    expect(frames[frames.length - 1].isLastInSegment).toBe(true);
+
+    const complete = messages.find((m) => m.type === "audio.complete");
+    const totalSize = frames.reduce((sum, frame) => sum + frame.payload.length, 0);
+    expect(complete.data.totalSize).toBe(totalSize);
+    expect(frames[0].payload.toString("ascii", 0, 4)).toBe("RIFF");
+  });
+
+  it("should end utterances on silence in hands-free mode", async () => {
+    const sessionId = "echo-hands-free-1";
+    send(ws, "session.start", sessionId, { handsFree: true });
+    const [ready] = await collectUntil(ws, "session.ready");
+    expect(ready.data.handsFree).toBe(true);
+
+    // Speech followed by more than the trailing-silence window, streamed in 100ms chunks
+    const audio = Buffer.concat([
+      audioGenerator.generateSpeechLike(0.5),
+      audioGenerator.generateSilence(1).subarray(44),
+    ]);
+    const done = collectUntil(ws, "audio.complete");
+    for (let i = 0, sequenceNumber = 1; i < audio.length; i += 3200, sequenceNumber++) {
+      send(ws, "audio.chunk", sessionId, { chunk: audio.subarray(i, i + 3200).toString("base64"), sequenceNumber });
+    }
+
+    const messages = await done;
+    const types = messages.map((m) => m.type);
+    expect(types).toContain("speech.started");
+    expect(types.indexOf("speech.ended")).toBeGreaterThan(types.indexOf("speech.started"));
+    expect(types.indexOf("transcript.complete")).toBeGreaterThan(types.indexOf("speech.ended"));
+    expect(types).not.toContain("error");
+
+    const ended = messages.find((m) => m.type === "speech.ended");
+    expect(ended.data.durationMs).toBeGreaterThanOrEqual(400);
+  });
+
+  it("should send interim transcripts while recording", async () => {
+    const sessionId = "echo-partial-1";
+    send(ws, "session.start", sessionId, { partialTranscripts: true });
+    const [ready] = await collectUntil(ws, "session.ready");
+    expect(ready.data.partialTranscripts).toBe(true);
+
+    send(ws, "audio.chunk", sessionId, {
+      chunk: audioGenerator.generateSpeechLike(1).toString("base64"),
+      sequenceNumber: 1,
+    });
+    const messages = await collectUntil(ws, "transcript.partial");
+    const partial = messages[messages.length - 1];
+    expect("What is the capital of France?".startsWith(partial.data.text)).toBe(true);
+    expect(partial.data.text).not.toBe("");
+
+    send(ws, "audio.end", sessionId);
+    const final = await collectUntil(ws, "transcript.complete");
+    expect(final[final.length - 1].data.transcript).toBe("What is the capital of France?");
+    await collectUntil(ws, "audio.complete");
+  });
+
+  it("should negotiate the protocol version", async () => {
+    const sessionId = "echo-protocol-1";
+    send(ws, "session.start", sessionId, { protocolVersion: 1 });
+    const [ready] = await collectUntil(ws, "session.ready");
+    expect(ready.data.protocolVersion).toBe(1);
+
+    send(ws, "session.start", sessionId, { protocolVersion: 0 });
+    const [error] = await collectUntil(ws, "error");
+    expect(error.data.code).toBe("UNSUPPORTED_PROTOCOL_VERSION");
+    expect(error.data.supportedVersions).toEqual([1]);
+  });
+
+  it("should answer malformed messages with field details", async () => {
+    send(ws, "audio.chunk", "echo-protocol-2", { chunk: 42, sequenceNumber: "one" });
+    const [error] = await collectUntil(ws, "error");
+
+    expect(error.sessionId).toBe("echo-protocol-2");
+    expect(error.data.code).toBe("INVALID_MESSAGE");
+    expect(error.data.details).toEqual([
+      { field: "data.chunk", message: "must be a base64 string" },
+      { field: "data.sequenceNumber", message: "must be an integer" },
+    ]);
+  });
+});
+
+describe("Sentence-level speech streaming", () => {
+  let server: WebSocketServer;
+  let ws: WebSocket;
+
+  beforeAll(async () => {
+    const echo = new EchoService({
+      transcripts: ["Tell me about Paris"],
+      responseTemplate: "Paris is the capital of France. It is known for the Eiffel Tower. Enjoy your trip!",
+      tokenDelay: 1,
+    });
+    server = new WebSocketServer(TEST_PORT + 1, { stt: echo, chat: echo, tts: echo });
+    await server.start();
+  });
+
+  afterAll(() => {
+    server.stop();
+  });
+
+  beforeEach(async () => {
+    ws = await connect(TEST_PORT + 1);
+  });
+
+  afterEach(async () => {
+    await close(ws);
+  });
+
+  it("should send ordered, segment-tagged audio for each sentence", async () => {
+    const sessionId = "segment-session-1";
+
+    send(ws, "session.start", sessionId);
+    await collectUntil(ws, "session.ready");
+    send(ws, "audio.chunk", sessionId, {
+      chunk: audioGenerator.generateTone(0.2).toString("base64"),
+      sequenceNumber: 1,
+    });
+    send(ws, "audio.end", sessionId);
+
+    const messages = await collectUntil(ws, "audio.complete");
+    const audioChunks = messages.filter((m) => m.type === "audio.chunk");
+    const complete = messages.find((m) => m.type === "audio.complete");
+
+    expect(complete.data.segmentCount).toBe(3);
+    expect(audioChunks.map((m) => m.data.sequenceNumber)).toEqual(
+      audioChunks.map((_, i) => i)
+    );
+
+    const segmentIndexes = audioChunks.map((m) => m.data.segmentIndex);
+    expect(segmentIndexes).toEqual([...segmentIndexes].sort((a, b) => a - b));
+    expect(audioChunks.filter((m) => m.data.isLastInSegment)).toHaveLength(3);
+
+    // Each segment is a complete, independently playable WAV
+    for (let segment = 0; segment < 3; segment++) {
+      const audio = Buffer.concat(
+        audioChunks
+          .filter((m) => m.data.segmentIndex === segment)
+          .map((m) => Buffer.from(m.data.chunk, "base64"))
+      );
+      expect(audio.toString("ascii", 0, 4)).toBe("RIFF");
+    }
+
+    // The first sentence's audio arrives before the LLM has finished
+    const types = messages.map((m) => m.type);
+    expect(types.indexOf("audio.chunk")).toBeLessThan(types.indexOf("llm.complete"));
+  });
+});
+
+describe("Barge-in", () => {
+  let server: WebSocketServer;
+  let ws: WebSocket;
+
+  beforeAll(async () => {
+    const echo = new EchoService({
+      transcripts: ["Tell me a long story"],
+      responseTemplate: "Once upon a time there was a very long story that kept going and going without end.",
+      tokenDelay: 30,
+    });
+    server = new WebSocketServer(TEST_PORT + 2, { stt: echo, chat: echo, tts: echo });
+    await server.start();
+  });
+
+  afterAll(() => {
+    server.stop();
+  });
+
+  beforeEach(async () => {
+    ws = await connect(TEST_PORT + 2);
+  });
+
+  afterEach(async () => {
+    await close(ws);
+  });
+
+  it("should stop streaming and report what was delivered", async () => {
+    const sessionId = "barge-in-session-1";
+
+    send(ws, "session.start", sessionId);
+    await collectUntil(ws, "session.ready");
+    send(ws, "audio.chunk", sessionId, {
+      chunk: audioGenerator.generateTone(0.2).toString("base64"),
+      sequenceNumber: 1,
+    });
+    send(ws, "audio.end", sessionId);
+
+    const beforeInterrupt = await collectUntil(ws, "llm.chunk");
+    const received = [...beforeInterrupt];
+    const onMessage = (data: WebSocket.Data) => received.push(JSON.parse(data.toString()));
+    ws.on("message", onMessage);
+
+    send(ws, "response.interrupt", sessionId);
+    await collectUntil(ws, "response.interrupted");
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    ws.off("message", onMessage);
+
+    const types = received.map((m) => m.type);
+    const interruptedAt = types.indexOf("response.interrupted");
+    const interrupted = received[interruptedAt];
+
+    // Nothing from the aborted run arrives after the interruption
+    expect(types.slice(interruptedAt + 1)).toEqual([]);
+    expect(types).not.toContain("llm.complete");
+
+    const deliveredText = received
+      .filter((m) => m.type === "llm.chunk")
+      .map((m) => m.data.content)
+      .join("");
+    expect(interrupted.data.wasActive).toBe(true);
+    expect(interrupted.data.reason).toBe("client");
+    expect(interrupted.data.stage).toBe("generating");
+    expect(interrupted.data.deliveredText).toBe(deliveredText);
+    expect(interrupted.data.audioBytesDelivered).toBe(0);
+
+    const session = server.getSessionManager().getSession(sessionId)!;
+    expect(session.turns[0].interrupted).toBe(true);
+    expect(session.turns[0].assistantResponse).toBe(deliveredText);
+  });
+
+  it("should report an inactive interruption when nothing is in flight", async () => {
+    const sessionId = "barge-in-session-2";
+
+    send(ws, "session.start", sessionId);
+    await collectUntil(ws, "session.ready");
+    send(ws, "response.interrupt", sessionId);
+
+    const messages = await collectUntil(ws, "response.interrupted");
+    expect(messages[messages.length - 1].data.wasActive).toBe(false);
+  });
+});
+
+describe("Session ownership", () => {
+  let server: WebSocketServer;
+
+  beforeAll(async () => {
+    const echo = new EchoService({ tokenDelay: 0 });
+    server = new WebSocketServer(TEST_PORT + 3, { stt: echo, chat: echo, tts: echo });
+    await server.start();
+  });
+
+  afterAll(() => {
+    server.stop();
+  });
+
+  it("should hand out a session id when the client sends none", async () => {
+    const ws = await connect(TEST_PORT + 3);
+    send(ws, "session.start");
+    const [ready] = await collectUntil(ws, "session.ready");
+
+    expect(ready.sessionId).toMatch(/^[0-9a-f-]{36}$/);
+    expect(server.getSessionManager().getSession(ready.sessionId)).toBeDefined();
+    await close(ws);
+  });
+
+  it("should keep other connections out until the owner disconnects", async () => {
+    const owner = await connect(TEST_PORT + 3);
+    const intruder = await connect(TEST_PORT + 3);
+    const sessionId = "owned-session-1";
+
+    send(owner, "session.start", sessionId);
+    await collectUntil(owner, "session.ready");
+
+    for (const type of ["session.start", "audio.end", "session.cancel"]) {
+      send(intruder, type, sessionId);
+      const messages = await collectUntil(intruder, "error");
+      expect(messages[messages.length - 1].data.code).toBe("SESSION_FORBIDDEN");
+    }
+    expect(server.getSessionManager().getSession(sessionId)).toBeDefined();
+
+    await close(owner);
+    // Give the server a moment to handle the close on its side
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    send(intruder, "session.start", sessionId);
+    const [ready] = await collectUntil(intruder, "session.ready");
+    expect(ready.data.resumed).toBe(true);
+    await close(intruder);
+  });
+});
+
+describe("Pipeline shared between transports", () => {
+  it("should let an upload interrupt the reply a WebSocket client is receiving", async () => {
+    // Slow enough that the reply is still streaming when the upload arrives
+    const echo = new EchoService({ tokenDelay: 50 });
+    const providers = { stt: echo, chat: echo, tts: echo };
+    const sessionManager = new SessionManager();
+    const pipeline = new ConversationPipeline(providers);
+    const uploadDir = audioGenerator.getTestFilePath("shared-pipeline-uploads");
+    const server = new WebSocketServer(SHARED_PORT, providers, sessionManager, undefined, undefined, pipeline);
+    const app = new AudioStreamApp({ uploadDir, providers, sessionManager, pipeline });
+    await server.start();
+    const ws = await connect(SHARED_PORT);
+    try {
+      const sessionId = "shared-pipeline";
+      send(ws, "session.start", sessionId);
+      await collectUntil(ws, "session.ready");
+      send(ws, "audio.chunk", sessionId, { chunk: audioGenerator.generateSpeechLike(0.3).toString("base64"), sequenceNumber: 1 });
+      send(ws, "audio.end", sessionId);
+      await collectUntil(ws, "llm.chunk");
+
+      const interrupted = collectUntil(ws, "response.interrupted");
+      await request(app.getExpressApp())
+        .post("/upload-audio?wait=true")
+        .field("sessionId", sessionId)
+        .attach("audioFile", audioGenerator.generateSpeechLike(0.3), "audio.wav")
+        .expect(200);
+
+      const messages = await interrupted;
+      expect(messages[messages.length - 1].data.reason).toBe("upload");
+    } finally {
+      await close(ws);
+      server.stop();
+      await app.drain();
+      sessionManager.stop();
+      fs.rmSync(uploadDir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("EchoService", () => {
+  it("should derive the transcript from the filename", async () => {
+    const echo = new EchoService({ transcripts: [] });
+    const transcript = await echo.transcribe(Buffer.alloc(10), {
+      filename: "what_is-the.weather.wav",
+    });
+    expect(transcript).toBe("what is the weather");
+  });
+
+  it("should cycle through scripted transcripts", async () => {
+    const echo = new EchoService({ transcripts: ["one", "two"] });
+    const audio = Buffer.alloc(10);
+    expect(await echo.transcribe(audio)).toBe("one");
+    expect(await echo.transcribe(audio)).toBe("two");
+    expect(await echo.transcribe(audio)).toBe("one");
+  });
+});
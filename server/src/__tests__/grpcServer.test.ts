@@ -0,0 +1,208 @@
+import * as grpc from "@grpc/grpc-js";
+import * as protoLoader from "@grpc/proto-loader";
+import * as fs from "fs";
+import * as path from "path";
+import { GrpcAudioServer } from "../grpc/GrpcAudioServer";
+import { EchoService } from "../services/EchoService";
+import { parseWav } from "../audio";
+import { audioGenerator } from "./testAudioGenerator";
+
+const TEST_PORT = 18090;
+const PROTO_PATH = path.join(__dirname, "../../proto/audio.proto");
+
+/**
+ * Resolve with everything the server sent once it closes the stream
+ */
+function readAll(call: grpc.ClientDuplexStream<any, any>): Promise<any[]> {
+  return new Promise((resolve, reject) => {
+    const messages: any[] = [];
+    call.on("data", (message: any) => messages.push(message));
+    call.on("end", () => resolve(messages));
+    call.on("error", reject);
+  });
+}
+
+/**
+ * Collect conversation events until one with the given field set arrives
+ */
+function collectUntil(call: grpc.ClientDuplexStream<any, any>, event: string, timeout = 5000): Promise<any[]> {
+  return new Promise((resolve, reject) => {
+    const events: any[] = [];
+    const timer = setTimeout(() => {
+      call.off("data", onData);
+      reject(new Error(`Timed out waiting for ${event}`));
+    }, timeout);
+
+    const onData = (message: any) => {
+      events.push(message);
+      if (message.event === event) {
+        clearTimeout(timer);
+        call.off("data", onData);
+        resolve(events);
+      }
+    };
+
+    call.on("data", onData);
+  });
+}
+
+describe("GrpcAudioServer", () => {
+  let server: GrpcAudioServer;
+  let client: any;
+  let audioDir: string;
+
+  beforeAll(async () => {
+    const echo = new EchoService({
+      transcripts: ["What is the capital of France?"],
+      tokenDelay: 1,
+    });
+    audioDir = audioGenerator.getTestFilePath("grpc");
+    server = new GrpcAudioServer(TEST_PORT, { stt: echo, chat: echo, tts: echo }, undefined, { audioDir });
+    await server.start();
+
+    const packageDefinition = protoLoader.loadSync(PROTO_PATH, {
+      keepCase: true,
+      longs: String,
+      enums: String,
+      defaults: true,
+      oneofs: true,
+    });
+    const audioProto: any = grpc.loadPackageDefinition(packageDefinition);
+    client = new audioProto.audio.AudioService(`localhost:${TEST_PORT}`, grpc.credentials.createInsecure());
+  });
+
+  afterAll(() => {
+    client.close();
+    server.stop();
+    fs.rmSync(audioDir, { recursive: true, force: true });
+  });
+
+  it("should record streamed PCM as a WAV file", async () => {
+    const call = client.streamAudio();
+    const done = readAll(call);
+
+    const pcm = audioGenerator.generateTone(0.5).subarray(44);
+    let chunks = 0;
+    for (let i = 0; i < pcm.length; i += 3200, chunks++) {
+      call.write({ session_id: "grpc-record-1", audio_data: pcm.subarray(i, i + 3200), sample_rate: 16000 });
+    }
+    call.end();
+
+    const acks = await done;
+    expect(acks).toHaveLength(chunks);
+    expect(acks.every((ack) => ack.success && ack.session_id === "grpc-record-1")).toBe(true);
+
+    const [filename] = fs.readdirSync(audioDir).filter((name) => name.startsWith("audio_grpc-record-1_"));
+    expect(filename).toBeDefined();
+    const info = parseWav(fs.readFileSync(path.join(audioDir, filename)));
+    expect(info.sampleRate).toBe(16000);
+    expect(info.dataLength).toBe(pcm.length);
+
+    // Recordings live in the shared session manager, which has handed the audio over
+    const session = server.getSessionManager().getSession("grpc-record-1")!;
+    expect(session.getAudioBuffer().length).toBe(0);
+  });
+
+  it("should release the session of a cancelled recording", async () => {
+    const pcm = audioGenerator.generateTone(0.1).subarray(44);
+    const first = client.streamAudio();
+    const acked = new Promise((resolve) => first.once("data", resolve));
+    first.on("error", () => undefined);
+    first.write({ session_id: "grpc-record-cancelled", audio_data: pcm, sample_rate: 16000 });
+    await acked;
+    first.cancel();
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    const second = client.streamAudio();
+    const done = readAll(second);
+    second.write({ session_id: "grpc-record-cancelled", audio_data: pcm, sample_rate: 16000 });
+    second.end();
+    const [ack] = await done;
+    expect(ack.success).toBe(true);
+  });
+
+  it("should keep recordings of path-like session ids inside the audio directory", async () => {
+    const call = client.streamAudio();
+    const done = readAll(call);
+    call.write({ session_id: "../grpc-escape", audio_data: audioGenerator.generateTone(0.1).subarray(44), sample_rate: 16000 });
+    call.end();
+    await done;
+
+    expect(fs.readdirSync(audioDir).some((name) => name.startsWith("audio_..%2Fgrpc-escape_"))).toBe(true);
+    expect(fs.readdirSync(path.dirname(audioDir)).some((name) => name.includes("grpc-escape"))).toBe(false);
+  });
+
+  it("should run the full pipeline over raw PCM", async () => {
+    const call = client.conversation();
+    call.write({ start: { session_id: "grpc-session-1", sample_rate: 16000 } });
+    const [ready] = await collectUntil(call, "ready");
+    expect(ready.session_id).toBe("grpc-session-1");
+    expect(ready.ready.resumed).toBe(false);
+
+    const pcm = audioGenerator.generateSpeechLike(0.5).subarray(44);
+    for (let i = 0; i < pcm.length; i += 3200) {
+      call.write({ audio: { data: pcm.subarray(i, i + 3200) } });
+    }
+    call.write({ end: {} });
+
+    const events = await collectUntil(call, "complete");
+    const transcript = events.find((e) => e.event === "transcript");
+    expect(transcript.transcript.text).toBe("What is the capital of France?");
+
+    const llmText = events
+      .filter((e) => e.event === "llm_chunk")
+      .map((e) => e.llm_chunk.content)
+      .join("");
+    expect(llmText).toBe("You said: What is the capital of France?");
+
+    const audio = events.filter((e) => e.event === "audio").map((e) => e.audio);
+    expect(audio.map((chunk) => chunk.sequence_number)).toEqual(audio.map((_, i) => i));
+    const complete = events[events.length - 1].complete;
+    expect(complete.total_size).toBe(audio.reduce((sum, chunk) => sum + chunk.data.length, 0));
+
+    // The stream closes once the client is done and the reply has been delivered
+    const ended = new Promise((resolve) => call.on("end", resolve));
+    call.end();
+    await ended;
+
+    const session = server.getSessionManager().getSession("grpc-session-1")!;
+    expect(session.turns).toHaveLength(1);
+  });
+
+  it("should orphan the session of a cancelled conversation and release it on a clean end", async () => {
+    const cancelled = client.conversation();
+    cancelled.on("error", () => undefined);
+    cancelled.write({ start: { session_id: "grpc-cancelled" } });
+    await collectUntil(cancelled, "ready");
+    cancelled.cancel();
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    // Left for the grace-period cleanup unless a new stream resumes it
+    const orphaned = server.getSessionManager().getSession("grpc-cancelled")!;
+    expect(orphaned.getConnection()).toBeNull();
+    expect(orphaned.getOrphanedAt()).not.toBeNull();
+
+    const ended = client.conversation();
+    ended.write({ start: { session_id: "grpc-ended" } });
+    await collectUntil(ended, "ready");
+    const closed = new Promise((resolve) => ended.on("end", resolve));
+    ended.end();
+    await closed;
+
+    const released = server.getSessionManager().getSession("grpc-ended")!;
+    expect(released.getConnection()).toBeNull();
+    expect(released.getOrphanedAt()).toBeNull();
+  });
+
+  it("should reject audio before the session is started", async () => {
+    const call = client.conversation();
+    call.write({ audio: { data: Buffer.alloc(320) } });
+
+    const [error] = await collectUntil(call, "error");
+    expect(error.error.code).toBe("SESSION_NOT_FOUND");
+
+    const ended = new Promise((resolve) => call.on("end", resolve));
+    call.end();
+    await ended;
+  });
+});
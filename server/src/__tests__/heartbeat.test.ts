@@ -0,0 +1,84 @@
+import WebSocket from "ws";
+import { config } from "../config/config";
+import { EchoService } from "../services/EchoService";
+import { InMemorySessionStore } from "../session/InMemorySessionStore";
+import { SessionManager } from "../session/SessionManager";
+import { WebSocketServer } from "../websocket/WebSocketServer";
+import { close, connect, nextMessage, send } from "./testWebSocket";
+
+const WS_PORT = 18085;
+
+function wait(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+describe("WebSocket heartbeat", () => {
+  const pingInterval = config.server.websocket.pingInterval;
+  let server: WebSocketServer;
+
+  beforeAll(async () => {
+    config.server.websocket.pingInterval = 50;
+    const echo = new EchoService({ tokenDelay: 0 });
+    server = new WebSocketServer(WS_PORT, { stt: echo, chat: echo, tts: echo });
+    await server.start();
+  });
+
+  afterAll(() => {
+    server.stop();
+    config.server.websocket.pingInterval = pingInterval;
+  });
+
+  it("should keep clients that answer pings", async () => {
+    const ws = await connect(WS_PORT);
+
+    await wait(300);
+    expect(ws.readyState).toBe(WebSocket.OPEN);
+
+    ws.send(JSON.stringify({ type: "ping", timestamp: 1234, data: {} }));
+    const pong = await nextMessage(ws, "pong");
+    expect(pong.data.pingTimestamp).toBe(1234);
+
+    await close(ws);
+  });
+
+  it("should terminate unresponsive clients and orphan their sessions", async () => {
+    // A client that never answers pings looks like a half-open connection
+    const ws = new WebSocket(`ws://localhost:${WS_PORT}`, { autoPong: false });
+    await nextMessage(ws, "connection.established");
+
+    send(ws, "session.start", "heartbeat-1");
+    await nextMessage(ws, "session.ready");
+
+    const closed = new Promise((resolve) => ws.once("close", resolve));
+    await closed;
+    await wait(50);
+
+    const session = server.getSessionManager().getSession("heartbeat-1");
+    expect(session?.getOrphanedAt()).not.toBeNull();
+  });
+});
+
+describe("Orphaned sessions", () => {
+  it("should be deleted after the grace period unless resumed", async () => {
+    const gracePeriod = config.session.orphanGracePeriod;
+    config.session.orphanGracePeriod = 50;
+    const manager = new SessionManager(new InMemorySessionStore());
+    try {
+      const connection = {};
+      manager.createSession("orphan-1").attach(connection);
+      manager.createSession("orphan-2").attach(connection);
+      manager.getSession("orphan-1")!.orphan(connection);
+      manager.getSession("orphan-2")!.orphan(connection);
+
+      // Resuming clears the orphan mark
+      manager.getSession("orphan-2")!.attach({});
+
+      await wait(200);
+      expect(manager.getSession("orphan-1")).toBeUndefined();
+      expect(manager.getSession("orphan-2")).toBeDefined();
+    } finally {
+      config.session.orphanGracePeriod = gracePeriod;
+      manager.stop();
+    }
+  });
+});
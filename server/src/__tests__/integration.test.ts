@@ -2,6 +2,7 @@ import request, { SuperTest, Test } from "supertest";
 import * as fs from "fs";
 import * as path from "path";
 import { AudioStreamApp } from "../app";
+import { EchoService } from "../services/EchoService";
 import { audioGenerator } from "./testAudioGenerator";
 
 describe("Audio Streaming Integration Tests", () => {
@@ -15,11 +16,13 @@ describe("Audio Streaming Integration Tests", () => {
       fs.mkdirSync(uploadDir, { recursive: true });
     }
 
-    app = new AudioStreamApp({ uploadDir });
+    const echo = new EchoService({ transcripts: ["What is the capital of France?"], tokenDelay: 0 });
+    app = new AudioStreamApp({ uploadDir, providers: { stt: echo, chat: echo, tts: echo } });
   });
 
-  afterEach(() => {
-    // Cleanup
+  afterEach(async () => {
+    // Let queued jobs finish before removing their files
+    await app.drain();
     app.cleanup();
     if (fs.existsSync(uploadDir)) {
       fs.rmSync(uploadDir, { recursive: true });
@@ -33,6 +36,14 @@ describe("Audio Streaming Integration Tests", () => {
       expect(response.status).toBe(200);
       expect(response.body).toEqual({ status: "ok" });
     });
+
+    it("should echo the request id, or assign one", async () => {
+      const echoed = await request(app.getExpressApp()).get("/health").set("X-Request-Id", "trace-123");
+      expect(echoed.headers["x-request-id"]).toBe("trace-123");
+
+      const assigned = await request(app.getExpressApp()).get("/health");
+      expect(assigned.headers["x-request-id"]).toMatch(/^[0-9a-f-]{36}$/);
+    });
   });
 
   describe("POST /upload-audio", () => {
@@ -65,7 +76,7 @@ describe("Audio Streaming Integration Tests", () => {
         .field("sessionId", sessionId)
         .attach("audioFile", audioBuffer, "test.wav");
 
-      expect(response.status).toBe(200);
+      expect(response.status).toBe(202);
       expect(response.body.success).toBe(true);
       expect(response.body.sessionId).toBe(sessionId);
       expect(response.body.filename).toContain(`audio_${sessionId}`);
@@ -80,7 +91,7 @@ describe("Audio Streaming Integration Tests", () => {
         .field("sessionId", sessionId)
         .attach("audioFile", audioBuffer, "tone.wav");
 
-      expect(response.status).toBe(200);
+      expect(response.status).toBe(202);
       expect(response.body.success).toBe(true);
 
       // Verify file was actually saved
@@ -97,7 +108,7 @@ describe("Audio Streaming Integration Tests", () => {
         .field("sessionId", sessionId)
         .attach("audioFile", audioBuffer, "noise.wav");
 
-      expect(response.status).toBe(200);
+      expect(response.status).toBe(202);
 
       const uploadedFiles = app.getUploadedFiles(sessionId);
       expect(uploadedFiles.length).toBe(1);
@@ -117,7 +128,7 @@ describe("Audio Streaming Integration Tests", () => {
         .field("sessionId", sessionId)
         .attach("audioFile", audioBuffer, "speech.wav");
 
-      expect(response.status).toBe(200);
+      expect(response.status).toBe(202);
 
       const uploadedFiles = app.getUploadedFiles(sessionId);
       expect(uploadedFiles.length).toBe(1);
@@ -133,7 +144,7 @@ describe("Audio Streaming Integration Tests", () => {
         .field("sessionId", sessionId)
         .attach("audioFile", audio1, "part1.wav");
 
-      expect(response1.status).toBe(200);
+      expect(response1.status).toBe(202);
 
       // Upload second audio
       const audio2 = audioGenerator.generateTone(1, 880);
@@ -142,7 +153,7 @@ describe("Audio Streaming Integration Tests", () => {
         .field("sessionId", sessionId)
         .attach("audioFile", audio2, "part2.wav");
 
-      expect(response2.status).toBe(200);
+      expect(response2.status).toBe(202);
 
       // Verify both files exist
       const uploadedFiles = app.getUploadedFiles(sessionId);
@@ -161,7 +172,7 @@ describe("Audio Streaming Integration Tests", () => {
         .field("sessionId", sessionId)
         .attach("audioFile", audioBuffer, "test.wav");
 
-      expect(response.status).toBe(200);
+      expect(response.status).toBe(202);
 
       const uploadedFiles = app.getUploadedFiles(sessionId);
       const filepath = path.join(uploadDir, uploadedFiles[0]);
@@ -176,6 +187,227 @@ describe("Audio Streaming Integration Tests", () => {
       // Verify minimal size (WAV header is 44 bytes + audio data)
       expect(savedBuffer.length).toBeGreaterThan(44);
     });
+
+    it("should wrap raw PCM uploads in a WAV header", async () => {
+      const sessionId = "raw-pcm-test";
+      const pcm = audioGenerator.generateTone(0.5, 440).subarray(44);
+
+      const response = await request(app.getExpressApp())
+        .post("/upload-audio")
+        .field("sessionId", sessionId)
+        .field("sampleRate", "8000")
+        .attach("audioFile", pcm, "audio.pcm");
+
+      expect(response.status).toBe(202);
+      expect(response.body.format).toBe("pcm");
+      expect(response.body.filename).toMatch(/\.wav$/);
+
+      // 0.5s of 8kHz audio is read as 1s and resampled to 16kHz
+      expect(response.body.duration).toBeCloseTo(1, 2);
+    });
+
+    it("should reject a WAV header with a zero bit depth as invalid audio", async () => {
+      const wav = audioGenerator.generateTone(0.2);
+      wav.writeUInt16LE(0, 34);
+
+      const response = await request(app.getExpressApp())
+        .post("/upload-audio")
+        .field("sessionId", "zero-bit-depth")
+        .attach("audioFile", wav, "audio.wav");
+
+      expect(response.status).toBe(400);
+      expect(response.body.code).toBe("INVALID_AUDIO");
+    });
+
+    it("should keep compressed uploads with their real extension", async () => {
+      const sessionId = "mp3-test";
+      const mp3 = Buffer.concat([Buffer.from("ID3"), Buffer.alloc(128)]);
+
+      const response = await request(app.getExpressApp())
+        .post("/upload-audio")
+        .field("sessionId", sessionId)
+        .attach("audioFile", mp3, "voice.wav");
+
+      expect(response.status).toBe(202);
+      expect(response.body.format).toBe("mp3");
+      expect(response.body.filename).toMatch(/\.mp3$/);
+    });
+
+    it("should reject malformed WAV files", async () => {
+      const broken = audioGenerator.generateTone(0.1).subarray(0, 30);
+
+      const response = await request(app.getExpressApp())
+        .post("/upload-audio")
+        .field("sessionId", "broken-wav-test")
+        .attach("audioFile", broken, "broken.wav");
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toContain("Invalid audio");
+    });
+
+    it("should reject files over the size limit", async () => {
+      const echo = new EchoService({ tokenDelay: 0 });
+      const limited = new AudioStreamApp({ uploadDir, providers: { stt: echo, chat: echo, tts: echo }, maxFileSize: 1000 });
+
+      const response = await request(limited.getExpressApp())
+        .post("/upload-audio")
+        .field("sessionId", "oversized-test")
+        .attach("audioFile", audioGenerator.generateTone(0.5), "tone.wav");
+
+      expect(response.status).toBe(413);
+      expect(response.body.code).toBe("AUDIO_LIMIT_EXCEEDED");
+      limited.cleanup();
+    });
+  });
+
+  describe("Upload jobs", () => {
+    it("should return the transcript, reply and reply audio with wait=true", async () => {
+      const response = await request(app.getExpressApp())
+        .post("/upload-audio?wait=true")
+        .field("sessionId", "job-wait-test")
+        .attach("audioFile", audioGenerator.generateSpeechLike(0.5), "speech.wav");
+
+      expect(response.status).toBe(200);
+      expect(response.body.job.status).toBe("completed");
+      expect(response.body.job.result).toMatchObject({
+        transcript: "What is the capital of France?",
+        responseText: "You said: What is the capital of France?",
+        turnIndex: 0,
+      });
+
+      const audio = await request(app.getExpressApp())
+        .get(response.body.job.result.audioUrl)
+        .responseType("blob");
+      expect(audio.status).toBe(200);
+      expect(audio.headers["content-type"]).toContain("audio/wav");
+      expect(audio.body.toString("ascii", 0, 4)).toBe("RIFF");
+    });
+
+    it("should queue a job that can be polled", async () => {
+      const response = await request(app.getExpressApp())
+        .post("/upload-audio")
+        .field("sessionId", "job-poll-test")
+        .attach("audioFile", audioGenerator.generateSpeechLike(0.5), "speech.wav");
+
+      expect(response.status).toBe(202);
+      expect(response.body.job.status).toBe("queued");
+      expect(response.body.statusUrl).toBe(`/jobs/${response.body.job.id}`);
+
+      await app.drain();
+
+      const status = await request(app.getExpressApp()).get(response.body.statusUrl);
+      expect(status.status).toBe(200);
+      expect(status.body.status).toBe("completed");
+      expect(status.body.result.transcript).toBe("What is the capital of France?");
+    });
+
+    it("should return 404 for unknown jobs", async () => {
+      const response = await request(app.getExpressApp()).get("/jobs/missing");
+
+      expect(response.status).toBe(404);
+      expect(response.body.error).toBe("Job not found");
+    });
+  });
+
+  describe("REST API", () => {
+    async function upload(sessionId: string): Promise<void> {
+      await request(app.getExpressApp())
+        .post("/upload-audio?wait=true")
+        .field("sessionId", sessionId)
+        .attach("audioFile", audioGenerator.generateTone(0.2), "tone.wav");
+    }
+
+    it("should list sessions with pagination", async () => {
+      await upload("rest-session-1");
+      await upload("rest-session-2");
+
+      const response = await request(app.getExpressApp()).get("/sessions?limit=1");
+      expect(response.status).toBe(200);
+      expect(response.body.total).toBe(2);
+      expect(response.body).toMatchObject({ limit: 1, offset: 0 });
+      expect(response.body.sessions).toHaveLength(1);
+      expect(response.body.sessions[0]).toMatchObject({ state: "complete", turnCount: 1 });
+
+      const invalid = await request(app.getExpressApp()).get("/sessions?limit=0");
+      expect(invalid.status).toBe(400);
+      expect(invalid.body.code).toBe("BAD_REQUEST");
+    });
+
+    it("should return and delete a session", async () => {
+      await upload("rest-session-3");
+
+      const response = await request(app.getExpressApp()).get("/sessions/rest-session-3");
+      expect(response.status).toBe(200);
+      expect(response.body.transcript).toBe("What is the capital of France?");
+      expect(response.body.response).toBe("You said: What is the capital of France?");
+      expect(response.body.turns).toHaveLength(1);
+
+      const deleted = await request(app.getExpressApp()).delete("/sessions/rest-session-3");
+      expect(deleted.status).toBe(204);
+
+      const missing = await request(app.getExpressApp()).get("/sessions/rest-session-3");
+      expect(missing.status).toBe(404);
+      expect(missing.body).toEqual({ error: "Session rest-session-3 not found", code: "NOT_FOUND" });
+    });
+
+    it("should list a session's uploads and serve byte ranges", async () => {
+      await upload("rest-upload-1");
+      await upload("rest-upload-10");
+
+      const response = await request(app.getExpressApp()).get("/uploads?sessionId=rest-upload-1");
+      expect(response.status).toBe(200);
+      expect(response.body.total).toBe(1);
+      const [file] = response.body.uploads;
+      expect(file.sessionId).toBe("rest-upload-1");
+
+      const partial = await request(app.getExpressApp())
+        .get(file.url)
+        .set("Range", "bytes=0-3")
+        .responseType("blob");
+      expect(partial.status).toBe(206);
+      expect(partial.headers["content-range"]).toBe(`bytes 0-3/${file.size}`);
+      expect(partial.body.toString("ascii")).toBe("RIFF");
+    });
+
+    it("should hide uploads of deleted sessions", async () => {
+      await upload("rest-upload-deleted");
+      const [file] = (await request(app.getExpressApp()).get("/uploads?sessionId=rest-upload-deleted")).body.uploads;
+      await request(app.getExpressApp()).delete("/sessions/rest-upload-deleted").expect(204);
+
+      const listed = await request(app.getExpressApp()).get("/uploads?sessionId=rest-upload-deleted");
+      expect(listed.body.total).toBe(0);
+      const served = await request(app.getExpressApp()).get(file.url);
+      expect(served.status).toBe(404);
+    });
+
+    it("should not serve files outside the upload directory", async () => {
+      // Named like an upload, one level above the upload directory
+      const outside = path.join(uploadDir, "..", "audio_secret_1.wav");
+      fs.writeFileSync(outside, audioGenerator.generateSilence(0.1));
+      try {
+        const response = await request(app.getExpressApp()).get("/uploads/audio_%2F..%2F..%2Faudio_secret_1.wav");
+        expect(response.status).toBe(404);
+        expect(response.body.code).toBe("NOT_FOUND");
+      } finally {
+        fs.unlinkSync(outside);
+      }
+
+      const traversal = await request(app.getExpressApp())
+        .post("/upload-audio")
+        .field("sessionId", "../escape")
+        .attach("audioFile", audioGenerator.generateSilence(0.1), "test.wav");
+      expect(traversal.status).toBe(400);
+    });
+
+    it("should answer unknown uploads and routes with JSON errors", async () => {
+      const upload = await request(app.getExpressApp()).get("/uploads/audio_x_1.wav");
+      expect(upload.status).toBe(404);
+      expect(upload.body.code).toBe("NOT_FOUND");
+
+      const route = await request(app.getExpressApp()).get("/nope");
+      expect(route.status).toBe(404);
+      expect(route.body.code).toBe("NOT_FOUND");
+    });
   });
 
   describe("Server Functionality", () => {
@@ -189,7 +421,7 @@ describe("Audio Streaming Integration Tests", () => {
           .field("sessionId", sessionId)
           .attach("audioFile", audioBuffer, "audio.wav");
 
-        expect(response.status).toBe(200);
+        expect(response.status).toBe(202);
       }
 
       // Verify all sessions have their files
@@ -218,7 +450,7 @@ describe("Audio Streaming Integration Tests", () => {
 
       // All should succeed
       responses.forEach((response: any) => {
-        expect(response.status).toBe(200);
+        expect(response.status).toBe(202);
       });
 
       // Verify all files were saved
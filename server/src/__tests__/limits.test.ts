@@ -0,0 +1,197 @@
+import * as fs from "fs";
+import request from "supertest";
+import { ANONYMOUS_PRINCIPAL } from "../auth";
+import { AudioStreamApp } from "../app";
+import { LimitError, UsageLimitOptions, UsageLimiter, clientKey } from "../limits";
+import { EchoService } from "../services/EchoService";
+import { WebSocketServer } from "../websocket/WebSocketServer";
+import { audioGenerator } from "./testAudioGenerator";
+import { close, connect, nextMessage, send } from "./testWebSocket";
+
+const WS_PORT = 18084;
+
+function createOptions(overrides: Partial<UsageLimitOptions> = {}): UsageLimitOptions {
+  const open = { capacity: 0, refillPerSecond: 0 };
+  return {
+    rates: { messages: open, runs: open, uploads: open, streams: open, partials: open },
+    dailyAudioSeconds: 0,
+    dailyTtsCharacters: 0,
+    ...overrides,
+  };
+}
+
+/**
+ * The LimitError `fn` throws
+ */
+function limitErrorOf(fn: () => void): LimitError {
+  try {
+    fn();
+  } catch (error) {
+    if (error instanceof LimitError) {
+      return error;
+    }
+    throw error;
+  }
+  throw new Error("Expected a LimitError");
+}
+
+describe("UsageLimiter", () => {
+  it("should allow a burst and refill over time", () => {
+    let now = Date.UTC(2026, 0, 1, 12);
+    const limiter = new UsageLimiter(createOptions({
+      rates: { ...createOptions().rates, runs: { capacity: 2, refillPerSecond: 0.5 } },
+    }), () => now);
+
+    limiter.consume("runs", "client");
+    limiter.consume("runs", "client");
+    const error = limitErrorOf(() => limiter.consume("runs", "client"));
+    expect(error.code).toBe("RATE_LIMITED");
+    expect(error.retryAfterMs).toBe(2000);
+    // Other clients have their own buckets
+    limiter.consume("runs", "other");
+
+    now += 2000;
+    limiter.consume("runs", "client");
+  });
+
+  it("should refuse work once a daily quota is used up, until the next day", () => {
+    let now = Date.UTC(2026, 0, 1, 18);
+    const limiter = new UsageLimiter(createOptions({ dailyAudioSeconds: 10, dailyTtsCharacters: 100 }), () => now);
+
+    limiter.recordUsage("client", { audioSeconds: 6, ttsCharacters: 40 });
+    limiter.checkQuota("client");
+    limiter.recordUsage("client", { audioSeconds: 4 });
+
+    const error = limitErrorOf(() => limiter.checkQuota("client"));
+    expect(error).toMatchObject({ code: "QUOTA_EXCEEDED", message: "Daily quota of 10 seconds of audio used up" });
+    expect(error.retryAfterSeconds).toBe(6 * 3600);
+
+    now += 6 * 3600 * 1000;
+    limiter.checkQuota("client");
+    expect(limiter.getUsage("client")).toEqual({ audioSeconds: 0, ttsCharacters: 0 });
+  });
+
+  it("should key anonymous clients by address and others by principal", () => {
+    expect(clientKey(ANONYMOUS_PRINCIPAL, "10.0.0.1")).toBe("ip:10.0.0.1");
+    expect(clientKey({ id: "alice", method: "api-key" }, "10.0.0.1")).toBe("principal:alice");
+  });
+});
+
+describe("HTTP upload limits", () => {
+  const uploadDir = audioGenerator.getTestFilePath("limits-uploads");
+  let app: AudioStreamApp;
+
+  afterEach(async () => {
+    await app.drain();
+    app.cleanup();
+    fs.rmSync(uploadDir, { recursive: true, force: true });
+  });
+
+  function upload(sessionId: string) {
+    return request(app.getExpressApp())
+      .post("/upload-audio?wait=true")
+      .field("sessionId", sessionId)
+      .attach("audioFile", audioGenerator.generateTone(0.5), "tone.wav");
+  }
+
+  it("should answer 429 with Retry-After once the upload bucket is empty", async () => {
+    const echo = new EchoService({ tokenDelay: 0 });
+    const limiter = new UsageLimiter(createOptions({
+      rates: { ...createOptions().rates, uploads: { capacity: 1, refillPerSecond: 0.1 } },
+    }));
+    app = new AudioStreamApp({ uploadDir, providers: { stt: echo, chat: echo, tts: echo }, limiter });
+
+    await upload("limited-upload").expect(200);
+    const response = await upload("limited-upload");
+
+    expect(response.status).toBe(429);
+    expect(response.body.code).toBe("RATE_LIMITED");
+    expect(response.headers["retry-after"]).toBe("10");
+  });
+
+  it("should count uploads against the daily audio quota", async () => {
+    const echo = new EchoService({ tokenDelay: 0 });
+    const limiter = new UsageLimiter(createOptions({ dailyAudioSeconds: 1 }));
+    app = new AudioStreamApp({ uploadDir, providers: { stt: echo, chat: echo, tts: echo }, limiter });
+
+    // Two half-second uploads use up the second
+    await upload("quota-upload").expect(200);
+    await upload("quota-upload").expect(200);
+
+    const response = await upload("quota-upload");
+    expect(response.status).toBe(429);
+    expect(response.body.code).toBe("QUOTA_EXCEEDED");
+  });
+});
+
+describe("WebSocket rate limits", () => {
+  let server: WebSocketServer;
+
+  beforeAll(async () => {
+    const echo = new EchoService({ tokenDelay: 0 });
+    const limiter = new UsageLimiter(createOptions({
+      rates: { ...createOptions().rates, runs: { capacity: 1, refillPerSecond: 0.01 } },
+    }));
+    server = new WebSocketServer(WS_PORT, { stt: echo, chat: echo, tts: echo }, undefined, undefined, limiter);
+    await server.start();
+  });
+
+  afterAll(() => {
+    server.stop();
+  });
+
+  it("should refuse pipeline runs beyond the limit with RATE_LIMITED", async () => {
+    const ws = await connect(WS_PORT);
+
+    const sessionId = "ws-limited";
+    const sendMessage = (type: string, data: any = {}) => send(ws, type, sessionId, data);
+    const sendUtterance = () => {
+      sendMessage("audio.chunk", { chunk: audioGenerator.generateSpeechLike(0.3).toString("base64"), sequenceNumber: 1 });
+      sendMessage("audio.end");
+    };
+
+    sendMessage("session.start");
+    await nextMessage(ws, "session.ready");
+
+    sendUtterance();
+    await nextMessage(ws, "audio.complete");
+
+    sendUtterance();
+    const error = await nextMessage(ws, "error");
+    expect(error.data.code).toBe("RATE_LIMITED");
+    expect(error.data.retryAfterMs).toBeGreaterThan(0);
+    // The refused utterance is kept for a retry
+    expect(server.getSessionManager().getSession(sessionId)!.getBufferedSize()).toBeGreaterThan(0);
+
+    await close(ws);
+  });
+
+  it("should keep a hands-free utterance whose run was refused", async () => {
+    const ws = await connect(WS_PORT);
+
+    const sessionId = "ws-limited-hands-free";
+    const sendMessage = (type: string, data: any = {}) => send(ws, type, sessionId, data);
+
+    sendMessage("session.start", { handsFree: true });
+    await nextMessage(ws, "session.ready");
+
+    // Speech followed by enough silence to end the utterance, streamed in 100ms chunks
+    const speech = audioGenerator.generateSpeechLike(0.5);
+    const audio = Buffer.concat([speech, audioGenerator.generateSilence(1).subarray(44)]);
+    const error = nextMessage(ws, "error");
+    for (let i = 0, sequenceNumber = 1; i < audio.length; i += 3200, sequenceNumber++) {
+      sendMessage("audio.chunk", { chunk: audio.subarray(i, i + 3200).toString("base64"), sequenceNumber });
+    }
+    expect((await error).data.code).toBe("RATE_LIMITED");
+    const session = server.getSessionManager().getSession(sessionId)!;
+    expect(session.getBufferedSize()).toBeGreaterThanOrEqual(speech.length);
+
+    // Ending the recording retries the held utterance instead of dropping it
+    const retry = nextMessage(ws, "error");
+    sendMessage("audio.end");
+    expect((await retry).data.code).toBe("RATE_LIMITED");
+    expect(session.getBufferedSize()).toBeGreaterThanOrEqual(speech.length);
+
+    await close(ws);
+  });
+});
@@ -0,0 +1,71 @@
+import { LogLevel, Logger, LoggerOptions } from "../logging";
+
+describe("Logger", () => {
+  let lines: { line: string; level: LogLevel }[];
+
+  beforeEach(() => {
+    lines = [];
+  });
+
+  function createOptions(overrides: Partial<LoggerOptions> = {}): LoggerOptions {
+    return {
+      level: "info",
+      format: "json",
+      redact: { transcripts: true, responses: true, audioSizes: false },
+      sink: (line, level) => lines.push({ line, level }),
+      ...overrides,
+    };
+  }
+
+  function entries(): any[] {
+    return lines.map(({ line }) => JSON.parse(line));
+  }
+
+  it("should write JSON lines with the scope and correlation ids", () => {
+    const logger = new Logger("MessageHandler", { connectionId: "c1" }, createOptions());
+    logger.child({ sessionId: "s1" }).withScope("ConversationPipeline").info("Response complete", { turns: 2 });
+
+    expect(entries()).toEqual([
+      expect.objectContaining({
+        level: "info",
+        scope: "ConversationPipeline",
+        message: "Response complete",
+        connectionId: "c1",
+        sessionId: "s1",
+        turns: 2,
+      }),
+    ]);
+  });
+
+  it("should drop entries below the configured level", () => {
+    const logger = new Logger("Test", {}, createOptions({ level: "warn" }));
+    logger.debug("chunk");
+    logger.info("started");
+    logger.error("failed", { error: new Error("boom") });
+
+    expect(lines.map(({ level }) => level)).toEqual(["error"]);
+    expect(entries()[0].error).toMatchObject({ name: "Error", message: "boom" });
+
+    new Logger("Test", {}, createOptions({ level: "silent" })).error("failed");
+    expect(lines).toHaveLength(1);
+  });
+
+  it("should redact user data according to the policy", () => {
+    const logger = new Logger("Test", {}, createOptions());
+    logger.info("Turn", { transcript: "my card number is 1234", response: "Thanks!", audioBytes: 32000 });
+
+    expect(entries()[0]).toMatchObject({ transcript: "[redacted]", response: "[redacted]", audioBytes: 32000 });
+    expect(lines[0].line).not.toContain("1234");
+
+    const open = new Logger("Test", {}, createOptions({ redact: { transcripts: false, responses: true, audioSizes: true } }));
+    open.info("Turn", { transcript: "hello", audioBytes: 32000 });
+    expect(entries()[1]).toMatchObject({ transcript: "hello", audioBytes: "[redacted]" });
+  });
+
+  it("should write readable lines in text format", () => {
+    const logger = new Logger("SessionManager", {}, createOptions({ format: "text" }));
+    logger.info("Created session", { sessionId: "s1" });
+
+    expect(lines[0].line).toMatch(/^\S+ INFO \[SessionManager\] Created session sessionId=s1$/);
+  });
+});
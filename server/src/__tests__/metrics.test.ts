@@ -0,0 +1,127 @@
+import * as fs from "fs";
+import request from "supertest";
+import { AudioStreamApp } from "../app";
+import { MetricsRegistry, metrics, registry } from "../metrics";
+import { EchoService } from "../services/EchoService";
+import { WebSocketServer } from "../websocket/WebSocketServer";
+import { audioGenerator } from "./testAudioGenerator";
+import { close, connect, nextMessage, send } from "./testWebSocket";
+
+const WS_PORT = 18088;
+
+describe("MetricsRegistry", () => {
+  it("should render counters, gauges and histograms in the text format", () => {
+    const metricsRegistry = new MetricsRegistry();
+    const errors = metricsRegistry.counter("test_errors_total", "Errors by code");
+    const connections = metricsRegistry.gauge("test_connections", "Open connections");
+    const latency = metricsRegistry.histogram("test_latency_seconds", "Latency", [0.1, 1]);
+
+    errors.inc({ code: "RATE_LIMITED" });
+    errors.inc({ code: "RATE_LIMITED" }, 2);
+    errors.inc({ code: 'say "hi"' });
+    connections.inc({ transport: "websocket" });
+    connections.inc({ transport: "websocket" });
+    connections.dec({ transport: "websocket" });
+    latency.observe({}, 0.05);
+    latency.observe({}, 0.5);
+    latency.observe({}, 3);
+
+    expect(metricsRegistry.render()).toBe([
+      "# HELP test_errors_total Errors by code",
+      "# TYPE test_errors_total counter",
+      'test_errors_total{code="RATE_LIMITED"} 3',
+      'test_errors_total{code="say \\"hi\\""} 1',
+      "# HELP test_connections Open connections",
+      "# TYPE test_connections gauge",
+      'test_connections{transport="websocket"} 1',
+      "# HELP test_latency_seconds Latency",
+      "# TYPE test_latency_seconds histogram",
+      'test_latency_seconds_bucket{le="0.1"} 1',
+      'test_latency_seconds_bucket{le="1"} 2',
+      'test_latency_seconds_bucket{le="+Inf"} 3',
+      "test_latency_seconds_sum 3.55",
+      "test_latency_seconds_count 3",
+      "",
+    ].join("\n"));
+  });
+
+  it("should refuse to register a name twice", () => {
+    const metricsRegistry = new MetricsRegistry();
+    metricsRegistry.counter("test_total", "Total");
+    expect(() => metricsRegistry.gauge("test_total", "Total")).toThrow("already registered");
+  });
+});
+
+describe("GET /metrics", () => {
+  const uploadDir = audioGenerator.getTestFilePath("metrics-uploads");
+  let app: AudioStreamApp;
+
+  beforeEach(() => {
+    registry.reset();
+    const echo = new EchoService({ tokenDelay: 0 });
+    app = new AudioStreamApp({ uploadDir, providers: { stt: echo, chat: echo, tts: echo } });
+  });
+
+  afterEach(async () => {
+    await app.drain();
+    app.cleanup();
+    fs.rmSync(uploadDir, { recursive: true, force: true });
+  });
+
+  it("should expose sessions, audio received and errors", async () => {
+    const tone = audioGenerator.generateTone(0.5);
+    await request(app.getExpressApp())
+      .post("/upload-audio?wait=true")
+      .field("sessionId", "metrics-upload")
+      .attach("audioFile", tone, "tone.wav")
+      .expect(200);
+    await request(app.getExpressApp()).get("/sessions/missing").expect(404);
+
+    const response = await request(app.getExpressApp()).get("/metrics");
+
+    expect(response.status).toBe(200);
+    expect(response.headers["content-type"]).toMatch(/^text\/plain;.*version=0.0.4/);
+    // Upload sessions are not held by a connection
+    expect(response.text).toContain("audio_stream_active_sessions 0");
+    expect(response.text).toContain(`audio_stream_audio_received_bytes_total{transport="http"} ${tone.length}`);
+    expect(response.text).toContain('audio_stream_errors_total{code="NOT_FOUND",transport="http"} 1');
+    expect(response.text).toContain("# TYPE audio_stream_time_to_first_audio_seconds histogram");
+  });
+});
+
+describe("WebSocket metrics", () => {
+  let server: WebSocketServer;
+
+  beforeAll(async () => {
+    const echo = new EchoService({ tokenDelay: 0 });
+    server = new WebSocketServer(WS_PORT, { stt: echo, chat: echo, tts: echo });
+    await server.start();
+  });
+
+  afterAll(() => {
+    server.stop();
+  });
+
+  it("should count connections, audio received and time to the first reply audio", async () => {
+    registry.reset();
+    const ws = await connect(WS_PORT);
+    expect(metrics.activeConnections.get({ transport: "websocket" })).toBe(1);
+
+    const sessionId = "ws-metrics";
+    const sendMessage = (type: string, data: any = {}) => send(ws, type, sessionId, data);
+    const speech = audioGenerator.generateSpeechLike(0.3);
+
+    sendMessage("session.start");
+    await nextMessage(ws, "session.ready");
+    sendMessage("audio.chunk", { chunk: speech.toString("base64"), sequenceNumber: 1 });
+    sendMessage("audio.end");
+    await nextMessage(ws, "audio.complete");
+
+    expect(metrics.audioBytesReceived.get({ transport: "websocket" })).toBe(speech.length);
+    expect(metrics.timeToFirstAudio.getCount({ transport: "websocket" })).toBe(1);
+
+    await close(ws);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(metrics.activeConnections.get({ transport: "websocket" })).toBe(0);
+  });
+});
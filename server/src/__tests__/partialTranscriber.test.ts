@@ -0,0 +1,105 @@
+import { UsageLimiter } from "../limits";
+import { PartialTranscriber, PartialTranscript } from "../pipeline/PartialTranscriber";
+import { SpeechToTextProvider, TranscriptionOptions } from "../services/providers";
+import { Session } from "../session/Session";
+import { audioGenerator } from "./testAudioGenerator";
+
+/**
+ * Speech-to-text stand-in that returns scripted hypotheses and records each request
+ */
+class ScriptedStt implements SpeechToTextProvider {
+  readonly name = "scripted";
+  calls: { bytes: number; options: TranscriptionOptions }[] = [];
+
+  constructor(private hypotheses: string[]) {}
+
+  async transcribe(audioBuffer: Buffer, options: TranscriptionOptions = {}): Promise<string> {
+    this.calls.push({ bytes: audioBuffer.length, options });
+    return this.hypotheses[Math.min(this.calls.length - 1, this.hypotheses.length - 1)];
+  }
+}
+
+function pcm(duration: number): Buffer {
+  return audioGenerator.generateSpeechLike(duration).subarray(44);
+}
+
+describe("PartialTranscriber", () => {
+  it("should mark words that consecutive hypotheses agree on as stable", async () => {
+    const session = new Session("partial-1");
+    const stt = new ScriptedStt(["what is", "what is the cap", "what is the capital of"]);
+    const partials: PartialTranscript[] = [];
+    const transcriber = new PartialTranscriber(session, stt, (partial) => partials.push(partial), {
+      minAudioDuration: 100,
+    });
+
+    session.addAudioChunk(audioGenerator.generateSpeechLike(0.5));
+    await transcriber.transcribeNow();
+    session.addAudioChunk(pcm(0.5));
+    await transcriber.transcribeNow();
+    session.addAudioChunk(pcm(0.5));
+    await transcriber.transcribeNow();
+
+    expect(partials).toEqual([
+      { text: "what is", stable: "", unstable: "what is" },
+      { text: "what is the cap", stable: "what is", unstable: "the cap" },
+      { text: "what is the capital of", stable: "what is the", unstable: "capital of" },
+    ]);
+    expect(stt.calls.every((call) => call.options.partial)).toBe(true);
+  });
+
+  it("should skip requests until new audio arrives", async () => {
+    const session = new Session("partial-2");
+    const stt = new ScriptedStt(["hello"]);
+    const transcriber = new PartialTranscriber(session, stt, () => undefined, { minAudioDuration: 100 });
+
+    session.addAudioChunk(audioGenerator.generateSpeechLike(0.5));
+    await transcriber.transcribeNow();
+    await transcriber.transcribeNow();
+
+    expect(stt.calls).toHaveLength(1);
+  });
+
+  it("should commit full windows and prompt with the committed text", async () => {
+    const session = new Session("partial-3");
+    const stt = new ScriptedStt(["first window", "second"]);
+    const partials: PartialTranscript[] = [];
+    const transcriber = new PartialTranscriber(session, stt, (partial) => partials.push(partial), {
+      windowDuration: 1000,
+      minAudioDuration: 100,
+    });
+
+    session.addAudioChunk(audioGenerator.generateSpeechLike(0.8));
+    await transcriber.transcribeNow();
+    session.addAudioChunk(pcm(0.6));
+    await transcriber.transcribeNow();
+
+    // The second request only covers audio after the first window, with its own WAV header
+    expect(stt.calls[1].bytes).toBe(44 + 0.6 * 16000 * 2);
+    expect(stt.calls[1].options.prompt).toBe("first window");
+    expect(partials[1]).toEqual({ text: "first window second", stable: "first window", unstable: "second" });
+  });
+
+  it("should charge requests to the client's limits and pause once over them", async () => {
+    const open = { capacity: 0, refillPerSecond: 0 };
+    const limiter = new UsageLimiter({
+      rates: { messages: open, runs: open, uploads: open, streams: open, partials: { capacity: 1, refillPerSecond: 0 } },
+      dailyAudioSeconds: 0,
+      dailyTtsCharacters: 0,
+    });
+    const session = new Session("partial-4");
+    const stt = new ScriptedStt(["hello"]);
+    const transcriber = new PartialTranscriber(session, stt, () => undefined, {
+      minAudioDuration: 100,
+      limiter,
+      clientKey: "client",
+    });
+
+    session.addAudioChunk(audioGenerator.generateSpeechLike(0.5));
+    await transcriber.transcribeNow();
+    session.addAudioChunk(pcm(0.5));
+    await transcriber.transcribeNow();
+
+    expect(stt.calls).toHaveLength(1);
+    expect(limiter.getUsage("client").audioSeconds).toBeCloseTo(0.5, 3);
+  });
+});
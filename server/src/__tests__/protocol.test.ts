@@ -0,0 +1,100 @@
+import { negotiateProtocolVersion, PROTOCOL_VERSION, validateClientMessage } from "../protocol";
+
+describe("Client message validation", () => {
+  it("should accept a well-formed audio chunk", () => {
+    const result = validateClientMessage({
+      type: "audio.chunk",
+      sessionId: "s1",
+      timestamp: 1,
+      data: { chunk: Buffer.from("abc").toString("base64"), sequenceNumber: 1 },
+    });
+
+    expect(result.valid).toBe(true);
+  });
+
+  it("should accept raw bytes from binary frames", () => {
+    const result = validateClientMessage({
+      type: "audio.chunk",
+      sessionId: "s1",
+      timestamp: 1,
+      data: { chunk: Buffer.from("abc") },
+    });
+
+    expect(result.valid).toBe(true);
+  });
+
+  it("should refuse session ids too long for a binary frame", () => {
+    const fits = validateClientMessage({ type: "session.start", sessionId: "é".repeat(127), data: {} });
+    const tooLong = validateClientMessage({ type: "session.start", sessionId: "é".repeat(128), data: {} });
+
+    expect(fits.valid).toBe(true);
+    expect(tooLong).toEqual({
+      valid: false,
+      unknownType: false,
+      errors: [{ field: "sessionId", message: "must be at most 255 bytes" }],
+    });
+  });
+
+  it("should report every invalid field", () => {
+    const result = validateClientMessage({
+      type: "audio.chunk",
+      sessionId: "",
+      timestamp: "now",
+      data: { sequenceNumber: -1 },
+    });
+
+    expect(result).toEqual({
+      valid: false,
+      unknownType: false,
+      errors: [
+        { field: "sessionId", message: "must be a non-empty string" },
+        { field: "timestamp", message: "must be a number" },
+        { field: "data.chunk", message: "is required" },
+        { field: "data.sequenceNumber", message: "must be at least 0" },
+      ],
+    });
+  });
+
+  it("should reject unknown transports and non-object data", () => {
+    const start = validateClientMessage({ type: "session.start", sessionId: "s1", data: { audioTransport: "udp" } });
+    expect(start.valid).toBe(false);
+    expect(!start.valid && start.errors).toEqual([{ field: "data.audioTransport", message: 'must be "json" or "binary"' }]);
+
+    const end = validateClientMessage({ type: "audio.end", sessionId: "s1", data: "done" });
+    expect(!end.valid && end.errors).toEqual([{ field: "data", message: "must be an object" }]);
+  });
+
+  it("should flag unknown message types separately", () => {
+    const result = validateClientMessage({ type: "session.pause", sessionId: "s1", data: {} });
+
+    expect(result.valid).toBe(false);
+    expect(!result.valid && result.unknownType).toBe(true);
+  });
+
+  it("should let session.start leave out the session id", () => {
+    expect(validateClientMessage({ type: "session.start", data: {} }).valid).toBe(true);
+    expect(validateClientMessage({ type: "audio.end", data: {} }).valid).toBe(false);
+  });
+
+  it("should fill in missing data and timestamp", () => {
+    const result = validateClientMessage({ type: "session.cancel", sessionId: "s1" });
+
+    expect(result.valid).toBe(true);
+    expect(result.valid && result.message.data).toEqual({});
+    expect(result.valid && typeof result.message.timestamp).toBe("number");
+  });
+});
+
+describe("Protocol version negotiation", () => {
+  it("should default clients without a version to version 1", () => {
+    expect(negotiateProtocolVersion(undefined)).toBe(1);
+  });
+
+  it("should answer newer clients with the server's version", () => {
+    expect(negotiateProtocolVersion(PROTOCOL_VERSION + 1)).toBe(PROTOCOL_VERSION);
+  });
+
+  it("should reject versions the server does not support", () => {
+    expect(negotiateProtocolVersion(0)).toBeNull();
+  });
+});
@@ -0,0 +1,108 @@
+import { EventLog } from "../session/EventLog";
+import { EchoService } from "../services/EchoService";
+import { WebSocketServer } from "../websocket/WebSocketServer";
+import { audioGenerator } from "./testAudioGenerator";
+import { close, connect, nextMessage, send } from "./testWebSocket";
+
+const WS_PORT = 18086;
+
+describe("EventLog", () => {
+  it("should number events and return the ones after a sequence number", () => {
+    const log = new EventLog<{ name: string; seq?: number }>(1000);
+    log.append({ name: "a" }, 10);
+    log.append({ name: "b" }, 10);
+    log.append({ name: "c" }, 10);
+
+    expect(log.getLastSeq()).toBe(3);
+    expect(log.since(1)!.map((event) => event.name)).toEqual(["b", "c"]);
+    expect(log.since(3)).toEqual([]);
+    expect(log.since(4)).toBeNull();
+  });
+
+  it("should report a gap once missed events were dropped to stay in budget", () => {
+    const log = new EventLog<{ seq?: number }>(25);
+    log.append({}, 10);
+    log.append({}, 10);
+    log.append({}, 10);
+
+    expect(log.since(0)).toBeNull();
+    expect(log.since(1)).toHaveLength(2);
+  });
+});
+
+describe("WebSocket session resumption", () => {
+  let server: WebSocketServer;
+
+  beforeAll(async () => {
+    const echo = new EchoService({ tokenDelay: 0 });
+    server = new WebSocketServer(WS_PORT, { stt: echo, chat: echo, tts: echo });
+    await server.start();
+  });
+
+  afterAll(() => {
+    server.stop();
+  });
+
+  it("should replay the events a client missed while reconnecting", async () => {
+    const sessionId = "resume-1";
+    const first = await connect(WS_PORT);
+    send(first, "session.start", sessionId);
+    const ready = await nextMessage(first, "session.ready");
+    expect(ready.seq).toBe(1);
+
+    // The connection drops right after the utterance is sent
+    send(first, "audio.chunk", sessionId, { chunk: audioGenerator.generateSpeechLike(0.3).toString("base64"), sequenceNumber: 1 });
+    send(first, "audio.end", sessionId);
+    const received = await nextMessage(first, "audio.received");
+    first.terminate();
+
+    const second = await connect(WS_PORT);
+    // Let the response finish while no connection holds the session
+    await new Promise((resolve) => setTimeout(resolve, 300));
+
+    const replayed: any[] = [];
+    second.on("message", (data) => replayed.push(JSON.parse(data.toString())));
+    const resumedMessage = nextMessage(second, "session.resumed");
+    const complete = nextMessage(second, "audio.complete");
+    send(second, "session.resume", sessionId, { lastSeq: received.seq });
+    const resumed = await resumedMessage;
+    await complete;
+
+    expect(resumed.data.complete).toBe(true);
+    expect(resumed.data.replayed).toBeGreaterThan(0);
+    const events = replayed.filter((message) => message.seq !== undefined);
+    expect(events[0].seq).toBe(received.seq + 1);
+    expect(events.map((message) => message.type)).toContain("transcript.complete");
+    expect(events[events.length - 1].seq).toBe(resumed.data.lastSeq);
+
+    await close(second);
+  });
+
+  it("should refuse to resume a session another connection still holds", async () => {
+    const sessionId = "resume-held";
+    const owner = await connect(WS_PORT);
+    send(owner, "session.start", sessionId);
+    await nextMessage(owner, "session.ready");
+
+    const intruder = await connect(WS_PORT);
+    send(intruder, "session.resume", sessionId, { lastSeq: 0 });
+    const error = await nextMessage(intruder, "error");
+    expect(error.data.code).toBe("SESSION_FORBIDDEN");
+
+    // The owner keeps the session
+    send(owner, "audio.chunk", sessionId, { chunk: audioGenerator.generateSilence(0.1).toString("base64"), sequenceNumber: 1 });
+    await nextMessage(owner, "audio.received");
+
+    await close(owner);
+    await close(intruder);
+  });
+
+  it("should refuse to resume a session that doesn't exist", async () => {
+    const ws = await connect(WS_PORT);
+    send(ws, "session.resume", "resume-missing", { lastSeq: 0 });
+    const error = await nextMessage(ws, "error");
+    expect(error.data.code).toBe("SESSION_NOT_FOUND");
+
+    await close(ws);
+  });
+});
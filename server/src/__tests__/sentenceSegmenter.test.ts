@@ -0,0 +1,69 @@
+import { SentenceSegmenter } from "../pipeline/SentenceSegmenter";
+
+const options = {
+  minSegmentLength: 12,
+  clauseSplitLength: 40,
+  maxSegmentLength: 100,
+};
+
+function segmentAll(chunks: string[]): string[] {
+  const segmenter = new SentenceSegmenter(options);
+  const segments: string[] = [];
+  for (const chunk of chunks) {
+    segments.push(...segmenter.push(chunk));
+  }
+  return [...segments, ...segmenter.flush()];
+}
+
+describe("SentenceSegmenter", () => {
+  it("should split streamed text at sentence boundaries", () => {
+    const segments = segmentAll([
+      "Paris is the",
+      " capital of France.",
+      " It is known for",
+      " the Eiffel Tower!",
+      " Want more?",
+    ]);
+
+    expect(segments).toEqual([
+      "Paris is the capital of France.",
+      "It is known for the Eiffel Tower!",
+      "Want more?",
+    ]);
+  });
+
+  it("should emit a sentence only once the next chunk confirms the boundary", () => {
+    const segmenter = new SentenceSegmenter(options);
+
+    expect(segmenter.push("The value is 3.")).toEqual([]);
+    expect(segmenter.push("5 percent. Next")).toEqual(["The value is 3.5 percent."]);
+    expect(segmenter.flush()).toEqual(["Next"]);
+  });
+
+  it("should merge sentences shorter than the minimum length", () => {
+    expect(segmentAll(["Hi. Sure, here is the answer."])).toEqual([
+      "Hi. Sure, here is the answer.",
+    ]);
+  });
+
+  it("should split long text at clause boundaries", () => {
+    const segments = segmentAll([
+      "When you travel to Paris in the spring, the weather is usually mild, ",
+      "so pack a light jacket",
+    ]);
+
+    expect(segments).toEqual([
+      "When you travel to Paris in the spring, the weather is usually mild,",
+      "so pack a light jacket",
+    ]);
+  });
+
+  it("should force a split at a word boundary when no punctuation arrives", () => {
+    const words = Array.from({ length: 30 }, (_, i) => `word${i}`).join(" ");
+    const segments = segmentAll([words]);
+
+    expect(segments.length).toBeGreaterThan(1);
+    expect(segments.every((segment) => segment.length <= options.maxSegmentLength)).toBe(true);
+    expect(segments.join(" ")).toBe(words);
+  });
+});
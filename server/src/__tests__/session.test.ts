@@ -0,0 +1,106 @@
+import { config } from "../config/config";
+import { Session, audioLimitsFor } from "../session/Session";
+import { SessionLimitError, SessionManager } from "../session/SessionManager";
+import { InMemorySessionStore } from "../session/InMemorySessionStore";
+
+function chunk(label: string): Buffer {
+  return Buffer.from(label);
+}
+
+describe("Session audio chunks", () => {
+  it("should append chunks received in order", () => {
+    const session = new Session("chunks-1");
+
+    expect(session.addAudioChunk(chunk("a"), 1).status).toBe("accepted");
+    expect(session.addAudioChunk(chunk("b"), 2).status).toBe("accepted");
+
+    expect(session.getAudioBuffer().toString()).toBe("ab");
+  });
+
+  it("should reorder chunks that arrive early", () => {
+    const session = new Session("chunks-2");
+
+    session.addAudioChunk(chunk("a"), 1);
+    const early = session.addAudioChunk(chunk("d"), 4);
+    expect(early).toEqual({ status: "buffered", missing: [2, 3] });
+    expect(session.addAudioChunk(chunk("c"), 3)).toEqual({ status: "buffered", missing: [2] });
+
+    expect(session.addAudioChunk(chunk("b"), 2)).toEqual({ status: "accepted", missing: [] });
+    expect(session.getAudioBuffer().toString()).toBe("abcd");
+  });
+
+  it("should reject duplicate chunks", () => {
+    const session = new Session("chunks-3");
+
+    session.addAudioChunk(chunk("a"), 1);
+    session.addAudioChunk(chunk("c"), 3);
+
+    expect(session.addAudioChunk(chunk("a"), 1).status).toBe("duplicate");
+    expect(session.addAudioChunk(chunk("c"), 3).status).toBe("duplicate");
+    expect(session.getAudioBuffer().toString()).toBe("a");
+  });
+
+  it("should accept base64 chunks without sequence numbers", () => {
+    const session = new Session("chunks-4");
+
+    session.addAudioChunk(chunk("hello").toString("base64"));
+    session.addAudioChunk(chunk(" world").toString("base64"));
+
+    expect(session.getAudioBuffer().toString()).toBe("hello world");
+  });
+
+  it("should start a new sequence for the next utterance", () => {
+    const session = new Session("chunks-5");
+
+    session.addAudioChunk(chunk("a"), 1);
+    session.addAudioChunk(chunk("c"), 3);
+    expect(session.takeAudioBuffer().toString()).toBe("ac");
+
+    expect(session.addAudioChunk(chunk("x"), 1).status).toBe("accepted");
+    expect(session.takeAudioBuffer().toString()).toBe("x");
+  });
+});
+
+describe("Session limits", () => {
+  it("should size the byte limit from the duration limit and format", () => {
+    const seconds = config.session.maxDuration / 1000;
+    expect(audioLimitsFor(16000, 1).maxBytes).toBe(Math.min(seconds * 32000 + 44, config.session.maxAudioBytes));
+    expect(audioLimitsFor(8000, 1).maxBytes).toBeLessThan(audioLimitsFor(16000, 2).maxBytes);
+  });
+
+  it("should refuse chunks past the recording limit", () => {
+    const session = new Session("limits-1");
+    const { maxBytes } = session.getAudioLimits();
+
+    expect(session.addAudioChunk(Buffer.alloc(maxBytes - 10), 1).status).toBe("accepted");
+    expect(session.addAudioChunk(Buffer.alloc(20), 2).status).toBe("limit_exceeded");
+    expect(session.addAudioChunk(Buffer.alloc(10), 2).status).toBe("accepted");
+
+    // The next recording starts empty
+    session.takeAudioBuffer();
+    expect(session.addAudioChunk(Buffer.alloc(20), 1).status).toBe("accepted");
+  });
+
+  it("should refuse new sessions beyond the concurrent limit", () => {
+    const limit = config.session.maxConcurrentSessions;
+    config.session.maxConcurrentSessions = 2;
+    const manager = new SessionManager(new InMemorySessionStore());
+    try {
+      const connection = {};
+      manager.createSession("limits-a").attach(connection);
+      manager.createSession("limits-b").attach(connection);
+      expect(() => manager.createSession("limits-c")).toThrow(SessionLimitError);
+
+      // Sessions nobody drives any more don't count, even while they are kept
+      manager.getSession("limits-a")!.orphan(connection);
+      manager.createSession("limits-c").attach(connection);
+      expect(() => manager.createSession("limits-d")).toThrow(SessionLimitError);
+
+      manager.deleteSession("limits-b");
+      expect(manager.createSession("limits-d").sessionId).toBe("limits-d");
+    } finally {
+      config.session.maxConcurrentSessions = limit;
+      manager.stop();
+    }
+  });
+});
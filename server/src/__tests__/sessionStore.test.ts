@@ -0,0 +1,145 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { FileSessionStore } from "../session/FileSessionStore";
+import { InMemorySessionStore } from "../session/InMemorySessionStore";
+import { SessionManager } from "../session/SessionManager";
+import { Session } from "../session/Session";
+
+describe("FileSessionStore", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "sessions-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should round-trip a session record", () => {
+    const store = new FileSessionStore(dir);
+    const session = new Session("store-1");
+    session.startTurn("Hello there", "audio_store-1_1.wav");
+    session.completeTurn("Hi!");
+
+    store.save(session.toRecord());
+    const restored = Session.fromRecord(store.load("store-1")!);
+
+    expect(restored.turns).toHaveLength(1);
+    expect(restored.turns[0]).toMatchObject({
+      userTranscript: "Hello there",
+      assistantResponse: "Hi!",
+      audioRef: "audio_store-1_1.wav",
+    });
+  });
+
+  it("should keep session ids with path characters inside its directory", () => {
+    const store = new FileSessionStore(dir);
+    store.save(new Session("../escape").toRecord());
+
+    expect(fs.readdirSync(dir)).toEqual(["..%2Fescape.json"]);
+    expect(store.list().map((record) => record.sessionId)).toEqual(["../escape"]);
+  });
+
+  it("should delete the stored file", () => {
+    const store = new FileSessionStore(dir);
+    store.save(new Session("store-2").toRecord());
+    store.delete("store-2");
+
+    expect(store.load("store-2")).toBeUndefined();
+    expect(fs.readdirSync(dir)).toHaveLength(0);
+  });
+});
+
+describe("SessionManager persistence", () => {
+  it("should restore conversations in a new manager sharing the store", () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "sessions-"));
+    try {
+      const first = new SessionManager(new FileSessionStore(dir));
+      const session = first.createSession("persist-1");
+      session.startTurn("What time is it?");
+      session.completeTurn("Half past three.");
+      first.stop();
+
+      const second = new SessionManager(new FileSessionStore(dir));
+      const restored = second.getSession("persist-1");
+      expect(restored?.turns.map((turn) => turn.assistantResponse)).toEqual(["Half past three."]);
+      expect(second.getSessionCount()).toBe(1);
+      second.stop();
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("should pick up changes another manager sharing the store made", async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "sessions-"));
+    const first = new SessionManager(new FileSessionStore(dir));
+    const second = new SessionManager(new FileSessionStore(dir));
+    try {
+      const session = first.createSession("persist-shared");
+      session.startTurn("Where are we?");
+      session.completeTurn("Paris.");
+      first.flush();
+
+      // Keep the two writes apart on the clock
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      const other = second.getSession("persist-shared")!;
+      other.startTurn("And now?");
+      other.completeTurn("Still Paris.");
+      second.flush();
+
+      expect(first.getSession("persist-shared")?.turns.map((turn) => turn.assistantResponse)).toEqual(["Paris.", "Still Paris."]);
+
+      second.deleteSession("persist-shared");
+      expect(first.getSession("persist-shared")).toBeUndefined();
+      expect(fs.readdirSync(dir)).toEqual([]);
+    } finally {
+      first.stop();
+      second.stop();
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("should write changes once flushed", () => {
+    const store = new InMemorySessionStore();
+    const manager = new SessionManager(store);
+    const session = manager.createSession("persist-2");
+
+    session.startTurn("Are you there?");
+    expect(store.load("persist-2")?.turns).toHaveLength(0);
+
+    manager.flush();
+    expect(store.load("persist-2")?.turns).toHaveLength(1);
+    manager.stop();
+  });
+
+  it("should expire sessions by their last change and keep ones a connection is driving", () => {
+    const store = new InMemorySessionStore();
+    const manager = new SessionManager(store);
+    const hourAgo = Date.now() - 60 * 60 * 1000;
+    const record = (sessionId: string, updatedAt: number) => ({ ...new Session(sessionId).toRecord(), createdAt: hourAgo, updatedAt });
+    store.save(record("persist-idle", hourAgo));
+    store.save(record("persist-active", Date.now()));
+    store.save(record("persist-attached", hourAgo));
+    manager.getSession("persist-attached")!.attach({});
+
+    manager.cleanup(Date.now() + 1000);
+
+    expect(store.load("persist-idle")).toBeUndefined();
+    expect(store.load("persist-active")).toBeDefined();
+    expect(store.load("persist-attached")).toBeDefined();
+    manager.stop();
+  });
+
+  it("should remove deleted sessions from the store", () => {
+    const store = new InMemorySessionStore();
+    const manager = new SessionManager(store);
+    manager.createSession("persist-3");
+    manager.deleteSession("persist-3");
+
+    expect(store.load("persist-3")).toBeUndefined();
+    expect(manager.getSession("persist-3")).toBeUndefined();
+    manager.stop();
+  });
+});
@@ -0,0 +1,102 @@
+import * as fs from "fs";
+import request from "supertest";
+import { AudioStreamApp } from "../app";
+import { ConversationPipeline } from "../pipeline/ConversationPipeline";
+import { Session } from "../session/Session";
+import { EchoService } from "../services/EchoService";
+import { SessionManager } from "../session/SessionManager";
+import { WebSocketServer } from "../websocket/WebSocketServer";
+import { audioGenerator } from "./testAudioGenerator";
+import { connect, nextMessage, send } from "./testWebSocket";
+
+const WS_PORT = 18087;
+
+describe("WebSocket draining", () => {
+  let server: WebSocketServer;
+  let sessionManager: SessionManager;
+
+  beforeAll(async () => {
+    // Slow enough that the reply is still streaming when the drain starts
+    const echo = new EchoService({ tokenDelay: 20 });
+    sessionManager = new SessionManager();
+    server = new WebSocketServer(WS_PORT, { stt: echo, chat: echo, tts: echo }, sessionManager);
+    await server.start();
+  });
+
+  afterAll(() => {
+    server.stop();
+    sessionManager.stop();
+  });
+
+  it("should warn clients, refuse new sessions and wait for replies in flight", async () => {
+    const ws = await connect(WS_PORT);
+    send(ws, "session.start", "draining-1");
+    await nextMessage(ws, "session.ready");
+
+    send(ws, "audio.chunk", "draining-1", { chunk: audioGenerator.generateSpeechLike(0.3).toString("base64"), sequenceNumber: 1 });
+    send(ws, "audio.end", "draining-1");
+    await nextMessage(ws, "llm.chunk");
+
+    const warned = nextMessage(ws, "server.draining");
+    const complete = nextMessage(ws, "audio.complete");
+    const deadline = Date.now() + 5000;
+    sessionManager.drain();
+    const drained = server.drain(deadline);
+
+    expect((await warned).data.deadline).toBe(deadline);
+    send(ws, "session.start", "draining-2");
+    const refused = await nextMessage(ws, "error");
+    expect(refused.data.code).toBe("SERVER_DRAINING");
+
+    // The reply already under way still reaches the client
+    await complete;
+    await drained;
+
+    const closed = new Promise<number>((resolve) => ws.once("close", resolve));
+    server.stop();
+    expect(await closed).toBe(1001);
+  });
+});
+
+describe("Pipeline draining", () => {
+  it("should stop waiting for replies in flight at the deadline", async () => {
+    const echo = new EchoService({ tokenDelay: 200 });
+    const pipeline = new ConversationPipeline({ stt: echo, chat: echo, tts: echo });
+    const session = new Session("drain-deadline");
+    const listener = { onEvent: () => undefined, onInterrupted: () => undefined, onError: () => undefined };
+
+    const reply = pipeline.process(session, audioGenerator.generateSpeechLike(0.3), listener, "audio.end");
+    expect(await pipeline.drain(Date.now() + 50)).toBe(false);
+
+    pipeline.interrupt(session.sessionId, "test");
+    await reply;
+    expect(await pipeline.drain(Date.now() + 50)).toBe(true);
+  });
+});
+
+describe("HTTP draining", () => {
+  it("should fail the health check and refuse uploads into new sessions", async () => {
+    const echo = new EchoService({ tokenDelay: 0 });
+    const sessionManager = new SessionManager();
+    const uploadDir = audioGenerator.getTestFilePath("shutdown-uploads");
+    const app = new AudioStreamApp({ uploadDir, providers: { stt: echo, chat: echo, tts: echo }, sessionManager });
+    try {
+      sessionManager.drain();
+
+      const health = await request(app.getExpressApp()).get("/health");
+      expect(health.status).toBe(503);
+      expect(health.body.status).toBe("draining");
+
+      const upload = await request(app.getExpressApp())
+        .post("/upload-audio")
+        .field("sessionId", "draining-upload")
+        .attach("audioFile", audioGenerator.generateTone(0.2), "tone.wav");
+      expect(upload.status).toBe(503);
+      expect(upload.body.code).toBe("SERVER_DRAINING");
+    } finally {
+      await app.drain();
+      sessionManager.stop();
+      fs.rmSync(uploadDir, { recursive: true, force: true });
+    }
+  });
+});
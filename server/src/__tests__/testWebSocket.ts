@@ -0,0 +1,64 @@
+import WebSocket from "ws";
+import { decodeBinaryFrame } from "../websocket/BinaryFrame";
+
+/** How long (ms) to wait for a server message before failing the test */
+const MESSAGE_TIMEOUT = 5000;
+
+/**
+ * Collect server messages until one of the given type arrives; rejects if it
+ * doesn't arrive within `timeout` ms. Binary frames are collected as
+ * `{ type: "binary", frame }`.
+ */
+export function collectUntil(ws: WebSocket, type: string, timeout = MESSAGE_TIMEOUT): Promise<any[]> {
+  return new Promise((resolve, reject) => {
+    const messages: any[] = [];
+    const timer = setTimeout(() => {
+      ws.off("message", onMessage);
+      reject(new Error(`Timed out after ${timeout}ms waiting for ${type}`));
+    }, timeout);
+
+    const onMessage = (data: WebSocket.Data, isBinary: boolean) => {
+      const message = isBinary
+        ? { type: "binary", frame: decodeBinaryFrame(data as Buffer) }
+        : JSON.parse(data.toString());
+      messages.push(message);
+      if (message.type === type) {
+        clearTimeout(timer);
+        ws.off("message", onMessage);
+        resolve(messages);
+      }
+    };
+
+    ws.on("message", onMessage);
+  });
+}
+
+/**
+ * Resolve with the next server message of the given type
+ */
+export async function nextMessage(ws: WebSocket, type: string, timeout = MESSAGE_TIMEOUT): Promise<any> {
+  const messages = await collectUntil(ws, type, timeout);
+  return messages[messages.length - 1];
+}
+
+export function send(ws: WebSocket, type: string, sessionId?: string, data: any = {}): void {
+  ws.send(JSON.stringify({ type, sessionId, timestamp: Date.now(), data }));
+}
+
+/**
+ * Open a connection and wait until the server has set it up; `query` may carry credentials
+ */
+export async function connect(port: number, query = ""): Promise<WebSocket> {
+  const ws = new WebSocket(`ws://localhost:${port}/${query}`);
+  await nextMessage(ws, "connection.established");
+  return ws;
+}
+
+/**
+ * Close the connection and wait for the close handshake to finish
+ */
+export async function close(ws: WebSocket): Promise<void> {
+  const closed = new Promise((resolve) => ws.once("close", resolve));
+  ws.close();
+  await closed;
+}
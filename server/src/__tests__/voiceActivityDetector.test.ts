@@ -0,0 +1,75 @@
+import { AudioGenerator } from "../audio/AudioGenerator";
+import { VoiceActivityDetector } from "../audio/VoiceActivityDetector";
+
+const generator = new AudioGenerator();
+const WAV_HEADER_SIZE = 44;
+
+function pcm(wav: Buffer): Buffer {
+  return wav.subarray(WAV_HEADER_SIZE);
+}
+
+function detector(): VoiceActivityDetector {
+  return new VoiceActivityDetector({
+    sampleRate: 16000,
+    frameDuration: 20,
+    energyThreshold: 0.02,
+    zeroCrossingThreshold: 0.3,
+    minSpeechDuration: 100,
+    silenceDuration: 300,
+  });
+}
+
+describe("VoiceActivityDetector", () => {
+  it("should report nothing for silence", () => {
+    const vad = detector();
+
+    expect(vad.push(generator.generateSilence(1))).toEqual([]);
+    expect(vad.isSpeaking()).toBe(false);
+  });
+
+  it("should detect the start and end of speech", () => {
+    const vad = detector();
+    const audio = Buffer.concat([
+      generator.generateSilence(0.2),
+      pcm(generator.generateSpeechLike(0.5)),
+      pcm(generator.generateSilence(0.5)),
+    ]);
+
+    expect(vad.push(audio)).toEqual([
+      { type: "speech.started", offsetMs: 200 },
+      { type: "speech.ended", offsetMs: 700, durationMs: 500 },
+    ]);
+  });
+
+  it("should ignore broadband noise", () => {
+    const vad = detector();
+
+    expect(vad.push(generator.generateWhiteNoise(0.5))).toEqual([]);
+  });
+
+  it("should find the WAV header and frames across small chunks", () => {
+    const vad = detector();
+    const audio = Buffer.concat([generator.generateSpeechLike(0.3), pcm(generator.generateSilence(0.4))]);
+    const events = [];
+
+    // Odd-sized chunks split both the header and individual samples
+    for (let i = 0; i < audio.length; i += 333) {
+      events.push(...vad.push(audio.subarray(i, i + 333)));
+    }
+
+    expect(events.map((event) => event.type)).toEqual(["speech.started", "speech.ended"]);
+    expect(vad.getHeader()?.length).toBe(WAV_HEADER_SIZE);
+  });
+
+  it("should wait for the full trailing silence window", () => {
+    const vad = detector();
+
+    vad.push(generator.generateSpeechLike(0.3));
+    expect(vad.push(pcm(generator.generateSilence(0.2)))).toEqual([]);
+    expect(vad.isSpeaking()).toBe(true);
+
+    expect(vad.push(pcm(generator.generateSpeechLike(0.1)))).toEqual([]);
+    expect(vad.push(pcm(generator.generateSilence(0.2)))).toEqual([]);
+    expect(vad.isSpeaking()).toBe(true);
+  });
+});
@@ -1,79 +1,490 @@
-import express, { Express, Request, Response } from "express";
+import express, { Express, NextFunction, Request, Response } from "express";
 import multer, { Multer } from "multer";
+import { createHash, randomUUID, timingSafeEqual } from "crypto";
 import * as fs from "fs";
 import * as path from "path";
+import { AudioFormatError, normalizeAudio } from "./audio";
+import { MAX_SESSION_ID_BYTES } from "./protocol";
+import { ServerDrainingError, SessionLimitError, SessionManager } from "./session/SessionManager";
+import { config as serverConfig } from "./config/config";
+import { ProviderSet } from "./services/providers";
+import { providerRegistry } from "./services/ProviderRegistry";
+import { ConversationPipeline } from "./pipeline/ConversationPipeline";
+import { Job, JobManager } from "./jobs/JobManager";
+import { Session } from "./session/Session";
+import { AuthError, Authenticator, Principal, credentialFromHeaders } from "./auth";
+import { LimitError, UsageLimiter, clientKey } from "./limits";
+import { Logger, createLogger } from "./logging";
+import { METRICS_CONTENT_TYPE, metrics, registry } from "./metrics";
+
+const log = createLogger("AudioStreamApp");
 
 export interface AppConfig {
   uploadDir: string;
+  /** Providers for processing uploads; defaults to the configured ones */
+  providers?: ProviderSet;
+  /** Share sessions with the WebSocket and gRPC servers */
+  sessionManager?: SessionManager;
+  /** Checks request credentials; defaults to the configured keys */
+  authenticator?: Authenticator;
+  /** Bearer token that alone grants `GET /metrics`; defaults to the configured one, empty for the usual credentials */
+  metricsToken?: string;
+  /** Rate limits and quotas shared with the other servers; defaults to the configured ones */
+  limiter?: UsageLimiter;
+  /** Runs uploads; share it with the other servers so runs on one session interrupt each other */
+  pipeline?: ConversationPipeline;
+  /** Largest upload accepted, in bytes; defaults to the configured limit */
+  maxFileSize?: number;
 }
 
+/** Machine-readable `code` sent with every HTTP error, next to the human-readable `error` */
+export type HttpErrorCode =
+  | "BAD_REQUEST"
+  | "UNAUTHORIZED"
+  | "SESSION_FORBIDDEN"
+  | "INVALID_AUDIO"
+  | "AUDIO_LIMIT_EXCEEDED"
+  | "SESSION_LIMIT_EXCEEDED"
+  | "SERVER_DRAINING"
+  | "RATE_LIMITED"
+  | "QUOTA_EXCEEDED"
+  | "NOT_FOUND"
+  | "PROCESSING_ERROR"
+  | "INTERNAL_ERROR";
+
+/** Uploads are stored as `audio_<sessionId>_<timestamp><extension>` */
+const UPLOAD_FILENAME = /^audio_(.+)_(\d+)(\.[a-z0-9]+)$/;
+
+/** Whether a request may use a session: its own, another principal's, or one it can't see */
+type SessionAccess = "allowed" | "forbidden" | "hidden";
+
+/** Routes that answer without credentials */
+const PUBLIC_PATHS = new Set(["/health"]);
+
+const METRICS_PATH = "/metrics";
+
+/** Caller-supplied request ids are only kept when they look like one */
+const REQUEST_ID = /^[\w.:-]{1,128}$/;
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
 export class AudioStreamApp {
   private app: Express;
   private upload: Multer;
+  private maxFileSize: number;
   private uploadDir: string;
+  private sessionManager: SessionManager;
+  private jobs: JobManager;
+  private authenticator: Authenticator;
+  private limiter: UsageLimiter;
+  private metricsToken: string;
 
   constructor(config: AppConfig) {
     this.app = express();
     this.uploadDir = config.uploadDir;
-    this.upload = multer({ dest: this.uploadDir });
+    this.maxFileSize = config.maxFileSize ?? serverConfig.upload.maxFileSize;
+    this.upload = multer({ dest: this.uploadDir, limits: { fileSize: this.maxFileSize } });
+    this.sessionManager = config.sessionManager ?? new SessionManager();
+    this.authenticator = config.authenticator ?? new Authenticator();
+    this.limiter = config.limiter ?? new UsageLimiter();
+    this.metricsToken = config.metricsToken ?? serverConfig.auth.metricsToken;
+    this.jobs = new JobManager(
+      this.sessionManager,
+      config.pipeline ?? new ConversationPipeline(config.providers ?? providerRegistry.createProviderSet(), undefined, this.limiter),
+      this.uploadDir
+    );
 
     this.setupMiddleware();
     this.setupRoutes();
+    this.setupSessionRoutes();
+    this.setupUploadRoutes();
+    this.setupErrorHandling();
   }
 
   private setupMiddleware(): void {
+    this.app.use(this.assignRequestId);
+    this.app.use(this.requireAuth);
     this.app.use(express.json());
   }
 
+  /**
+   * Give each request a correlation id, echoed in `X-Request-Id`; a valid one sent by the caller is kept.
+   * Its logger is kept in `res.locals.log`.
+   */
+  private assignRequestId = (req: Request, res: Response, next: NextFunction): void => {
+    const sent = req.get("X-Request-Id");
+    const requestId = sent && REQUEST_ID.test(sent) ? sent : randomUUID();
+    res.setHeader("X-Request-Id", requestId);
+    res.locals.log = log.child({ requestId });
+    next();
+  };
+
+  /**
+   * Reject requests without a valid API key or bearer token; the principal is kept in `res.locals`
+   */
+  private requireAuth = (req: Request, res: Response, next: NextFunction): void => {
+    if (PUBLIC_PATHS.has(req.path)) {
+      return next();
+    }
+    // Scrapers with the metrics token need no client credentials
+    if (req.path === METRICS_PATH && this.metricsToken) {
+      return this.requireMetricsToken(req, res, next);
+    }
+
+    try {
+      res.locals.principal = this.authenticator.authenticate(credentialFromHeaders(req.headers));
+      res.locals.log = res.locals.log.child({ principalId: res.locals.principal.id });
+      next();
+    } catch (error) {
+      const message = error instanceof AuthError ? error.message : "Authentication failed";
+      res.setHeader("WWW-Authenticate", "Bearer");
+      sendError(res, 401, "UNAUTHORIZED", message);
+    }
+  };
+
+  /**
+   * Let `/metrics` through for callers presenting the metrics token
+   */
+  private requireMetricsToken(req: Request, res: Response, next: NextFunction): void {
+    const credential = credentialFromHeaders(req.headers) ?? "";
+    const digest = (text: string) => createHash("sha256").update(text).digest();
+    if (timingSafeEqual(digest(credential), digest(this.metricsToken))) {
+      return next();
+    }
+    res.setHeader("WWW-Authenticate", "Bearer");
+    sendError(res, 401, "UNAUTHORIZED", "Invalid metrics token");
+  }
+
+  /**
+   * Refuse uploads from clients over their rate limit or daily quota before the file is stored
+   */
+  private limitUploads = (req: Request, res: Response, next: NextFunction): void => {
+    const key = clientKey(res.locals.principal, req.ip);
+    try {
+      this.limiter.consume("uploads", key);
+      this.limiter.checkQuota(key);
+    } catch (error) {
+      if (!(error instanceof LimitError)) {
+        return next(error);
+      }
+      res.setHeader("Retry-After", String(error.retryAfterSeconds));
+      sendError(res, 429, error.code, error.message);
+      return;
+    }
+    res.locals.clientKey = key;
+    next();
+  };
+
+  /**
+   * Whether the request's principal may use a session. Leftovers of deleted
+   * sessions (jobs, uploads) have no owner to check, so they stay hidden.
+   */
+  private sessionAccess(res: Response, sessionId: string): SessionAccess {
+    const session = this.sessionManager.getSession(sessionId);
+    if (!session) {
+      return "hidden";
+    }
+    return session.belongsTo(res.locals.principal) ? "allowed" : "forbidden";
+  }
+
   private setupRoutes(): void {
-    // Health check endpoint
+    // Health check endpoint; fails while shutting down so load balancers stop sending new clients
     this.app.get("/health", (_req: Request, res: Response) => {
+      if (this.sessionManager.isDraining()) {
+        return res.status(503).json({ status: "draining" });
+      }
       res.json({ status: "ok" });
     });
 
-    // Audio upload endpoint
+    // Prometheus scrape endpoint; scrapers send METRICS_TOKEN, or credentials like any other client when it is unset
+    this.app.get(METRICS_PATH, (_req: Request, res: Response) => {
+      metrics.activeSessions.set({}, this.sessionManager.getActiveSessionCount());
+      res.type(METRICS_CONTENT_TYPE).send(registry.render());
+    });
+
+    // Audio upload endpoint: stores the recording and queues it for a reply.
+    // With ?wait=true the response carries the finished job, otherwise poll GET /jobs/:id
     this.app.post(
       "/upload-audio",
+      this.limitUploads,
       this.upload.single("audioFile"),
-      (req: Request, res: Response) => {
+      async (req: Request, res: Response) => {
         try {
-          const { sessionId } = req.body;
+          const { sessionId, sampleRate, channels } = req.body;
 
           if (!sessionId) {
-            return res.status(400).json({ error: "Missing sessionId" });
+            return sendError(res, 400, "BAD_REQUEST", "Missing sessionId");
           }
 
           if (!req.file) {
-            return res.status(400).json({ error: "No audio file provided" });
+            return sendError(res, 400, "BAD_REQUEST", "No audio file provided");
+          }
+
+          // The session id becomes part of the stored file's name, and of binary audio frames once resumed over WebSocket
+          if (path.basename(sessionId) !== sessionId || Buffer.byteLength(sessionId, "utf8") > MAX_SESSION_ID_BYTES) {
+            fs.unlinkSync(req.file.path);
+            return sendError(res, 400, "BAD_REQUEST", "Invalid sessionId");
+          }
+
+          // Uploads go to the caller's own session, created for them if it's new
+          const principal: Principal = res.locals.principal;
+          const session = this.sessionManager.getSession(sessionId);
+          if (session && !session.belongsTo(principal)) {
+            fs.unlinkSync(req.file.path);
+            return sendForbidden(res, sessionId);
           }
+          if (!session) {
+            try {
+              this.sessionManager.createSession(sessionId, principal.id);
+            } catch (error) {
+              fs.unlinkSync(req.file.path);
+              throw error;
+            }
+          }
+
+          // Store WAV and raw PCM as normalized WAV; keep compressed formats as they are
+          const upload = fs.readFileSync(req.file.path);
+          fs.unlinkSync(req.file.path);
+          metrics.audioBytesReceived.inc({ transport: "http" }, upload.length);
+          const audio = normalizeAudio(upload, {
+            sampleRate: parseInt(sampleRate) || undefined,
+            channels: parseInt(channels) || undefined,
+          });
 
-          // Rename uploaded file
-          const filename = `audio_${sessionId}_${Date.now()}.wav`;
+          // The file name is also the turn's audio reference, so uploads landing
+          // in the same millisecond must not overwrite each other
+          let uploadedAt = Date.now();
+          while (fs.existsSync(path.join(this.uploadDir, `audio_${sessionId}_${uploadedAt}${audio.extension}`))) {
+            uploadedAt++;
+          }
+          const filename = `audio_${sessionId}_${uploadedAt}${audio.extension}`;
           const newPath = path.join(this.uploadDir, filename);
-          fs.renameSync(req.file.path, newPath);
+          fs.writeFileSync(newPath, audio.data, { flag: "wx" });
 
-          console.log(
-            `[Session ${sessionId}] Audio file uploaded: ${filename}`
-          );
+          const requestLog: Logger = res.locals.log;
+          requestLog.info("Audio file uploaded", { sessionId, filename, audioBytes: audio.data.length });
 
-          res.json({
+          const stored = {
             success: true,
             message: "Audio uploaded successfully",
             filename,
             sessionId,
+            format: audio.sourceFormat,
+            duration: audio.duration,
+          };
+          const job = this.jobs.submit(sessionId, audio.data, {
+            audioRef: filename,
+            clientKey: res.locals.clientKey,
+            principalId: principal.id,
+            log: requestLog,
           });
+
+          if (req.query.wait !== "true") {
+            return res.status(202).json({
+              ...stored,
+              job: describeJob(job),
+              statusUrl: `/jobs/${job.id}`,
+            });
+          }
+
+          const finished = (await this.jobs.wait(job.id))!;
+          if (finished.status !== "completed") {
+            metrics.errors.inc({ transport: "http", code: "PROCESSING_ERROR" });
+            return res.status(500).json({
+              ...stored,
+              success: false,
+              error: finished.error?.message,
+              code: "PROCESSING_ERROR",
+              job: describeJob(finished),
+            });
+          }
+          res.json({ ...stored, job: describeJob(finished) });
         } catch (error) {
-          console.error("Upload error:", error);
-          res.status(500).json({ error: "Failed to process upload" });
+          if (error instanceof AudioFormatError) {
+            return sendError(res, 400, "INVALID_AUDIO", `Invalid audio: ${error.message}`);
+          }
+          if (error instanceof SessionLimitError) {
+            return sendError(res, 503, "SESSION_LIMIT_EXCEEDED", error.message);
+          }
+          if (error instanceof ServerDrainingError) {
+            return sendError(res, 503, "SERVER_DRAINING", error.message);
+          }
+          res.locals.log.error("Upload error", { error });
+          sendError(res, 500, "INTERNAL_ERROR", "Failed to process upload");
         }
       }
     );
+
+    // Status and result of an upload job
+    this.app.get("/jobs/:id", (req: Request, res: Response) => {
+      const job = this.jobs.getJob(req.params.id);
+      const access = job ? this.sessionAccess(res, job.sessionId) : "hidden";
+      if (access === "forbidden") {
+        return sendForbidden(res, job!.sessionId);
+      }
+      if (!job || access === "hidden") {
+        return sendError(res, 404, "NOT_FOUND", "Job not found");
+      }
+      res.json(describeJob(job));
+    });
+
+    // Synthesized reply of a completed job
+    this.app.get("/jobs/:id/audio", (req: Request, res: Response) => {
+      const job = this.jobs.getJob(req.params.id);
+      const access = job ? this.sessionAccess(res, job.sessionId) : "hidden";
+      if (access === "forbidden") {
+        return sendForbidden(res, job!.sessionId);
+      }
+      const audioPath = job?.result?.audioPath;
+      if (!audioPath || access === "hidden" || !fs.existsSync(audioPath)) {
+        return sendError(res, 404, "NOT_FOUND", "Audio not found");
+      }
+      res.sendFile(path.resolve(audioPath));
+    });
+  }
+
+  private setupSessionRoutes(): void {
+    // Sessions, most recently created first
+    this.app.get("/sessions", (req: Request, res: Response) => {
+      const page = parsePagination(req.query);
+      if (!page) {
+        return sendError(res, 400, "BAD_REQUEST", `limit must be 1-${MAX_PAGE_SIZE} and offset at least 0`);
+      }
+
+      const principal: Principal = res.locals.principal;
+      const sessions = this.sessionManager
+        .getAllSessions()
+        .filter((session) => session.belongsTo(principal))
+        .sort((a, b) => b.createdAt - a.createdAt);
+      res.json({
+        sessions: sessions.slice(page.offset, page.offset + page.limit).map(describeSession),
+        total: sessions.length,
+        ...page,
+      });
+    });
+
+    // One session with its conversation so far
+    this.app.get("/sessions/:id", (req: Request, res: Response) => {
+      const session = this.sessionManager.getSession(req.params.id);
+      if (!session) {
+        return sendError(res, 404, "NOT_FOUND", `Session ${req.params.id} not found`);
+      }
+      if (!session.belongsTo(res.locals.principal)) {
+        return sendForbidden(res, req.params.id);
+      }
+
+      res.json({
+        ...describeSession(session),
+        transcript: session.transcript,
+        response: session.llmResponse,
+        summary: session.summary,
+        turns: session.turns.map((turn) => ({
+          index: turn.index,
+          userTranscript: turn.userTranscript,
+          assistantResponse: turn.assistantResponse,
+          startedAt: turn.startedAt,
+          completedAt: turn.completedAt,
+          interrupted: turn.interrupted,
+        })),
+      });
+    });
+
+    this.app.delete("/sessions/:id", (req: Request, res: Response) => {
+      const session = this.sessionManager.getSession(req.params.id);
+      if (!session) {
+        return sendError(res, 404, "NOT_FOUND", `Session ${req.params.id} not found`);
+      }
+      if (!session.belongsTo(res.locals.principal)) {
+        return sendForbidden(res, req.params.id);
+      }
+      this.sessionManager.deleteSession(req.params.id);
+      res.status(204).end();
+    });
+  }
+
+  private setupUploadRoutes(): void {
+    // Stored uploads, newest first, optionally for one session
+    this.app.get("/uploads", (req: Request, res: Response) => {
+      const page = parsePagination(req.query);
+      if (!page) {
+        return sendError(res, 400, "BAD_REQUEST", `limit must be 1-${MAX_PAGE_SIZE} and offset at least 0`);
+      }
+
+      const sessionId = typeof req.query.sessionId === "string" ? req.query.sessionId : undefined;
+      const uploads = this.listUploads(sessionId).filter((upload) => this.sessionAccess(res, upload.sessionId) === "allowed");
+      res.json({
+        uploads: uploads.slice(page.offset, page.offset + page.limit),
+        total: uploads.length,
+        ...page,
+      });
+    });
+
+    // Stream an upload; Range requests are answered with 206 partial content
+    this.app.get("/uploads/:filename", (req: Request, res: Response) => {
+      const { filename } = req.params;
+      const filepath = this.uploadPath(filename);
+      const match = filepath ? UPLOAD_FILENAME.exec(filename) : null;
+      const access = match ? this.sessionAccess(res, match[1]) : "hidden";
+      if (access === "forbidden") {
+        return sendForbidden(res, match![1]);
+      }
+      if (!match || access === "hidden" || !this.getFileInfo(filename)) {
+        return sendError(res, 404, "NOT_FOUND", `Upload ${filename} not found`);
+      }
+      res.sendFile(filepath!);
+    });
+  }
+
+  private setupErrorHandling(): void {
+    this.app.use((req: Request, res: Response) => {
+      sendError(res, 404, "NOT_FOUND", `Cannot ${req.method} ${req.path}`);
+    });
+
+    // Malformed request bodies and anything a route failed to handle
+    this.app.use((error: any, req: Request, res: Response, _next: NextFunction) => {
+      if (error instanceof multer.MulterError && error.code === "LIMIT_FILE_SIZE") {
+        return sendError(res, 413, "AUDIO_LIMIT_EXCEEDED", `Audio file exceeds the ${this.maxFileSize} byte limit`);
+      }
+      if (error.type === "entity.parse.failed" || error instanceof multer.MulterError) {
+        return sendError(res, 400, "BAD_REQUEST", error.message);
+      }
+      (res.locals.log ?? log).error("Request error", { method: req.method, path: req.path, error });
+      sendError(res, 500, "INTERNAL_ERROR", "Internal server error");
+    });
+  }
+
+  /**
+   * Stored uploads with their session and size, newest first
+   */
+  private listUploads(sessionId?: string) {
+    return this.getUploadedFiles()
+      .map((filename) => ({ filename, match: UPLOAD_FILENAME.exec(filename) }))
+      .filter(({ match }) => match && (!sessionId || match[1] === sessionId))
+      .map(({ filename, match }) => {
+        const info = this.getFileInfo(filename);
+        return {
+          filename,
+          sessionId: match![1],
+          size: info?.size ?? 0,
+          uploadedAt: parseInt(match![2]),
+          url: `/uploads/${encodeURIComponent(filename)}`,
+        };
+      })
+      .sort((a, b) => b.uploadedAt - a.uploadedAt);
   }
 
   getExpressApp(): Express {
     return this.app;
   }
 
+  /**
+   * Wait for queued upload jobs to finish
+   */
+  async drain(): Promise<void> {
+    await this.jobs.drain();
+  }
+
   /**
    * List uploaded audio files for a session
    */
@@ -89,18 +500,31 @@ export class AudioStreamApp {
       }
       return files;
     } catch (error) {
-      console.error("Error reading upload directory:", error);
+      log.error("Error reading upload directory", { error });
       return [];
     }
   }
 
+  /**
+   * Absolute path of a file in the upload directory, or null when the name
+   * reaches outside it (`req.params` decodes `%2F`, so names can carry `../`)
+   */
+  private uploadPath(filename: string): string | null {
+    if (path.basename(filename) !== filename) {
+      return null;
+    }
+    const root = path.resolve(this.uploadDir);
+    const filepath = path.resolve(root, filename);
+    return filepath.startsWith(root + path.sep) ? filepath : null;
+  }
+
   /**
    * Get file info
    */
   getFileInfo(filename: string): { size: number; mtime: Date } | null {
     try {
-      const filepath = path.join(this.uploadDir, filename);
-      if (!fs.existsSync(filepath)) {
+      const filepath = this.uploadPath(filename);
+      if (!filepath || !fs.existsSync(filepath)) {
         return null;
       }
       const stats = fs.statSync(filepath);
@@ -125,7 +549,58 @@ export class AudioStreamApp {
         }
       }
     } catch (error) {
-      console.error("Error during cleanup:", error);
+      log.error("Error during cleanup", { error });
     }
   }
 }
+
+/**
+ * Public view of a job; the reply audio is exposed as a URL rather than a path
+ */
+function describeJob(job: Job) {
+  return {
+    id: job.id,
+    sessionId: job.sessionId,
+    status: job.status,
+    createdAt: job.createdAt,
+    completedAt: job.completedAt,
+    result: job.result && {
+      transcript: job.result.transcript,
+      responseText: job.result.responseText,
+      turnIndex: job.result.turnIndex,
+      audioUrl: job.result.audioPath ? `/jobs/${job.id}/audio` : null,
+    },
+    error: job.error,
+  };
+}
+
+function sendError(res: Response, status: number, code: HttpErrorCode, message: string): Response {
+  metrics.errors.inc({ transport: "http", code });
+  return res.status(status).json({ error: message, code });
+}
+
+function sendForbidden(res: Response, sessionId: string): Response {
+  return sendError(res, 403, "SESSION_FORBIDDEN", `Session ${sessionId} belongs to another client`);
+}
+
+/**
+ * Read `limit` and `offset` query parameters; returns null when they are out of range
+ */
+function parsePagination(query: Request["query"]): { limit: number; offset: number } | null {
+  const limit = query.limit === undefined ? DEFAULT_PAGE_SIZE : Number(query.limit);
+  const offset = query.offset === undefined ? 0 : Number(query.offset);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE || !Number.isInteger(offset) || offset < 0) {
+    return null;
+  }
+  return { limit, offset };
+}
+
+function describeSession(session: Session) {
+  return {
+    id: session.sessionId,
+    state: session.state,
+    createdAt: session.createdAt,
+    duration: session.getDuration(),
+    turnCount: session.turns.length,
+  };
+}
@@ -0,0 +1,105 @@
+import { createWavHeader } from './wav';
+
+export interface AudioGeneratorOptions {
+  sampleRate?: number;
+  bitDepth?: number;
+  channels?: number;
+}
+
+/**
+ * Generates synthetic 16-bit PCM WAV audio
+ * Creates WAV buffers with silence, tones, white noise or speech-like patterns
+ */
+export class AudioGenerator {
+  protected sampleRate: number;
+  protected bitDepth: number;
+  protected channels: number;
+
+  constructor(options: AudioGeneratorOptions = {}) {
+    this.sampleRate = options.sampleRate || 16000;
+    this.bitDepth = options.bitDepth || 16;
+    this.channels = options.channels || 1;
+  }
+
+  /**
+   * Generate a WAV file with silence
+   */
+  generateSilence(duration: number): Buffer {
+    return this.generateAudio(duration, (t) => 0);
+  }
+
+  /**
+   * Generate a WAV file with a sine wave tone
+   */
+  generateTone(duration: number, frequency: number = 440): Buffer {
+    return this.generateAudio(duration, (t) => {
+      return Math.sin(2 * Math.PI * frequency * t);
+    });
+  }
+
+  /**
+   * Generate a WAV file with white noise
+   */
+  generateWhiteNoise(duration: number): Buffer {
+    return this.generateAudio(duration, () => {
+      return Math.random() * 2 - 1;
+    });
+  }
+
+  /**
+   * Generate a WAV file with a speech-like pattern (mix of frequencies)
+   */
+  generateSpeechLike(duration: number): Buffer {
+    return this.generateAudio(duration, (t) => {
+      // Mix of frequencies to simulate speech
+      const f1 = 200 + Math.sin(t * 2) * 50;
+      const f2 = 700 + Math.cos(t * 3) * 100;
+      const f3 = 1200 + Math.sin(t * 1.5) * 150;
+
+      const sample =
+        Math.sin(2 * Math.PI * f1 * t) * 0.3 +
+        Math.sin(2 * Math.PI * f2 * t) * 0.3 +
+        Math.sin(2 * Math.PI * f3 * t) * 0.2;
+
+      return Math.tanh(sample); // Add some distortion for realism
+    });
+  }
+
+  /**
+   * Core audio generation function
+   */
+  protected generateAudio(
+    duration: number,
+    sampleGenerator: (t: number) => number
+  ): Buffer {
+    const numSamples = Math.floor(duration * this.sampleRate);
+    const bytesPerSample = this.bitDepth / 8;
+    const dataSize = numSamples * this.channels * bytesPerSample;
+    const header = createWavHeader(dataSize, {
+      sampleRate: this.sampleRate,
+      channels: this.channels,
+      bitsPerSample: this.bitDepth,
+    });
+
+    // Create buffer for entire WAV file
+    const buffer = Buffer.alloc(header.length + dataSize);
+    header.copy(buffer);
+
+    // Generate PCM data
+    let offset = header.length;
+    for (let i = 0; i < numSamples; i++) {
+      const t = i / this.sampleRate;
+      let sample = sampleGenerator(t);
+
+      // Clamp to [-1, 1]
+      sample = Math.max(-1, Math.min(1, sample));
+
+      // Convert to 16-bit PCM
+      const pcmValue = sample < 0 ? sample * 0x8000 : sample * 0x7fff;
+      buffer.writeInt16LE(pcmValue, offset);
+      offset += 2;
+    }
+
+    return buffer;
+  }
+}
@@ -0,0 +1,158 @@
+import { config } from '../config/config';
+import { findPcmOffset } from './wav';
+
+export interface VoiceActivityOptions {
+  sampleRate?: number;
+  frameDuration?: number;
+  energyThreshold?: number;
+  zeroCrossingThreshold?: number;
+  minSpeechDuration?: number;
+  silenceDuration?: number;
+}
+
+export type VoiceActivityEvent =
+  | { type: 'speech.started'; offsetMs: number }
+  | { type: 'speech.ended'; offsetMs: number; durationMs: number };
+
+/**
+ * Energy / zero-crossing voice activity detection over a 16-bit mono PCM stream.
+ * A frame counts as speech when it is loud enough and crosses zero rarely
+ * enough to rule out broadband noise. A WAV header at the start of the
+ * stream is skipped, even when it is split across chunks.
+ */
+export class VoiceActivityDetector {
+  private sampleRate: number;
+  private frameSamples: number;
+  private frameDuration: number;
+  private energyThreshold: number;
+  private zeroCrossingThreshold: number;
+  private minSpeechDuration: number;
+  private silenceDuration: number;
+  private header: Buffer | null = null;
+  private headerParsed = false;
+  private pending: Buffer = Buffer.alloc(0);
+  private framesProcessed = 0;
+  private speaking = false;
+  private speechRun = 0;
+  private silenceRun = 0;
+  private speechStartFrame = 0;
+
+  constructor(options: VoiceActivityOptions = {}) {
+    this.sampleRate = options.sampleRate ?? config.audio.sampleRate;
+    this.frameDuration = options.frameDuration ?? config.audio.vad.frameDuration;
+    this.energyThreshold = options.energyThreshold ?? config.audio.vad.energyThreshold;
+    this.zeroCrossingThreshold = options.zeroCrossingThreshold ?? config.audio.vad.zeroCrossingThreshold;
+    this.minSpeechDuration = options.minSpeechDuration ?? config.audio.vad.minSpeechDuration;
+    this.silenceDuration = options.silenceDuration ?? config.audio.vad.silenceDuration;
+    this.frameSamples = Math.round((this.sampleRate * this.frameDuration) / 1000);
+  }
+
+  /**
+   * Analyze the next bytes of the stream and report any speech transitions
+   */
+  push(chunk: Buffer): VoiceActivityEvent[] {
+    this.pending = this.pending.length > 0 ? Buffer.concat([this.pending, chunk]) : chunk;
+
+    if (!this.headerParsed && !this.skipHeader()) {
+      return [];
+    }
+
+    const events: VoiceActivityEvent[] = [];
+    const frameBytes = this.frameSamples * 2;
+    let offset = 0;
+
+    while (this.pending.length - offset >= frameBytes) {
+      const event = this.processFrame(this.pending.subarray(offset, offset + frameBytes));
+      if (event) {
+        events.push(event);
+      }
+      offset += frameBytes;
+    }
+
+    this.pending = this.pending.subarray(offset);
+    return events;
+  }
+
+  isSpeaking(): boolean {
+    return this.speaking;
+  }
+
+  /**
+   * The stream's WAV header, if it had one
+   */
+  getHeader(): Buffer | null {
+    return this.header;
+  }
+
+  private processFrame(frame: Buffer): VoiceActivityEvent | null {
+    const frameIndex = this.framesProcessed++;
+    let energy = 0;
+    let crossings = 0;
+    let previous = 0;
+
+    for (let i = 0; i < frame.length; i += 2) {
+      const sample = frame.readInt16LE(i) / 0x8000;
+      energy += sample * sample;
+      if (i > 0 && (sample >= 0) !== (previous >= 0)) {
+        crossings++;
+      }
+      previous = sample;
+    }
+
+    const rms = Math.sqrt(energy / this.frameSamples);
+    const zeroCrossingRate = crossings / this.frameSamples;
+    const isSpeech = rms >= this.energyThreshold && zeroCrossingRate <= this.zeroCrossingThreshold;
+
+    if (isSpeech) {
+      this.silenceRun = 0;
+      this.speechRun++;
+      if (!this.speaking && this.speechRun * this.frameDuration >= this.minSpeechDuration) {
+        this.speaking = true;
+        this.speechStartFrame = frameIndex - this.speechRun + 1;
+        return { type: 'speech.started', offsetMs: this.toMs(this.speechStartFrame) };
+      }
+      return null;
+    }
+
+    this.speechRun = 0;
+    if (!this.speaking) {
+      return null;
+    }
+
+    this.silenceRun++;
+    if (this.silenceRun * this.frameDuration < this.silenceDuration) {
+      return null;
+    }
+
+    // Speech ended where the trailing silence began
+    const endFrame = frameIndex - this.silenceRun + 1;
+    this.speaking = false;
+    this.silenceRun = 0;
+    return {
+      type: 'speech.ended',
+      offsetMs: this.toMs(endFrame),
+      durationMs: this.toMs(endFrame - this.speechStartFrame),
+    };
+  }
+
+  /**
+   * Drop a leading WAV header; returns false until enough bytes have arrived to find the data chunk
+   */
+  private skipHeader(): boolean {
+    const pcmOffset = findPcmOffset(this.pending);
+    if (pcmOffset === null) {
+      return false;
+    }
+
+    if (pcmOffset > 0) {
+      this.header = Buffer.from(this.pending.subarray(0, pcmOffset));
+      this.pending = this.pending.subarray(pcmOffset);
+    }
+    this.headerParsed = true;
+    return true;
+  }
+
+  private toMs(frames: number): number {
+    return frames * this.frameDuration;
+  }
+}
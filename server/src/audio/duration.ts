@@ -0,0 +1,78 @@
+import { AudioContainer } from './format';
+
+/**
+ * Typical bitrates (bits/s) of recorded speech in each compressed container,
+ * used to estimate a duration the container doesn't state
+ */
+const SPEECH_BITRATES: Record<Exclude<AudioContainer, 'wav' | 'pcm'>, number> = {
+  mp3: 64000,
+  ogg: 32000,
+  flac: 256000,
+  webm: 32000,
+  mp4: 64000,
+};
+
+/**
+ * Seconds of audio a compressed container declares, or null when it doesn't.
+ * Only MP4 (the movie header's duration) is read; recordings cut off before
+ * the header was written have none.
+ */
+export function readContainerDuration(buffer: Buffer, container: AudioContainer): number | null {
+  if (container !== 'mp4') {
+    return null;
+  }
+
+  const moov = findBox(buffer, 'moov', 0, buffer.length);
+  const mvhd = moov && findBox(buffer, 'mvhd', moov.start, moov.end);
+  if (!mvhd) {
+    return null;
+  }
+
+  // Version 1 headers use 64-bit times and duration
+  const version = buffer[mvhd.start];
+  const timescaleOffset = mvhd.start + (version === 1 ? 20 : 12);
+  if (timescaleOffset + (version === 1 ? 12 : 8) > mvhd.end) {
+    return null;
+  }
+  const timescale = buffer.readUInt32BE(timescaleOffset);
+  const duration = version === 1
+    ? Number(buffer.readBigUInt64BE(timescaleOffset + 4))
+    : buffer.readUInt32BE(timescaleOffset + 4);
+  return timescale > 0 && duration > 0 ? duration / timescale : null;
+}
+
+/**
+ * Rough seconds of compressed audio from its size, at a typical speech bitrate
+ */
+export function estimateDuration(buffer: Buffer, container: AudioContainer): number {
+  if (container === 'wav' || container === 'pcm') {
+    return 0;
+  }
+  return (buffer.length * 8) / SPEECH_BITRATES[container];
+}
+
+/**
+ * Payload bounds of the first box of `type` between `start` and `end`
+ */
+function findBox(buffer: Buffer, type: string, start: number, end: number): { start: number; end: number } | null {
+  let offset = start;
+  while (offset + 8 <= end) {
+    let size = buffer.readUInt32BE(offset);
+    let header = 8;
+    if (size === 1 && offset + 16 <= end) {
+      size = Number(buffer.readBigUInt64BE(offset + 8));
+      header = 16;
+    } else if (size === 0) {
+      // The box runs to the end of the file
+      size = end - offset;
+    }
+    if (size < header) {
+      return null;
+    }
+    if (buffer.toString('ascii', offset + 4, offset + 8) === type) {
+      return { start: offset + header, end: Math.min(offset + size, end) };
+    }
+    offset += size;
+  }
+  return null;
+}
@@ -0,0 +1,47 @@
+export type AudioContainer = 'wav' | 'mp3' | 'ogg' | 'flac' | 'webm' | 'mp4' | 'pcm';
+
+/** File extension the speech-to-text service expects for each container */
+export const AUDIO_EXTENSIONS: Record<AudioContainer, string> = {
+  wav: '.wav',
+  mp3: '.mp3',
+  ogg: '.ogg',
+  flac: '.flac',
+  webm: '.webm',
+  mp4: '.m4a',
+  pcm: '.pcm',
+};
+
+export class AudioFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AudioFormatError';
+  }
+}
+
+/**
+ * Identify the container from its magic bytes; anything unrecognized is treated as raw PCM
+ */
+export function detectAudioFormat(buffer: Buffer): AudioContainer {
+  const ascii = (start: number, end: number) => buffer.toString('ascii', start, end);
+
+  if (buffer.length >= 12 && ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WAVE') {
+    return 'wav';
+  }
+  if (ascii(0, 4) === 'OggS') {
+    return 'ogg';
+  }
+  if (ascii(0, 4) === 'fLaC') {
+    return 'flac';
+  }
+  if (buffer.length >= 4 && buffer.readUInt32BE(0) === 0x1a45dfa3) {
+    return 'webm';
+  }
+  if (buffer.length >= 8 && ascii(4, 8) === 'ftyp') {
+    return 'mp4';
+  }
+  // ID3 tag, or a bare MPEG audio frame sync
+  if (ascii(0, 3) === 'ID3' || (buffer.length >= 2 && buffer[0] === 0xff && (buffer[1] & 0xe0) === 0xe0)) {
+    return 'mp3';
+  }
+  return 'pcm';
+}
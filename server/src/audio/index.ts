@@ -0,0 +1,5 @@
+export * from './format';
+export * from './wav';
+export * from './pcm';
+export * from './normalize';
+export * from './duration';
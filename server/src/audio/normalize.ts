@@ -0,0 +1,67 @@
+import { config } from '../config/config';
+import { readContainerDuration } from './duration';
+import { AUDIO_EXTENSIONS, AudioContainer, detectAudioFormat } from './format';
+import { downmixToMono, resample, toPcm16 } from './pcm';
+import { encodeWav, parseWav } from './wav';
+
+export interface RawPcmFormat {
+  sampleRate?: number;
+  channels?: number;
+}
+
+export interface NormalizeOptions extends RawPcmFormat {
+  /** The audio was streamed while recording, so its WAV header sizes are placeholders */
+  streamed?: boolean;
+}
+
+export interface NormalizedAudio {
+  data: Buffer;
+  /** Container of `data`: WAV for anything decodable here, otherwise the original */
+  format: AudioContainer;
+  extension: string;
+  /** Format the audio arrived in */
+  sourceFormat: AudioContainer;
+  /** Seconds of audio, when decoded or stated by the container */
+  duration: number | null;
+}
+
+/**
+ * Bring ingested audio into the shape speech-to-text expects.
+ * WAV (any common bit depth, channel count and rate) and headerless 16-bit PCM
+ * become mono 16-bit WAV at `config.audio.sampleRate`; compressed containers
+ * are passed through unchanged with their proper extension.
+ */
+export function normalizeAudio(buffer: Buffer, options: NormalizeOptions = {}): NormalizedAudio {
+  const sourceFormat = detectAudioFormat(buffer);
+  if (sourceFormat !== 'wav' && sourceFormat !== 'pcm') {
+    const duration = readContainerDuration(buffer, sourceFormat);
+    return { data: buffer, format: sourceFormat, extension: AUDIO_EXTENSIONS[sourceFormat], sourceFormat, duration };
+  }
+
+  if (sourceFormat === 'pcm') {
+    return normalizePcm(buffer, options);
+  }
+
+  const info = parseWav(buffer, options.streamed);
+  const pcm = toPcm16(buffer.subarray(info.dataOffset, info.dataOffset + info.dataLength), info.bitsPerSample, info.encoding);
+  return { ...toNormalizedWav(pcm, info.sampleRate, info.channels), sourceFormat };
+}
+
+/**
+ * Normalize headerless 16-bit PCM, e.g. from a stream that states its sample rate separately
+ */
+export function normalizePcm(pcm: Buffer, raw: RawPcmFormat = {}): NormalizedAudio {
+  const sampleRate = raw.sampleRate || config.audio.sampleRate;
+  const channels = raw.channels || config.audio.channels;
+  return { ...toNormalizedWav(toPcm16(pcm, 16), sampleRate, channels), sourceFormat: 'pcm' };
+}
+
+function toNormalizedWav(pcm: Buffer, sampleRate: number, channels: number): Omit<NormalizedAudio, 'sourceFormat'> {
+  const mono = resample(downmixToMono(pcm, channels), sampleRate, config.audio.sampleRate);
+  return {
+    data: encodeWav(mono, config.audio.sampleRate, 1),
+    format: 'wav',
+    extension: AUDIO_EXTENSIONS.wav,
+    duration: mono.length / 2 / config.audio.sampleRate,
+  };
+}
@@ -0,0 +1,93 @@
+import { AudioFormatError } from './format';
+import { WAV_FORMAT_FLOAT, WAV_FORMAT_PCM } from './wav';
+
+/**
+ * Convert interleaved samples of any common WAV encoding to 16-bit little-endian PCM
+ */
+export function toPcm16(data: Buffer, bitsPerSample: number, encoding: number = WAV_FORMAT_PCM): Buffer {
+  if (encoding === WAV_FORMAT_PCM && bitsPerSample === 16) {
+    return data.subarray(0, data.length - (data.length % 2));
+  }
+
+  const bytesPerSample = bitsPerSample / 8;
+  const count = Math.floor(data.length / bytesPerSample);
+  const output = Buffer.alloc(count * 2);
+
+  for (let i = 0; i < count; i++) {
+    const offset = i * bytesPerSample;
+    let sample: number;
+
+    if (encoding === WAV_FORMAT_FLOAT && bitsPerSample === 32) {
+      sample = Math.max(-1, Math.min(1, data.readFloatLE(offset))) * 0x7fff;
+    } else if (encoding !== WAV_FORMAT_PCM) {
+      throw new AudioFormatError(`Unsupported WAV encoding: ${encoding}`);
+    } else if (bitsPerSample === 8) {
+      // 8-bit WAV is unsigned
+      sample = (data[offset] - 128) << 8;
+    } else if (bitsPerSample === 24) {
+      sample = data.readIntLE(offset, 3) >> 8;
+    } else if (bitsPerSample === 32) {
+      sample = data.readInt32LE(offset) >> 16;
+    } else {
+      throw new AudioFormatError(`Unsupported bit depth: ${bitsPerSample}`);
+    }
+
+    output.writeInt16LE(Math.round(sample), i * 2);
+  }
+
+  return output;
+}
+
+/**
+ * Average interleaved 16-bit channels into one
+ */
+export function downmixToMono(pcm: Buffer, channels: number): Buffer {
+  if (channels <= 1) {
+    return pcm;
+  }
+
+  const frames = Math.floor(pcm.length / (2 * channels));
+  const output = Buffer.alloc(frames * 2);
+
+  for (let frame = 0; frame < frames; frame++) {
+    let sum = 0;
+    for (let channel = 0; channel < channels; channel++) {
+      sum += pcm.readInt16LE((frame * channels + channel) * 2);
+    }
+    output.writeInt16LE(Math.round(sum / channels), frame * 2);
+  }
+
+  return output;
+}
+
+/**
+ * Linear-interpolation resampling of mono 16-bit PCM
+ */
+export function resample(pcm: Buffer, fromRate: number, toRate: number): Buffer {
+  if (fromRate === toRate) {
+    return pcm;
+  }
+  if (fromRate <= 0 || toRate <= 0) {
+    throw new AudioFormatError(`Invalid sample rate conversion: ${fromRate} → ${toRate}`);
+  }
+
+  const inputSamples = Math.floor(pcm.length / 2);
+  if (inputSamples === 0) {
+    return Buffer.alloc(0);
+  }
+
+  const outputSamples = Math.floor((inputSamples * toRate) / fromRate);
+  const output = Buffer.alloc(outputSamples * 2);
+  const step = fromRate / toRate;
+
+  for (let i = 0; i < outputSamples; i++) {
+    const position = i * step;
+    const index = Math.floor(position);
+    const next = Math.min(index + 1, inputSamples - 1);
+    const fraction = position - index;
+    const sample = pcm.readInt16LE(index * 2) * (1 - fraction) + pcm.readInt16LE(next * 2) * fraction;
+    output.writeInt16LE(Math.round(sample), i * 2);
+  }
+
+  return output;
+}
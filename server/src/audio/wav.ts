@@ -0,0 +1,182 @@
+import { AudioFormatError } from './format';
+
+const RIFF_HEADER_SIZE = 12;
+export const WAV_HEADER_SIZE = 44;
+
+export const WAV_FORMAT_PCM = 1;
+export const WAV_FORMAT_FLOAT = 3;
+const WAV_FORMAT_EXTENSIBLE = 0xfffe;
+
+/** Bit depths toPcm16 can convert, by encoding */
+const SUPPORTED_BIT_DEPTHS: Record<number, number[]> = {
+  [WAV_FORMAT_PCM]: [8, 16, 24, 32],
+  [WAV_FORMAT_FLOAT]: [32],
+};
+const MAX_CHANNELS = 8;
+const MIN_SAMPLE_RATE = 8000;
+const MAX_SAMPLE_RATE = 192000;
+
+export interface PcmFormat {
+  sampleRate: number;
+  channels: number;
+  bitsPerSample: number;
+  /** 1 for integer PCM, 3 for IEEE float */
+  encoding: number;
+}
+
+export interface WavInfo extends PcmFormat {
+  /** Byte offset of the first sample */
+  dataOffset: number;
+  /** Bytes of sample data actually present in the buffer */
+  dataLength: number;
+}
+
+/**
+ * Byte offset where PCM samples start: after the WAV header when the buffer
+ * starts with one, otherwise 0. Returns null while the header is incomplete.
+ */
+export function findPcmOffset(buffer: Buffer): number | null {
+  if (buffer.length < RIFF_HEADER_SIZE) {
+    return null;
+  }
+
+  if (buffer.toString('ascii', 0, 4) !== 'RIFF') {
+    return 0;
+  }
+
+  // Walk the RIFF sub-chunks (fmt, and padding such as FLLR) until the data chunk
+  let offset = RIFF_HEADER_SIZE;
+  while (offset + 8 <= buffer.length) {
+    if (buffer.toString('ascii', offset, offset + 4) === 'data') {
+      return offset + 8;
+    }
+    // Sub-chunks are padded to an even length
+    const size = buffer.readUInt32LE(offset + 4);
+    offset += 8 + size + (size % 2);
+  }
+
+  return null;
+}
+
+/**
+ * Read the format and data location of a WAV file.
+ * Sizes written before recording finished (0 or too large) are ignored and
+ * the data is taken to run to the end of the buffer; `streamed` does the same
+ * for any declared size, for headers captured while still recording.
+ */
+export function parseWav(buffer: Buffer, streamed: boolean = false): WavInfo {
+  if (buffer.length < RIFF_HEADER_SIZE
+    || buffer.toString('ascii', 0, 4) !== 'RIFF'
+    || buffer.toString('ascii', 8, 12) !== 'WAVE') {
+    throw new AudioFormatError('Not a WAV file');
+  }
+
+  let format: PcmFormat | null = null;
+  let offset = RIFF_HEADER_SIZE;
+
+  while (offset + 8 <= buffer.length) {
+    const id = buffer.toString('ascii', offset, offset + 4);
+    const size = buffer.readUInt32LE(offset + 4);
+    const body = offset + 8;
+
+    if (id === 'fmt ') {
+      if (size < 16 || body + 16 > buffer.length) {
+        throw new AudioFormatError('Truncated WAV fmt chunk');
+      }
+      let encoding = buffer.readUInt16LE(body);
+      // WAVE_FORMAT_EXTENSIBLE keeps the real format in the sub-format GUID
+      if (encoding === WAV_FORMAT_EXTENSIBLE && size >= 26 && body + 26 <= buffer.length) {
+        encoding = buffer.readUInt16LE(body + 24);
+      }
+      format = {
+        encoding,
+        channels: buffer.readUInt16LE(body + 2),
+        sampleRate: buffer.readUInt32LE(body + 4),
+        bitsPerSample: buffer.readUInt16LE(body + 14),
+      };
+      checkFormat(format);
+    } else if (id === 'data') {
+      if (!format) {
+        throw new AudioFormatError('WAV data chunk before fmt chunk');
+      }
+      const available = buffer.length - body;
+      const dataLength = streamed || size === 0 || size > available ? available : size;
+      return { ...format, dataOffset: body, dataLength };
+    }
+
+    offset = body + size + (size % 2);
+  }
+
+  throw new AudioFormatError('WAV file has no data chunk');
+}
+
+/**
+ * Reject formats the PCM conversion can't handle, such as a zero bit depth or sample rate
+ */
+function checkFormat({ encoding, channels, sampleRate, bitsPerSample }: PcmFormat): void {
+  const bitDepths = SUPPORTED_BIT_DEPTHS[encoding];
+  if (!bitDepths) {
+    throw new AudioFormatError(`Unsupported WAV encoding: ${encoding}`);
+  }
+  if (!bitDepths.includes(bitsPerSample)) {
+    throw new AudioFormatError(`Unsupported bit depth: ${bitsPerSample}`);
+  }
+  if (channels < 1 || channels > MAX_CHANNELS) {
+    throw new AudioFormatError(`Unsupported channel count: ${channels}`);
+  }
+  if (sampleRate < MIN_SAMPLE_RATE || sampleRate > MAX_SAMPLE_RATE) {
+    throw new AudioFormatError(`Unsupported sample rate: ${sampleRate}`);
+  }
+}
+
+/**
+ * Build a 44-byte canonical WAV header for the given amount of sample data
+ */
+export function createWavHeader(dataLength: number, format: Omit<PcmFormat, 'encoding'> & { encoding?: number }): Buffer {
+  const bytesPerSample = format.bitsPerSample / 8;
+  const header = Buffer.alloc(WAV_HEADER_SIZE);
+
+  header.write('RIFF', 0);
+  header.writeUInt32LE(WAV_HEADER_SIZE + dataLength - 8, 4);
+  header.write('WAVE', 8);
+  header.write('fmt ', 12);
+  header.writeUInt32LE(16, 16); // fmt chunk size
+  header.writeUInt16LE(format.encoding ?? WAV_FORMAT_PCM, 20);
+  header.writeUInt16LE(format.channels, 22);
+  header.writeUInt32LE(format.sampleRate, 24);
+  header.writeUInt32LE(format.sampleRate * format.channels * bytesPerSample, 28); // byte rate
+  header.writeUInt16LE(format.channels * bytesPerSample, 32); // block align
+  header.writeUInt16LE(format.bitsPerSample, 34);
+  header.write('data', 36);
+  header.writeUInt32LE(dataLength, 40);
+
+  return header;
+}
+
+/**
+ * Wrap 16-bit PCM samples in a WAV container
+ */
+export function encodeWav(pcm: Buffer, sampleRate: number, channels: number): Buffer {
+  return Buffer.concat([createWavHeader(pcm.length, { sampleRate, channels, bitsPerSample: 16 }), pcm]);
+}
+
+/**
+ * Join WAV files that share a format into one; sizes are rewritten for the combined data
+ */
+export function concatWav(files: Buffer[]): Buffer {
+  if (files.length === 0) {
+    throw new AudioFormatError('No WAV files to join');
+  }
+
+  const infos = files.map((file) => parseWav(file));
+  const [first] = infos;
+  if (infos.some((info) => info.sampleRate !== first.sampleRate
+    || info.channels !== first.channels
+    || info.bitsPerSample !== first.bitsPerSample
+    || info.encoding !== first.encoding)) {
+    throw new AudioFormatError('WAV files to join must share a format');
+  }
+
+  const data = Buffer.concat(infos.map((info, i) => files[i].subarray(info.dataOffset, info.dataOffset + info.dataLength)));
+  return Buffer.concat([createWavHeader(data.length, first), data]);
+}
@@ -0,0 +1,113 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import { config } from '../config/config';
+import { AuthError, verifyToken } from './token';
+
+export type AuthMethod = 'api-key' | 'token' | 'anonymous';
+
+/** Who a request acts for; sessions are owned by the principal that created them */
+export interface Principal {
+  id: string;
+  method: AuthMethod;
+}
+
+/** Everyone is this principal while no keys or token secret are configured */
+export const ANONYMOUS_PRINCIPAL: Principal = { id: 'anonymous', method: 'anonymous' };
+
+export interface AuthOptions {
+  /** Accepted API keys, each as `principal:key` or a bare key */
+  apiKeys: string[];
+  /** HMAC secret for bearer tokens; tokens are rejected when empty */
+  jwtSecret: string;
+  /** Allowed clock skew (s) when checking token expiry */
+  clockTolerance?: number;
+}
+
+interface ApiKey {
+  principalId: string;
+  digest: Buffer;
+}
+
+/**
+ * Checks the credential a client presents, whichever transport it came in on.
+ * A credential is either an API key or an HS256 JWT whose `sub` names the principal.
+ */
+export class Authenticator {
+  private apiKeys: ApiKey[];
+  private jwtSecret: string;
+  private clockTolerance: number;
+
+  constructor(options: AuthOptions = config.auth) {
+    this.apiKeys = options.apiKeys.map(parseApiKey);
+    this.jwtSecret = options.jwtSecret;
+    this.clockTolerance = options.clockTolerance ?? 0;
+  }
+
+  /**
+   * Authentication is required once any key or token secret is configured
+   */
+  isEnabled(): boolean {
+    return this.apiKeys.length > 0 || !!this.jwtSecret;
+  }
+
+  /**
+   * Resolve a credential to its principal; throws AuthError when it is missing or invalid
+   */
+  authenticate(credential: string | undefined): Principal {
+    if (!this.isEnabled()) {
+      return ANONYMOUS_PRINCIPAL;
+    }
+    if (!credential) {
+      throw new AuthError('Missing credentials');
+    }
+
+    // JWTs have three dot-separated parts; anything else is taken as an API key
+    if (credential.split('.').length === 3) {
+      if (!this.jwtSecret) {
+        throw new AuthError('Bearer tokens are not accepted');
+      }
+      const claims = verifyToken(credential, this.jwtSecret, this.clockTolerance);
+      return { id: claims.sub, method: 'token' };
+    }
+
+    const digest = sha256(credential);
+    // Compare against every key so the time taken doesn't reveal which one matched
+    let match: ApiKey | undefined;
+    for (const key of this.apiKeys) {
+      if (timingSafeEqual(key.digest, digest) && !match) {
+        match = key;
+      }
+    }
+    if (!match) {
+      throw new AuthError('Invalid API key');
+    }
+    return { id: match.principalId, method: 'api-key' };
+  }
+}
+
+/**
+ * Pull the credential out of request headers: `Authorization: Bearer <credential>` or `X-API-Key`
+ */
+export function credentialFromHeaders(headers: Record<string, string | string[] | undefined>): string | undefined {
+  const authorization = first(headers['authorization']);
+  if (authorization) {
+    const match = /^Bearer\s+(.+)$/i.exec(authorization);
+    return match ? match[1].trim() : undefined;
+  }
+  return first(headers['x-api-key']);
+}
+
+function parseApiKey(entry: string): ApiKey {
+  const separator = entry.indexOf(':');
+  const key = separator === -1 ? entry : entry.slice(separator + 1);
+  // Bare keys get a stable id that doesn't reveal the key itself
+  const principalId = separator === -1 ? `key-${sha256(key).toString('hex').slice(0, 12)}` : entry.slice(0, separator);
+  return { principalId, digest: sha256(key) };
+}
+
+function sha256(text: string): Buffer {
+  return createHash('sha256').update(text).digest();
+}
+
+function first(value: string | string[] | undefined): string | undefined {
+  return Array.isArray(value) ? value[0] : value;
+}
@@ -0,0 +1,82 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+/** Claims of a bearer token; `sub` names the principal */
+export interface TokenClaims {
+  sub: string;
+  /** Expiry, in seconds since the epoch */
+  exp?: number;
+  /** Not valid before, in seconds since the epoch */
+  nbf?: number;
+  iat?: number;
+  [claim: string]: unknown;
+}
+
+/** Thrown when a request carries no credentials or credentials that do not check out */
+export class AuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+const HEADER = base64url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+
+/**
+ * Sign claims as an HS256 JWT
+ */
+export function signToken(claims: TokenClaims, secret: string): string {
+  const body = `${HEADER}.${base64url(JSON.stringify(claims))}`;
+  return `${body}.${sign(body, secret)}`;
+}
+
+/**
+ * Check an HS256 JWT's signature and validity window and return its claims
+ */
+export function verifyToken(token: string, secret: string, clockTolerance = 0): TokenClaims {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    throw new AuthError('Malformed token');
+  }
+  const [header, payload, signature] = parts;
+
+  let claims: TokenClaims;
+  try {
+    // Only HS256 is accepted, whatever else the token claims to be
+    if (JSON.parse(fromBase64url(header)).alg !== 'HS256') {
+      throw new AuthError('Unsupported token algorithm');
+    }
+    claims = JSON.parse(fromBase64url(payload));
+  } catch (error) {
+    throw error instanceof AuthError ? error : new AuthError('Malformed token');
+  }
+
+  const expected = Buffer.from(sign(`${header}.${payload}`, secret));
+  const actual = Buffer.from(signature);
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    throw new AuthError('Invalid token signature');
+  }
+
+  const now = Date.now() / 1000;
+  if (typeof claims.exp === 'number' && now > claims.exp + clockTolerance) {
+    throw new AuthError('Token expired');
+  }
+  if (typeof claims.nbf === 'number' && now < claims.nbf - clockTolerance) {
+    throw new AuthError('Token not yet valid');
+  }
+  if (typeof claims.sub !== 'string' || !claims.sub) {
+    throw new AuthError('Token has no subject');
+  }
+  return claims;
+}
+
+function sign(data: string, secret: string): string {
+  return createHmac('sha256', secret).update(data).digest('base64url');
+}
+
+function base64url(text: string): string {
+  return Buffer.from(text).toString('base64url');
+}
+
+function fromBase64url(text: string): string {
+  return Buffer.from(text, 'base64url').toString('utf8');
+}
@@ -1,3 +1,5 @@
+import type { LogFormat, LogThreshold } from '../logging';
+
 export const config = {
   server: {
     http: {
@@ -5,9 +7,87 @@ export const config = {
     },
     websocket: {
       port: parseInt(process.env.WS_PORT || '8080'),
-      pingInterval: 30000,
-      maxConnections: 1000,
+      // Clients that don't answer a ping before the next one are disconnected
+      pingInterval: parseInt(process.env.WS_PING_INTERVAL || '30000'),
+      // Connections beyond this are told CONNECTION_LIMIT_EXCEEDED and closed
+      maxConnections: parseInt(process.env.WS_MAX_CONNECTIONS || '1000'),
+      binaryAudio: process.env.WS_BINARY_AUDIO !== 'false',
+    },
+    grpc: {
+      port: parseInt(process.env.GRPC_PORT || '50051'),
     },
+    // On SIGTERM, replies in flight get this long (ms) to finish before connections are closed
+    shutdownTimeout: parseInt(process.env.SHUTDOWN_TIMEOUT || '30000'),
+  },
+
+  logging: {
+    // Entries below this level are dropped: debug, info, warn, error or silent
+    level: (process.env.LOG_LEVEL || 'info') as LogThreshold,
+    format: (process.env.LOG_FORMAT || 'json') as LogFormat,
+    // User data kept out of the logs; transcripts and replies are hidden unless turned off
+    redact: {
+      transcripts: process.env.LOG_REDACT_TRANSCRIPTS !== 'false',
+      responses: process.env.LOG_REDACT_RESPONSES !== 'false',
+      audioSizes: process.env.LOG_REDACT_AUDIO_SIZES === 'true',
+    },
+  },
+
+  auth: {
+    // API keys, comma-separated, each as "principal:key" or a bare key
+    apiKeys: (process.env.API_KEYS || '').split(',').map((key) => key.trim()).filter(Boolean),
+    // HMAC secret for HS256 bearer tokens whose `sub` names the principal
+    jwtSecret: process.env.AUTH_JWT_SECRET || '',
+    // Allowed clock skew (s) when checking token expiry
+    clockTolerance: 30,
+    // Bearer token for scraping GET /metrics; when empty, /metrics takes the usual credentials
+    metricsToken: process.env.METRICS_TOKEN || '',
+  },
+
+  limits: {
+    // Token buckets per client: bursts of up to `capacity`, refilled at `refillPerSecond`; capacity 0 turns one off
+    rates: {
+      // Every WebSocket message, audio chunks included
+      messages: {
+        capacity: parseInt(process.env.RATE_LIMIT_MESSAGES_BURST || '200'),
+        refillPerSecond: parseFloat(process.env.RATE_LIMIT_MESSAGES_PER_SECOND || '50'),
+      },
+      // Utterances sent through the pipeline over WebSocket and gRPC
+      runs: {
+        capacity: parseInt(process.env.RATE_LIMIT_RUNS_BURST || '10'),
+        refillPerSecond: parseFloat(process.env.RATE_LIMIT_RUNS_PER_SECOND || '0.5'),
+      },
+      uploads: {
+        capacity: parseInt(process.env.RATE_LIMIT_UPLOADS_BURST || '10'),
+        refillPerSecond: parseFloat(process.env.RATE_LIMIT_UPLOADS_PER_SECOND || '0.2'),
+      },
+      // New gRPC calls
+      streams: {
+        capacity: parseInt(process.env.RATE_LIMIT_STREAMS_BURST || '20'),
+        refillPerSecond: parseFloat(process.env.RATE_LIMIT_STREAMS_PER_SECOND || '1'),
+      },
+      // Interim transcription requests while recording; over the limit, captions pause
+      partials: {
+        capacity: parseInt(process.env.RATE_LIMIT_PARTIALS_BURST || '5'),
+        refillPerSecond: parseFloat(process.env.RATE_LIMIT_PARTIALS_PER_SECOND || '2'),
+      },
+    },
+    // Usage allowed per client per UTC day; 0 means unlimited
+    dailyAudioSeconds: parseInt(process.env.DAILY_AUDIO_SECONDS || '3600'),
+    dailyTtsCharacters: parseInt(process.env.DAILY_TTS_CHARACTERS || '200000'),
+  },
+
+  providers: {
+    stt: process.env.STT_PROVIDER || process.env.PROVIDER || 'openai',
+    chat: process.env.CHAT_PROVIDER || process.env.PROVIDER || 'openai',
+    tts: process.env.TTS_PROVIDER || process.env.PROVIDER || 'openai',
+  },
+
+  echo: {
+    transcripts: (process.env.ECHO_TRANSCRIPTS || '').split('|').filter(Boolean),
+    responseTemplate: process.env.ECHO_RESPONSE_TEMPLATE || 'You said: {transcript}',
+    tokenDelay: parseInt(process.env.ECHO_TOKEN_DELAY || '40'),
+    speechDurationPerChar: 0.06,
+    maxSpeechDuration: 10,
   },
 
   openai: {
@@ -29,10 +109,60 @@ export const config = {
     },
   },
 
+  transcription: {
+    // Send transcript.partial while recording to clients that ask for it
+    partials: process.env.PARTIAL_TRANSCRIPTS !== 'false',
+    // How often (ms) the audio received so far is re-transcribed
+    partialInterval: parseInt(process.env.PARTIAL_TRANSCRIPT_INTERVAL || '1000'),
+    // Longest stretch of audio (ms) per interim request; earlier text is committed
+    partialWindow: 15000,
+    // Wait for this much audio (ms) before the first interim request
+    minPartialAudio: 500,
+  },
+
+  speech: {
+    // Shortest sentence worth a separate TTS request
+    minSegmentLength: 12,
+    // Split at commas/semicolons only once this much text is buffered
+    clauseSplitLength: 80,
+    // Force a split at a word boundary beyond this length
+    maxSegmentLength: 240,
+  },
+
+  conversation: {
+    maxTurns: parseInt(process.env.CONVERSATION_MAX_TURNS || '10'),
+    maxHistoryTokens: parseInt(process.env.CONVERSATION_MAX_HISTORY_TOKENS || '2000'),
+    summarizeOlderTurns: process.env.CONVERSATION_SUMMARIZE !== 'false',
+  },
+
   session: {
-    maxDuration: 30000,
-    expirationTime: 3600000,
-    maxConcurrentSessions: 100,
+    // Longest recording (ms) a session buffers before AUDIO_LIMIT_EXCEEDED
+    maxDuration: parseInt(process.env.MAX_AUDIO_DURATION || '30000'),
+    // Size cap per recording, whatever its duration works out to
+    maxAudioBytes: parseInt(process.env.MAX_AUDIO_BYTES || '10485760'),
+    // Sessions unused this long (ms) are deleted, unless a connection is driving them
+    expirationTime: parseInt(process.env.SESSION_EXPIRATION || '3600000'),
+    // Sessions left behind by a dropped connection are deleted unless resumed within this long (ms)
+    orphanGracePeriod: parseInt(process.env.SESSION_ORPHAN_GRACE_PERIOD || '120000'),
+    // Recent events kept per session (bytes) for replay to a client that resumes after reconnecting
+    eventBufferBytes: parseInt(process.env.SESSION_EVENT_BUFFER_BYTES || '2097152'),
+    // Sessions driven by a connection at once; new ones beyond this are refused with SESSION_LIMIT_EXCEEDED
+    maxConcurrentSessions: parseInt(process.env.MAX_CONCURRENT_SESSIONS || '100'),
+    // Where sessions are kept: "memory" (lost on restart) or "file" (JSON files in storeDir)
+    store: process.env.SESSION_STORE || 'memory',
+    storeDir: process.env.SESSION_STORE_DIR || './data/sessions',
+    // Changes are written to the store at most this often (ms)
+    persistDelay: 200,
+  },
+
+  upload: {
+    // Largest file POST /upload-audio accepts; Whisper itself stops at 25 MB
+    maxFileSize: parseInt(process.env.MAX_UPLOAD_SIZE || '26214400'),
+  },
+
+  jobs: {
+    // How long finished upload jobs and their reply audio are kept
+    retention: parseInt(process.env.JOB_RETENTION || '3600000'),
   },
 
   audio: {
@@ -40,5 +170,17 @@ export const config = {
     channels: 1,
     chunkSize: 16384,
     chunkDuration: 100,
+    // Voice activity detection for hands-free sessions
+    vad: {
+      frameDuration: 20,
+      // RMS level (0-1) a frame must reach to count as speech
+      energyThreshold: parseFloat(process.env.VAD_ENERGY_THRESHOLD || '0.02'),
+      // Zero crossings per sample above which a frame is treated as noise
+      zeroCrossingThreshold: 0.3,
+      // Speech must last this long (ms) before speech.started is sent
+      minSpeechDuration: 100,
+      // Trailing silence (ms) that ends an utterance
+      silenceDuration: parseInt(process.env.VAD_SILENCE_DURATION || '800'),
+    },
   },
 };
@@ -0,0 +1,417 @@
+import * as grpc from '@grpc/grpc-js';
+import { randomUUID } from 'crypto';
+import { ServerDrainingError, SessionLimitError, SessionManager } from '../session/SessionManager';
+import { Session } from '../session/Session';
+import { ConversationPipeline, PipelineListener } from '../pipeline/ConversationPipeline';
+import { config } from '../config/config';
+import { RawPcmFormat } from '../audio';
+import { ErrorCode, MAX_SESSION_ID_BYTES, SUPPORTED_PROTOCOL_VERSIONS, negotiateProtocolVersion } from '../protocol';
+import { Principal } from '../auth';
+import { LimitError, UsageLimiter } from '../limits';
+import { clientKeyOf, principalOf } from './authInterceptor';
+import { Logger, createLogger } from '../logging';
+import { metrics } from '../metrics';
+
+const log = createLogger('ConversationHandler');
+
+/** A decoded `ConversationRequest`; `payload` names the field that is set */
+export interface ConversationRequest {
+  payload?: 'start' | 'audio' | 'end' | 'interrupt' | 'cancel';
+  start?: {
+    session_id: string;
+    protocol_version: number;
+    sample_rate: number;
+    channels: number;
+    hands_free: boolean;
+  };
+  audio?: { data: Buffer };
+}
+
+/** A `ConversationEvent` with exactly one of its event fields set */
+export interface ConversationEvent {
+  session_id: string;
+  timestamp: number;
+  [event: string]: unknown;
+}
+
+export type ConversationCall = grpc.ServerDuplexStream<ConversationRequest, ConversationEvent>;
+
+interface ConversationStream {
+  call: ConversationCall;
+  principal: Principal;
+  clientKey: string;
+  sessionId: string | null;
+  format: RawPcmFormat;
+  /** Utterances still being answered; the stream stays open until they finish */
+  work: Set<Promise<void>>;
+  closed: boolean;
+  /** Carries the stream's correlation ids */
+  log: Logger;
+}
+
+/**
+ * Serves the `Conversation` RPC: the gRPC counterpart of MessageHandler,
+ * running utterances through the same sessions and pipeline.
+ */
+export class ConversationHandler {
+  private sessionManager: SessionManager;
+  private pipeline: ConversationPipeline;
+  private limiter: UsageLimiter;
+  private streams = new Set<ConversationStream>();
+
+  constructor(sessionManager: SessionManager, pipeline: ConversationPipeline, limiter: UsageLimiter = new UsageLimiter()) {
+    this.sessionManager = sessionManager;
+    this.pipeline = pipeline;
+    this.limiter = limiter;
+  }
+
+  handle(call: ConversationCall): void {
+    const principal = principalOf(call);
+    const stream: ConversationStream = {
+      call,
+      principal,
+      clientKey: clientKeyOf(call),
+      sessionId: null,
+      format: {},
+      work: new Set(),
+      closed: false,
+      log: log.child({ streamId: randomUUID(), principalId: principal.id }),
+    };
+    this.streams.add(stream);
+    metrics.activeConnections.inc({ transport: 'grpc' });
+
+    call.on('data', (request: ConversationRequest) => {
+      try {
+        this.dispatch(stream, request);
+      } catch (error) {
+        stream.log.error('Error handling request', { payload: request.payload, error });
+        this.sendError(stream, 'HANDLER_ERROR', 'Error processing message');
+      }
+    });
+
+    call.on('end', () => {
+      // Let responses already under way finish before closing the stream. A client
+      // cancelling also ends the read side, and 'cancelled' follows within the same turn.
+      Promise.all(stream.work).then(() => setImmediate(() => {
+        if (!stream.closed) {
+          stream.closed = true;
+          this.release(stream, 'end');
+          call.end();
+        }
+      }));
+    });
+
+    call.on('cancelled', () => {
+      // Also emitted once a stream we ended has closed
+      if (stream.closed) {
+        return;
+      }
+      stream.closed = true;
+      if (stream.sessionId) {
+        this.pipeline.interrupt(stream.sessionId, 'cancelled');
+      }
+      this.release(stream, 'cancelled');
+      stream.log.info('Stream cancelled');
+    });
+
+    call.on('error', (error: Error) => {
+      stream.log.error('Stream error', { error });
+    });
+  }
+
+  private dispatch(stream: ConversationStream, request: ConversationRequest): void {
+    if (request.payload === 'start') {
+      this.handleStart(stream, request.start!);
+      return;
+    }
+
+    if (!request.payload) {
+      this.sendError(stream, 'INVALID_MESSAGE', 'Request has no payload');
+      return;
+    }
+
+    const session = stream.sessionId ? this.sessionManager.getSession(stream.sessionId) : undefined;
+    if (!session) {
+      this.sendError(stream, 'SESSION_NOT_FOUND', 'Send start before any other request');
+      return;
+    }
+
+    switch (request.payload) {
+      case 'audio': {
+        metrics.audioBytesReceived.inc({ transport: 'grpc' }, request.audio!.data.length);
+        if (session.addAudioChunk(request.audio!.data).status === 'limit_exceeded') {
+          const { maxDuration, maxBytes } = session.getAudioLimits();
+          this.sendError(stream, 'AUDIO_LIMIT_EXCEEDED', `Recording exceeds the ${maxDuration}ms / ${maxBytes} byte limit; send end`);
+          break;
+        }
+        this.handleSpeechEvents(stream, session);
+        break;
+      }
+
+      case 'end':
+        this.handleEnd(stream, session);
+        break;
+
+      case 'interrupt':
+        if (!this.pipeline.interrupt(session.sessionId, 'client')) {
+          this.send(stream, { interrupted: { reason: 'client', was_active: false } });
+        }
+        break;
+
+      case 'cancel':
+        this.pipeline.interrupt(session.sessionId, 'session.cancel');
+        this.sessionManager.deleteSession(session.sessionId);
+        this.send(stream, { cancelled: { message: 'Session cancelled' } });
+        stream.log.info('Session cancelled');
+        stream.sessionId = null;
+        break;
+    }
+  }
+
+  private handleStart(stream: ConversationStream, start: NonNullable<ConversationRequest['start']>): void {
+    // Leaving session_id empty asks for a new session, or continues this stream's one
+    const sessionId = start.session_id || stream.sessionId || randomUUID();
+    if (stream.sessionId && stream.sessionId !== sessionId) {
+      this.sendError(stream, 'INVALID_MESSAGE', `This stream already belongs to session ${stream.sessionId}`);
+      return;
+    }
+    // The session may be resumed over WebSocket, whose binary audio frames limit the id's length
+    if (Buffer.byteLength(sessionId, 'utf8') > MAX_SESSION_ID_BYTES) {
+      this.sendError(stream, 'INVALID_MESSAGE', `session_id must be at most ${MAX_SESSION_ID_BYTES} bytes`);
+      return;
+    }
+
+    const requested = start.protocol_version || undefined;
+    const protocolVersion = negotiateProtocolVersion(requested);
+    if (protocolVersion === null) {
+      this.sendError(stream, 'UNSUPPORTED_PROTOCOL_VERSION',
+        `Protocol version ${requested} is not supported (supported: ${SUPPORTED_PROTOCOL_VERSIONS.join(', ')})`);
+      return;
+    }
+
+    const existing = this.sessionManager.getSession(sessionId);
+    if (existing && (!existing.belongsTo(stream.principal) || !existing.attach(stream))) {
+      this.sendStartError(stream, sessionId, 'SESSION_FORBIDDEN', `Session ${sessionId} belongs to another connection`);
+      return;
+    }
+
+    let session: Session;
+    try {
+      session = existing || this.sessionManager.createSession(sessionId, stream.principal.id);
+    } catch (error) {
+      if (error instanceof ServerDrainingError) {
+        this.sendStartError(stream, sessionId, 'SERVER_DRAINING', error.message);
+        return;
+      }
+      if (!(error instanceof SessionLimitError)) {
+        throw error;
+      }
+      this.sendStartError(stream, sessionId, 'SESSION_LIMIT_EXCEEDED', error.message);
+      return;
+    }
+    stream.sessionId = sessionId;
+    stream.log = stream.log.child({ sessionId });
+
+    // Starting a new recording barges in on any response still playing
+    this.pipeline.interrupt(sessionId, 'session.start');
+
+    session.attach(stream);
+    session.setState('recording');
+
+    stream.format = {
+      sampleRate: start.sample_rate || config.audio.sampleRate,
+      channels: start.channels || config.audio.channels,
+    };
+    session.setAudioFormat(stream.format.sampleRate, stream.format.channels);
+    const limits = session.getAudioLimits();
+
+    if (start.hands_free) {
+      session.enableVoiceActivityDetection({ sampleRate: stream.format.sampleRate });
+    } else {
+      session.disableVoiceActivityDetection();
+    }
+
+    this.send(stream, {
+      ready: {
+        protocol_version: protocolVersion,
+        resumed: !!existing,
+        turn_count: session.turns.length,
+        hands_free: session.isHandsFree(),
+        max_audio_duration: limits.maxDuration,
+        max_audio_bytes: limits.maxBytes,
+      },
+    });
+
+    stream.log.info(existing ? 'Session resumed' : 'Session started');
+  }
+
+  private handleEnd(stream: ConversationStream, session: Session): void {
+    // In hands-free mode every finished utterance has already been processed, unless its run was refused
+    if (session.isHandsFree() && !session.isSpeaking() && !session.hasHeldUtterance()) {
+      session.takeAudioBuffer();
+      return;
+    }
+
+    // A refused run keeps the recording, so the client can send end again once allowed
+    if (this.admitRun(stream)) {
+      this.processUtterance(stream, session, session.takeAudioBuffer(), 'audio.end');
+    }
+  }
+
+  /**
+   * Pass voice activity transitions on to the client; the end of speech completes an utterance
+   */
+  private handleSpeechEvents(stream: ConversationStream, session: Session): void {
+    for (const event of session.takeSpeechEvents()) {
+      if (event.type === 'speech.started') {
+        this.send(stream, { speech_started: { offset_ms: event.offsetMs } });
+        this.pipeline.interrupt(session.sessionId, 'speech.started');
+        continue;
+      }
+
+      this.send(stream, { speech_ended: { offset_ms: event.offsetMs, duration_ms: event.durationMs } });
+      // A refused run keeps the utterance, so it goes out with the next one or on end
+      if (this.admitRun(stream)) {
+        this.processUtterance(stream, session, session.takeUtterance(), 'speech.ended');
+      } else {
+        session.holdUtterance();
+      }
+    }
+  }
+
+  /**
+   * Tell every open stream the server is going away, then wait for replies in flight
+   * until `deadline` (epoch ms); true when they all finished
+   */
+  drain(deadline: number): Promise<boolean> {
+    for (const stream of this.streams) {
+      this.send(stream, { draining: { message: 'Server is shutting down; resume the session on a new stream', deadline } });
+    }
+    return this.pipeline.drain(deadline);
+  }
+
+  /**
+   * Let another stream of the same principal pick the session up. A cancelled
+   * stream's session is orphaned, so it is deleted unless resumed within the grace period.
+   */
+  private release(stream: ConversationStream, how: 'end' | 'cancelled'): void {
+    this.streams.delete(stream);
+    metrics.activeConnections.dec({ transport: 'grpc' });
+    const session = stream.sessionId ? this.sessionManager.getSession(stream.sessionId) : undefined;
+    if (how === 'cancelled') {
+      session?.orphan(stream);
+    } else {
+      session?.detach(stream);
+    }
+  }
+
+  /**
+   * Take a run token from the stream's bucket, telling the client when to retry if it is empty
+   */
+  private admitRun(stream: ConversationStream): boolean {
+    try {
+      this.limiter.consume('runs', stream.clientKey);
+      return true;
+    } catch (error) {
+      if (!(error instanceof LimitError)) {
+        throw error;
+      }
+      this.sendError(stream, error.code, error.message, error.retryAfterMs);
+      return false;
+    }
+  }
+
+  private processUtterance(stream: ConversationStream, session: Session, audioBuffer: Buffer, reason: string): void {
+    const work = this.pipeline.process(session, audioBuffer, this.listenerFor(stream), reason, {
+      format: { ...stream.format, streamed: true },
+      clientKey: stream.clientKey,
+      log: stream.log,
+    });
+    stream.work.add(work);
+    work.finally(() => stream.work.delete(work));
+  }
+
+  /**
+   * Translate pipeline output into `ConversationEvent`s on this stream.
+   * Create one per run: it times the run's first audio.
+   */
+  private listenerFor(stream: ConversationStream): PipelineListener {
+    let firstAudio: (() => void) | null = metrics.timeToFirstAudio.startTimer({ transport: 'grpc' });
+    return {
+      onEvent: (type, data) => {
+        if (type === 'audio.chunk' && firstAudio) {
+          firstAudio();
+          firstAudio = null;
+        }
+        const event = toConversationEvent(type, data);
+        if (event) {
+          this.send(stream, event);
+        }
+      },
+      onInterrupted: (reason, progress) => {
+        this.send(stream, {
+          interrupted: {
+            reason,
+            was_active: true,
+            stage: progress.stage,
+            delivered_text: progress.deliveredText,
+            audio_chunks_delivered: progress.audioChunksDelivered,
+            audio_bytes_delivered: progress.audioBytesDelivered,
+            segments_delivered: progress.segmentsDelivered,
+            turn_index: progress.turnIndex ?? -1,
+            last_sequence_number: progress.lastSequenceNumber ?? -1,
+          },
+        });
+      },
+      onError: (code, message, retryAfterMs) => this.sendError(stream, code, message, retryAfterMs),
+    };
+  }
+
+  private send(stream: ConversationStream, event: Record<string, unknown>): void {
+    if (stream.closed) {
+      return;
+    }
+    stream.call.write({
+      session_id: stream.sessionId ?? '',
+      timestamp: Date.now(),
+      ...event,
+    });
+  }
+
+  private sendError(stream: ConversationStream, code: ErrorCode, message: string, retryAfterMs?: number): void {
+    metrics.errors.inc({ transport: 'grpc', code });
+    this.send(stream, { error: { code, message, retry_after_ms: retryAfterMs } });
+  }
+
+  /**
+   * Refuse a start; the error names the session asked for, which the stream doesn't hold
+   */
+  private sendStartError(stream: ConversationStream, sessionId: string, code: ErrorCode, message: string): void {
+    metrics.errors.inc({ transport: 'grpc', code });
+    this.send(stream, { session_id: sessionId, error: { code, message } });
+  }
+}
+
+function toConversationEvent(type: string, data: any): Record<string, unknown> | null {
+  switch (type) {
+    case 'transcript.complete':
+      return { transcript: { text: data.transcript, language: data.language, turn_index: data.turnIndex } };
+    case 'llm.chunk':
+      return { llm_chunk: { content: data.content } };
+    case 'llm.complete':
+      return { llm_complete: { full_text: data.fullText } };
+    case 'audio.chunk':
+      return {
+        audio: {
+          data: data.chunk,
+          sequence_number: data.sequenceNumber,
+          segment_index: data.segmentIndex,
+          is_last_in_segment: data.isLastInSegment,
+        },
+      };
+    case 'audio.complete':
+      return { complete: { total_size: data.totalSize, segment_count: data.segmentCount } };
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,264 @@
+import * as grpc from '@grpc/grpc-js';
+import * as protoLoader from '@grpc/proto-loader';
+import * as fs from 'fs';
+import * as path from 'path';
+import { SessionManager } from '../session/SessionManager';
+import { ConversationPipeline } from '../pipeline/ConversationPipeline';
+import { ConversationHandler } from './ConversationHandler';
+import { config } from '../config/config';
+import { ProviderSet } from '../services/providers';
+import { providerRegistry } from '../services/ProviderRegistry';
+import { normalizePcm } from '../audio';
+import { Authenticator } from '../auth';
+import { LimitError, UsageLimiter } from '../limits';
+import { authInterceptor, clientKeyOf, principalOf } from './authInterceptor';
+import { createLogger } from '../logging';
+import { metrics } from '../metrics';
+
+const log = createLogger('GrpcAudioServer');
+
+const PROTO_PATH = path.join(__dirname, '../../proto/audio.proto');
+
+export interface GrpcAudioServerOptions {
+  /** Where StreamAudio recordings are written */
+  audioDir?: string;
+  /** Checks the credentials in each call's metadata; defaults to the configured keys */
+  authenticator?: Authenticator;
+  /** Rate limits and quotas shared with the other servers; defaults to the configured ones */
+  limiter?: UsageLimiter;
+  /** Runs conversations; share it with the other servers so runs on one session interrupt each other */
+  pipeline?: ConversationPipeline;
+}
+
+/** A decoded `AudioChunk` */
+interface AudioChunk {
+  session_id: string;
+  audio_data: Buffer;
+  sample_rate: number;
+}
+
+interface AudioAck {
+  session_id: string;
+  success: boolean;
+  message: string;
+}
+
+export class GrpcAudioServer {
+  private server: grpc.Server | null = null;
+  private sessionManager: SessionManager;
+  private conversationHandler: ConversationHandler;
+  private audioService: grpc.ServiceDefinition;
+  private port: number;
+  private audioDir: string;
+  private authenticator: Authenticator;
+  private limiter: UsageLimiter;
+  // Stopped with the server unless it was shared by the caller
+  private ownsSessionManager: boolean;
+
+  constructor(
+    port: number = config.server.grpc.port,
+    providers: ProviderSet = providerRegistry.createProviderSet(),
+    sessionManager?: SessionManager,
+    options: GrpcAudioServerOptions = {}
+  ) {
+    this.port = port;
+    this.ownsSessionManager = !sessionManager;
+    this.sessionManager = sessionManager ?? new SessionManager();
+    this.audioDir = options.audioDir ?? path.join(__dirname, '../../audio_files');
+    this.authenticator = options.authenticator ?? new Authenticator();
+    this.limiter = options.limiter ?? new UsageLimiter();
+    this.conversationHandler = new ConversationHandler(
+      this.sessionManager,
+      options.pipeline ?? new ConversationPipeline(providers, undefined, this.limiter),
+      this.limiter
+    );
+
+    const packageDefinition = protoLoader.loadSync(PROTO_PATH, {
+      keepCase: true,
+      longs: String,
+      enums: String,
+      defaults: true,
+      oneofs: true,
+    });
+    const audioProto: any = grpc.loadPackageDefinition(packageDefinition);
+    this.audioService = audioProto.audio.AudioService.service;
+  }
+
+  async start(): Promise<void> {
+    if (!fs.existsSync(this.audioDir)) {
+      fs.mkdirSync(this.audioDir, { recursive: true });
+    }
+
+    const server = new grpc.Server({ interceptors: [authInterceptor(this.authenticator)] });
+    server.addService(this.audioService, {
+      streamAudio: (call: grpc.ServerDuplexStream<AudioChunk, AudioAck>) => {
+        if (this.admit(call)) {
+          this.handleStreamAudio(call);
+        }
+      },
+      conversation: (call: any) => {
+        if (this.admit(call)) {
+          this.conversationHandler.handle(call);
+        }
+      },
+    });
+
+    return new Promise((resolve, reject) => {
+      server.bindAsync(`0.0.0.0:${this.port}`, grpc.ServerCredentials.createInsecure(), (error, port) => {
+        if (error) {
+          log.error('Failed to start', { error });
+          reject(error);
+          return;
+        }
+        this.server = server;
+        log.info('Started', { port });
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * Count a new call against the client's rate limit, ending it with RESOURCE_EXHAUSTED when over
+   */
+  private admit(call: grpc.ServerDuplexStream<unknown, unknown>): boolean {
+    try {
+      this.limiter.consume('streams', clientKeyOf(call));
+      return true;
+    } catch (error) {
+      if (!(error instanceof LimitError)) {
+        throw error;
+      }
+      log.warn('Refused call', { peer: call.getPeer(), reason: error.message });
+      const metadata = new grpc.Metadata();
+      metadata.set('retry-after-ms', String(error.retryAfterMs));
+      call.emit('error', { code: grpc.status.RESOURCE_EXHAUSTED, details: error.message, metadata });
+      return false;
+    }
+  }
+
+  /**
+   * Record raw PCM chunks into the session and write them out as WAV when the stream ends
+   */
+  private handleStreamAudio(call: grpc.ServerDuplexStream<AudioChunk, AudioAck>): void {
+    const principal = principalOf(call);
+    let sessionId = '';
+    let sampleRate = config.audio.sampleRate;
+
+    call.on('data', (chunk: AudioChunk) => {
+      try {
+        if (!sessionId) {
+          const existing = this.sessionManager.getSession(chunk.session_id);
+          if (existing && (!existing.belongsTo(principal) || !existing.attach(call))) {
+            throw new Error(`Session ${chunk.session_id} belongs to another connection`);
+          }
+          sampleRate = chunk.sample_rate || config.audio.sampleRate;
+
+          const session = existing || this.sessionManager.createSession(chunk.session_id, principal.id);
+          sessionId = chunk.session_id;
+          session.attach(call);
+          session.setState('recording');
+          session.setAudioFormat(sampleRate);
+          log.info('Recording started', { sessionId });
+        }
+
+        const session = this.sessionManager.getSession(sessionId);
+        if (!session) {
+          throw new Error(`Session ${sessionId} not found`);
+        }
+        metrics.audioBytesReceived.inc({ transport: 'grpc' }, chunk.audio_data.length);
+        if (session.addAudioChunk(chunk.audio_data).status === 'limit_exceeded') {
+          const { maxDuration, maxBytes } = session.getAudioLimits();
+          call.write({
+            session_id: sessionId,
+            success: false,
+            message: `Recording exceeds the ${maxDuration}ms / ${maxBytes} byte limit`,
+          });
+          return;
+        }
+
+        call.write({
+          session_id: sessionId,
+          success: true,
+          message: `Received ${chunk.audio_data.length} bytes`,
+        });
+      } catch (error) {
+        log.error('Error processing audio chunk', { sessionId, error });
+        call.write({
+          session_id: sessionId,
+          success: false,
+          message: `Error: ${error}`,
+        });
+      }
+    });
+
+    call.on('end', () => {
+      const session = sessionId ? this.sessionManager.getSession(sessionId) : undefined;
+      if (session) {
+        try {
+          // Wrap the raw PCM in a WAV header at the stream's sample rate
+          const audio = normalizePcm(session.takeAudioBuffer(), { sampleRate });
+          // Session ids come from the client, so keep them from naming a path
+          const filename = `audio_${encodeURIComponent(sessionId)}_${Date.now()}.wav`;
+          fs.writeFileSync(path.join(this.audioDir, filename), audio.data);
+          session.setState('complete');
+
+          log.info('Recording saved', { sessionId, filename, audioDuration: audio.duration });
+        } catch (error) {
+          log.error('Failed to save recording', { sessionId, error });
+        }
+        session.detach(call);
+      }
+      call.end();
+    });
+
+    // A stream that dies mid-recording lets go of the session, so a new stream can pick it up
+    const release = () => {
+      const session = sessionId ? this.sessionManager.getSession(sessionId) : undefined;
+      session?.orphan(call);
+    };
+
+    call.on('cancelled', () => {
+      release();
+      log.info('Recording cancelled', { sessionId });
+    });
+
+    call.on('error', (error: Error) => {
+      release();
+      log.error('Stream error', { sessionId, error });
+    });
+  }
+
+  /**
+   * Get session manager for direct access if needed
+   */
+  getSessionManager(): SessionManager {
+    return this.sessionManager;
+  }
+
+  /**
+   * Warn Conversation streams the server is going away and wait for replies in flight
+   * until `deadline` (epoch ms). Call SessionManager.drain() first so no new sessions start meanwhile.
+   */
+  async drain(deadline: number): Promise<void> {
+    if (await this.conversationHandler.drain(deadline)) {
+      log.info('Drained');
+    } else {
+      log.warn('Drain deadline reached with replies still in flight');
+    }
+  }
+
+  /**
+   * Stop the server, cancelling any open streams. A session manager passed in
+   * is left running for its owner to stop.
+   */
+  stop(): void {
+    if (this.server) {
+      this.server.forceShutdown();
+      this.server = null;
+      if (this.ownsSessionManager) {
+        this.sessionManager.stop();
+      }
+      log.info('Stopped');
+    }
+  }
+}
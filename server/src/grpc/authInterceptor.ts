@@ -0,0 +1,62 @@
+import * as grpc from '@grpc/grpc-js';
+import { AuthError, Authenticator, Principal, credentialFromHeaders } from '../auth';
+import { clientKey } from '../limits';
+import { createLogger } from '../logging';
+
+const log = createLogger('GrpcAudioServer');
+
+/** Metadata key carrying the authenticated principal from the interceptor to handlers */
+const PRINCIPAL_KEY = 'x-authenticated-principal';
+
+/**
+ * Reject calls without valid `authorization: Bearer <credential>` or `x-api-key`
+ * metadata before they reach a handler, and tag accepted calls with their principal.
+ */
+export function authInterceptor(authenticator: Authenticator): grpc.ServerInterceptor {
+  return (_method, call) => {
+    const listener = new grpc.ServerListenerBuilder()
+      .withOnReceiveMetadata((metadata, next) => {
+        let principal: Principal;
+        try {
+          principal = authenticator.authenticate(credentialFromMetadata(metadata));
+        } catch (error) {
+          const details = error instanceof AuthError ? error.message : 'Authentication failed';
+          log.warn('Rejected call', { peer: call.getPeer(), reason: details });
+          call.sendStatus({ code: grpc.status.UNAUTHENTICATED, details });
+          return;
+        }
+
+        // Overwrite whatever the client sent under our key
+        metadata.set(PRINCIPAL_KEY, JSON.stringify(principal));
+        next(metadata);
+      })
+      .build();
+
+    return new grpc.ServerInterceptingCall(call, { start: (next) => next(listener) });
+  };
+}
+
+/**
+ * The principal the interceptor attached to a call
+ */
+export function principalOf(call: { metadata: grpc.Metadata }): Principal {
+  const [value] = call.metadata.get(PRINCIPAL_KEY);
+  return JSON.parse(String(value));
+}
+
+/**
+ * The key the call's rate limits and quotas are counted under
+ */
+export function clientKeyOf(call: { metadata: grpc.Metadata; getPeer(): string }): string {
+  // Peers look like `ipv4:127.0.0.1:50123` or `ipv6:[::1]:50123`
+  const address = call.getPeer().replace(/^ipv[46]:/, '').replace(/:\d+$/, '');
+  return clientKey(principalOf(call), address);
+}
+
+function credentialFromMetadata(metadata: grpc.Metadata): string | undefined {
+  const header = (key: string) => {
+    const [value] = metadata.get(key);
+    return value === undefined ? undefined : String(value);
+  };
+  return credentialFromHeaders({ authorization: header('authorization'), 'x-api-key': header('x-api-key') });
+}
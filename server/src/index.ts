@@ -1,12 +1,18 @@
-import * as grpc from "@grpc/grpc-js";
-import * as protoLoader from "@grpc/proto-loader";
 import * as fs from "fs";
 import * as path from "path";
 import { AudioStreamApp } from "./app";
 import { WebSocketServer } from "./websocket/WebSocketServer";
+import { GrpcAudioServer } from "./grpc/GrpcAudioServer";
+import { SessionManager } from "./session/SessionManager";
+import { providerRegistry } from "./services/ProviderRegistry";
+import { Authenticator } from "./auth";
+import { UsageLimiter } from "./limits";
+import { ConversationPipeline } from "./pipeline/ConversationPipeline";
 import { config } from "./config/config";
+import { createLogger } from "./logging";
+
+const log = createLogger("Server");
 
-const PROTO_PATH = path.join(__dirname, "../proto/audio.proto");
 const AUDIO_DIR = path.join(__dirname, "../audio_files");
 const UPLOAD_DIR = path.join(__dirname, "../uploads");
 
@@ -17,115 +23,73 @@ const UPLOAD_DIR = path.join(__dirname, "../uploads");
   }
 });
 
-// Load proto file
-const packageDefinition = protoLoader.loadSync(PROTO_PATH, {
-  keepCase: true,
-  longs: String,
-  enums: String,
-  defaults: true,
-  oneofs: true,
-});
-
-const audioProto: any = grpc.loadPackageDefinition(packageDefinition);
-
-// Store active sessions
-const activeSessions: Map<
-  string,
-  { file: fs.WriteStream; startTime: number }
-> = new Map();
-
-// Implement AudioService
-const audioServiceImplementation = {
-  streamAudio: (call: any) => {
-    let sessionId = "";
-
-    call.on("data", (chunk: any) => {
-      try {
-        sessionId = chunk.session_id;
-
-        // Create or get write stream for this session
-        if (!activeSessions.has(sessionId)) {
-          const filename = `audio_${sessionId}_${Date.now()}.pcm`;
-          const filepath = path.join(AUDIO_DIR, filename);
-          const writeStream = fs.createWriteStream(filepath);
-          activeSessions.set(sessionId, {
-            file: writeStream,
-            startTime: Date.now(),
-          });
-          console.log(`[Session ${sessionId}] Started recording to ${filename}`);
-        }
-
-        const session = activeSessions.get(sessionId)!;
-        session.file.write(chunk.audio_data);
-
-        // Send acknowledgment
-        call.write({
-          session_id: sessionId,
-          success: true,
-          message: `Received ${chunk.audio_data.length} bytes`,
-        });
-      } catch (error) {
-        console.error(`Error processing audio chunk: ${error}`);
-        call.write({
-          session_id: sessionId,
-          success: false,
-          message: `Error: ${error}`,
-        });
-      }
-    });
-
-    call.on("end", () => {
-      if (sessionId && activeSessions.has(sessionId)) {
-        const session = activeSessions.get(sessionId)!;
-        session.file.end();
-        const duration = ((Date.now() - session.startTime) / 1000).toFixed(2);
-        console.log(
-          `[Session ${sessionId}] Ended recording. Duration: ${duration}s`
-        );
-        activeSessions.delete(sessionId);
-      }
-      call.end();
-    });
-
-    call.on("error", (error: any) => {
-      console.error(`Stream error: ${error}`);
-      if (sessionId && activeSessions.has(sessionId)) {
-        const session = activeSessions.get(sessionId)!;
-        session.file.destroy();
-        activeSessions.delete(sessionId);
-      }
-    });
-  },
-};
+// WebSocket, gRPC and HTTP clients share sessions, providers, credentials and limits, and one
+// pipeline so a new utterance interrupts the reply in flight whichever transport either came in on
+const sessionManager = new SessionManager();
+const providers = providerRegistry.createProviderSet();
+const authenticator = new Authenticator();
+const limiter = new UsageLimiter();
+const pipeline = new ConversationPipeline(providers, undefined, limiter);
+if (!authenticator.isEnabled()) {
+  log.warn("Authentication is disabled: set API_KEYS or AUTH_JWT_SECRET to require credentials");
+}
 
 // Create and start gRPC server
-const grpcServer = new grpc.Server();
-
-grpcServer.addService(audioProto.audio.AudioService.service, audioServiceImplementation);
-
-const GRPC_PORT = 50051;
-grpcServer.bindAsync(
-  `0.0.0.0:${GRPC_PORT}`,
-  grpc.ServerCredentials.createInsecure(),
-  (error, port) => {
-    if (error) {
-      console.error("Failed to bind gRPC server:", error);
-      process.exit(1);
-    }
-    console.log(`gRPC Server running at 0.0.0.0:${port}`);
-  }
-);
+const grpcServer = new GrpcAudioServer(config.server.grpc.port, providers, sessionManager, {
+  audioDir: AUDIO_DIR,
+  authenticator,
+  limiter,
+  pipeline,
+});
+grpcServer.start().catch((error) => {
+  log.error("Failed to start gRPC server", { error });
+  process.exit(1);
+});
 
 // Create and start HTTP server
-const audioApp = new AudioStreamApp({ uploadDir: UPLOAD_DIR });
+const audioApp = new AudioStreamApp({ uploadDir: UPLOAD_DIR, providers, sessionManager, authenticator, limiter, pipeline });
 const HTTP_PORT = config.server.http.port;
-audioApp.getExpressApp().listen(HTTP_PORT, () => {
-  console.log(`HTTP Server running at http://0.0.0.0:${HTTP_PORT}`);
+const httpServer = audioApp.getExpressApp().listen(HTTP_PORT, () => {
+  log.info("HTTP server started", { port: HTTP_PORT });
 });
 
 // Create and start WebSocket server
-const wsServer = new WebSocketServer();
+const wsServer = new WebSocketServer(config.server.websocket.port, providers, sessionManager, authenticator, limiter, pipeline);
 wsServer.start().catch((error) => {
-  console.error("Failed to start WebSocket server:", error);
+  log.error("Failed to start WebSocket server", { error });
   process.exit(1);
 });
+
+let shuttingDown = false;
+
+/**
+ * Stop taking new sessions, warn connected clients and let replies in flight
+ * finish (up to SHUTDOWN_TIMEOUT), then save sessions and exit
+ */
+async function shutdown(signal: string): Promise<void> {
+  if (shuttingDown) {
+    return;
+  }
+  shuttingDown = true;
+
+  const timeout = config.server.shutdownTimeout;
+  const deadline = Date.now() + timeout;
+  log.info("Draining before shutdown", { signal, timeout });
+  sessionManager.drain();
+
+  const drained = Promise.all([wsServer.drain(deadline), grpcServer.drain(deadline), audioApp.drain()]).then(() => true);
+  const expired = new Promise<boolean>((resolve) => setTimeout(() => resolve(false), timeout).unref());
+  if (!(await Promise.race([drained, expired]))) {
+    log.warn("Shutdown deadline reached; cutting off replies still in flight");
+  }
+
+  wsServer.stop();
+  grpcServer.stop();
+  httpServer.close();
+  httpServer.closeAllConnections();
+  sessionManager.stop();
+  process.exit(0);
+}
+
+process.on("SIGTERM", () => shutdown("SIGTERM"));
+process.on("SIGINT", () => shutdown("SIGINT"));
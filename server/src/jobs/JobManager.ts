@@ -0,0 +1,214 @@
+import { randomUUID } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { SessionManager } from '../session/SessionManager';
+import { ConversationPipeline, PipelineListener, ProcessOptions } from '../pipeline/ConversationPipeline';
+import { AUDIO_EXTENSIONS, concatWav, detectAudioFormat } from '../audio';
+import { config } from '../config/config';
+import { ErrorCode } from '../protocol';
+import { Logger, createLogger } from '../logging';
+
+const log = createLogger('JobManager');
+
+export type JobStatus = 'queued' | 'processing' | 'completed' | 'failed';
+
+export interface JobResult {
+  transcript: string;
+  responseText: string;
+  turnIndex: number;
+  /** Synthesized reply on disk, or null when no speech was produced */
+  audioPath: string | null;
+}
+
+export interface Job {
+  id: string;
+  sessionId: string;
+  /** Principal that submitted the recording; owns the session if it has to be recreated */
+  principalId: string | null;
+  status: JobStatus;
+  createdAt: number;
+  completedAt: number | null;
+  result: JobResult | null;
+  error: { code: ErrorCode; message: string } | null;
+}
+
+export interface SubmitOptions extends Omit<ProcessOptions, 'format'> {
+  principalId?: string | null;
+}
+
+/**
+ * Runs uploaded recordings through the conversation pipeline in the background.
+ * Jobs for the same session run one after another so each reply sees the previous turn.
+ */
+export class JobManager {
+  private sessionManager: SessionManager;
+  private pipeline: ConversationPipeline;
+  private outputDir: string;
+  private retention: number;
+  private jobs = new Map<string, Job>();
+  private done = new Map<string, Promise<void>>();
+  private sessionQueues = new Map<string, Promise<void>>();
+
+  constructor(
+    sessionManager: SessionManager,
+    pipeline: ConversationPipeline,
+    outputDir: string,
+    retention: number = config.jobs.retention
+  ) {
+    this.sessionManager = sessionManager;
+    this.pipeline = pipeline;
+    this.outputDir = outputDir;
+    this.retention = retention;
+  }
+
+  /**
+   * Queue a recording for processing; `audio` must already be normalized.
+   * `audioRef` names the stored upload so the conversation turn can point at it,
+   * `clientKey` the client whose quota it counts against, `principalId` who submitted it
+   * and `log` the request it came from.
+   */
+  submit(sessionId: string, audio: Buffer, options: SubmitOptions = {}): Job {
+    this.pruneExpiredJobs();
+
+    const { principalId = null, ...processOptions } = options;
+    const job: Job = {
+      id: randomUUID(),
+      sessionId,
+      principalId,
+      status: 'queued',
+      createdAt: Date.now(),
+      completedAt: null,
+      result: null,
+      error: null,
+    };
+    this.jobs.set(job.id, job);
+    const jobLog = (processOptions.log?.withScope('JobManager') ?? log).child({ jobId: job.id, sessionId });
+
+    const previous = this.sessionQueues.get(sessionId) ?? Promise.resolve();
+    const done = previous.then(() => this.run(job, audio, { ...processOptions, log: jobLog })).catch((error) => {
+      jobLog.error('Job crashed', { error });
+      this.fail(job, 'PROCESSING_ERROR', 'Failed to process audio', jobLog);
+    });
+    this.done.set(job.id, done);
+    this.sessionQueues.set(sessionId, done);
+    done.then(() => {
+      this.done.delete(job.id);
+      if (this.sessionQueues.get(sessionId) === done) {
+        this.sessionQueues.delete(sessionId);
+      }
+    });
+
+    jobLog.info('Job queued');
+    return job;
+  }
+
+  getJob(id: string): Job | undefined {
+    return this.jobs.get(id);
+  }
+
+  /**
+   * Resolve once the job has completed or failed
+   */
+  async wait(id: string): Promise<Job | undefined> {
+    await this.done.get(id);
+    return this.jobs.get(id);
+  }
+
+  /**
+   * Resolve once every queued job has finished
+   */
+  async drain(): Promise<void> {
+    await Promise.all(this.sessionQueues.values());
+  }
+
+  private async run(job: Job, audio: Buffer, options: Omit<ProcessOptions, 'format'>): Promise<void> {
+    job.status = 'processing';
+    const jobLog = options.log ?? log.child({ jobId: job.id });
+    // The session may have expired while the job was queued; recreate it for the same owner
+    const session = this.sessionManager.getSession(job.sessionId) || this.sessionManager.createSession(job.sessionId, job.principalId);
+
+    let transcript = '';
+    let turnIndex = -1;
+    let responseText = '';
+    const segments = new Map<number, Buffer[]>();
+
+    const listener: PipelineListener = {
+      onEvent: (type, data) => {
+        switch (type) {
+          case 'transcript.complete':
+            transcript = data.transcript;
+            turnIndex = data.turnIndex;
+            break;
+          case 'llm.complete':
+            responseText = data.fullText;
+            break;
+          case 'audio.chunk': {
+            const chunks = segments.get(data.segmentIndex) ?? [];
+            chunks.push(data.chunk);
+            segments.set(data.segmentIndex, chunks);
+            break;
+          }
+        }
+      },
+      onInterrupted: () => this.fail(job, 'PROCESSING_ERROR', 'Interrupted by a newer request for the session', jobLog),
+      onError: (code, message) => this.fail(job, code, message, jobLog),
+    };
+
+    await this.pipeline.process(session, audio, listener, 'upload', { ...options, format: {} });
+    if (job.status !== 'processing') {
+      return;
+    }
+
+    try {
+      const audioPath = this.writeReplyAudio(job, segments);
+      job.result = { transcript, responseText, turnIndex, audioPath };
+      job.status = 'completed';
+      job.completedAt = Date.now();
+      jobLog.info('Job completed');
+    } catch (error) {
+      jobLog.error('Failed to save reply audio', { error });
+      this.fail(job, 'PROCESSING_ERROR', 'Failed to save reply audio', jobLog);
+    }
+  }
+
+  /**
+   * Join the reply's TTS segments into one file; WAV segments are merged under a single header
+   */
+  private writeReplyAudio(job: Job, segments: Map<number, Buffer[]>): string | null {
+    const files = Array.from(segments.keys())
+      .sort((a, b) => a - b)
+      .map((index) => Buffer.concat(segments.get(index)!));
+    if (files.length === 0) {
+      return null;
+    }
+
+    const format = detectAudioFormat(files[0]);
+    const audio = format === 'wav' ? concatWav(files) : Buffer.concat(files);
+    const audioPath = path.join(this.outputDir, `reply_${job.id}${AUDIO_EXTENSIONS[format]}`);
+    fs.writeFileSync(audioPath, audio);
+    return audioPath;
+  }
+
+  private fail(job: Job, code: ErrorCode, message: string, jobLog: Logger): void {
+    job.status = 'failed';
+    job.error = { code, message };
+    job.completedAt = Date.now();
+    jobLog.error('Job failed', { code, reason: message });
+  }
+
+  /**
+   * Forget finished jobs older than the retention period, along with their audio
+   */
+  private pruneExpiredJobs(): void {
+    const cutoff = Date.now() - this.retention;
+    for (const [id, job] of this.jobs) {
+      if (job.completedAt === null || job.completedAt > cutoff) {
+        continue;
+      }
+      if (job.result?.audioPath && fs.existsSync(job.result.audioPath)) {
+        fs.unlinkSync(job.result.audioPath);
+      }
+      this.jobs.delete(id);
+    }
+  }
+}
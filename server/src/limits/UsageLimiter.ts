@@ -0,0 +1,183 @@
+import { config } from '../config/config';
+import type { Principal } from '../auth';
+
+/** What a token bucket limits */
+export type RateLimitKind = 'messages' | 'runs' | 'uploads' | 'streams' | 'partials';
+
+export interface BucketOptions {
+  /** Largest burst; 0 turns the limit off */
+  capacity: number;
+  refillPerSecond: number;
+}
+
+export interface UsageLimitOptions {
+  rates: Record<RateLimitKind, BucketOptions>;
+  /** Audio seconds transcribed per client per UTC day; 0 means unlimited */
+  dailyAudioSeconds: number;
+  /** Characters synthesized per client per UTC day; 0 means unlimited */
+  dailyTtsCharacters: number;
+}
+
+/** Usage counted against a client's daily quota */
+export interface Usage {
+  audioSeconds: number;
+  ttsCharacters: number;
+}
+
+/** Thrown when a client is over a rate limit or has used up its daily quota */
+export class LimitError extends Error {
+  constructor(
+    public readonly code: 'RATE_LIMITED' | 'QUOTA_EXCEEDED',
+    message: string,
+    /** How long (ms) until the request would be allowed */
+    public readonly retryAfterMs: number
+  ) {
+    super(message);
+    this.name = 'LimitError';
+  }
+
+  /** Whole seconds, for `Retry-After` headers */
+  get retryAfterSeconds(): number {
+    return Math.max(1, Math.ceil(this.retryAfterMs / 1000));
+  }
+}
+
+/** Idle buckets are dropped this often (ms) so the map doesn't grow with every client seen */
+const SWEEP_INTERVAL = 60000;
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+interface DailyUsage extends Usage {
+  day: string;
+}
+
+/**
+ * Per-client token buckets and daily quotas, shared by every transport so a
+ * client can't dodge its limits by switching from WebSocket to HTTP or gRPC.
+ */
+export class UsageLimiter {
+  private options: UsageLimitOptions;
+  private now: () => number;
+  private buckets = new Map<string, Bucket>();
+  private usage = new Map<string, DailyUsage>();
+  private lastSweep: number;
+
+  constructor(options: UsageLimitOptions = config.limits, now: () => number = Date.now) {
+    this.options = options;
+    this.now = now;
+    this.lastSweep = now();
+  }
+
+  /**
+   * Take one token from the client's bucket; throws LimitError when it is empty
+   */
+  consume(kind: RateLimitKind, clientKey: string): void {
+    const { capacity, refillPerSecond } = this.options.rates[kind];
+    if (capacity <= 0) {
+      return;
+    }
+
+    const now = this.now();
+    this.sweep(now);
+
+    const key = `${kind}:${clientKey}`;
+    const bucket = this.buckets.get(key) ?? { tokens: capacity, updatedAt: now };
+    bucket.tokens = Math.min(capacity, bucket.tokens + ((now - bucket.updatedAt) / 1000) * refillPerSecond);
+    bucket.updatedAt = now;
+    this.buckets.set(key, bucket);
+
+    if (bucket.tokens < 1) {
+      const retryAfterMs = refillPerSecond > 0 ? Math.ceil(((1 - bucket.tokens) / refillPerSecond) * 1000) : Infinity;
+      throw new LimitError('RATE_LIMITED', `Too many ${kind}; slow down`, retryAfterMs);
+    }
+    bucket.tokens -= 1;
+  }
+
+  /**
+   * Throw LimitError when the client has used up either daily quota
+   */
+  checkQuota(clientKey: string): void {
+    const usage = this.getUsage(clientKey);
+    const { dailyAudioSeconds, dailyTtsCharacters } = this.options;
+
+    let exceeded: string | null = null;
+    if (dailyAudioSeconds > 0 && usage.audioSeconds >= dailyAudioSeconds) {
+      exceeded = `${dailyAudioSeconds} seconds of audio`;
+    } else if (dailyTtsCharacters > 0 && usage.ttsCharacters >= dailyTtsCharacters) {
+      exceeded = `${dailyTtsCharacters} characters of speech`;
+    }
+
+    if (exceeded) {
+      throw new LimitError('QUOTA_EXCEEDED', `Daily quota of ${exceeded} used up`, this.untilTomorrow());
+    }
+  }
+
+  /**
+   * Count work done for a client against today's quota
+   */
+  recordUsage(clientKey: string, usage: Partial<Usage>): void {
+    const today = this.today(clientKey);
+    today.audioSeconds += usage.audioSeconds ?? 0;
+    today.ttsCharacters += usage.ttsCharacters ?? 0;
+  }
+
+  /**
+   * What the client has used so far today
+   */
+  getUsage(clientKey: string): Usage {
+    const { audioSeconds, ttsCharacters } = this.today(clientKey);
+    return { audioSeconds, ttsCharacters };
+  }
+
+  private today(clientKey: string): DailyUsage {
+    const day = new Date(this.now()).toISOString().slice(0, 10);
+    let usage = this.usage.get(clientKey);
+    if (!usage || usage.day !== day) {
+      usage = { day, audioSeconds: 0, ttsCharacters: 0 };
+      this.usage.set(clientKey, usage);
+    }
+    return usage;
+  }
+
+  private untilTomorrow(): number {
+    const now = this.now();
+    const midnight = new Date(now);
+    midnight.setUTCHours(24, 0, 0, 0);
+    return midnight.getTime() - now;
+  }
+
+  /**
+   * Forget buckets that have refilled completely and usage from earlier days
+   */
+  private sweep(now: number): void {
+    if (now - this.lastSweep < SWEEP_INTERVAL) {
+      return;
+    }
+    this.lastSweep = now;
+
+    for (const [key, bucket] of this.buckets) {
+      const { capacity, refillPerSecond } = this.options.rates[key.slice(0, key.indexOf(':')) as RateLimitKind];
+      if (bucket.tokens + ((now - bucket.updatedAt) / 1000) * refillPerSecond >= capacity) {
+        this.buckets.delete(key);
+      }
+    }
+
+    const day = new Date(now).toISOString().slice(0, 10);
+    for (const [key, usage] of this.usage) {
+      if (usage.day !== day) {
+        this.usage.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * The key a client's limits are counted under: its principal once authenticated,
+ * otherwise its address
+ */
+export function clientKey(principal: Principal, address: string | undefined): string {
+  return principal.method === 'anonymous' ? `ip:${address ?? 'unknown'}` : `principal:${principal.id}`;
+}
@@ -0,0 +1,173 @@
+import { config } from '../config/config';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/** Lowest level written; `silent` writes nothing */
+export type LogThreshold = LogLevel | 'silent';
+
+/** `json` writes one object per line for log collectors; `text` is for reading in a terminal */
+export type LogFormat = 'json' | 'text';
+
+/** Structured data logged with a message, correlation ids included */
+export type LogFields = Record<string, unknown>;
+
+/** Which user data to keep out of the logs */
+export interface RedactionPolicy {
+  /** What the user said, final and interim */
+  transcripts: boolean;
+  /** What the assistant replied, including the text sent to speech */
+  responses: boolean;
+  /** Audio sizes and durations, which give away how long someone spoke */
+  audioSizes: boolean;
+}
+
+export interface LoggerOptions {
+  level: LogThreshold;
+  format: LogFormat;
+  redact: RedactionPolicy;
+  /** Defaults to the sink given to `setLogSink`, stdout and stderr unless changed */
+  sink?: LogSink;
+}
+
+/** Where finished lines go */
+export type LogSink = (line: string, level: LogLevel) => void;
+
+const LEVELS: Record<LogThreshold, number> = { debug: 10, info: 20, warn: 30, error: 40, silent: Infinity };
+
+/**
+ * Warnings and errors to stderr, everything else to stdout
+ */
+export const stdioSink: LogSink = (line, level) => {
+  const stream = level === 'error' || level === 'warn' ? process.stderr : process.stdout;
+  stream.write(line + '\n');
+};
+
+let defaultSink: LogSink = stdioSink;
+
+/**
+ * Send the lines of every logger without a sink of its own to `sink`
+ */
+export function setLogSink(sink: LogSink): void {
+  defaultSink = sink;
+}
+
+/**
+ * Fields that carry user data. Log it only under these names, never inside
+ * the message, so the policy can take it out.
+ */
+const SENSITIVE_FIELDS: Record<keyof RedactionPolicy, readonly string[]> = {
+  transcripts: ['transcript'],
+  responses: ['response'],
+  audioSizes: ['audioBytes', 'audioDuration'],
+};
+
+const REDACTED = '[redacted]';
+
+/**
+ * Leveled logger whose context (scope and correlation ids such as
+ * `connectionId`, `sessionId`, `requestId` or `runId`) goes on every entry.
+ * Options are read on each call, so changes to `config.logging` apply at once.
+ */
+export class Logger {
+  private scope: string;
+  private context: LogFields;
+  private options: LoggerOptions | undefined;
+
+  constructor(scope: string, context: LogFields = {}, options?: LoggerOptions) {
+    this.scope = scope;
+    this.context = context;
+    this.options = options;
+  }
+
+  /**
+   * A logger that adds `context` to every entry, e.g. the ids of a session or request
+   */
+  child(context: LogFields): Logger {
+    return new Logger(this.scope, { ...this.context, ...context }, this.options);
+  }
+
+  /**
+   * The same context logged under another component's name
+   */
+  withScope(scope: string): Logger {
+    return new Logger(scope, this.context, this.options);
+  }
+
+  debug(message: string, fields?: LogFields): void {
+    this.write('debug', message, fields);
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.write('info', message, fields);
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.write('warn', message, fields);
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.write('error', message, fields);
+  }
+
+  isEnabled(level: LogLevel): boolean {
+    const { level: threshold } = this.options ?? config.logging;
+    return LEVELS[level] >= (LEVELS[threshold] ?? LEVELS.info);
+  }
+
+  private write(level: LogLevel, message: string, fields: LogFields = {}): void {
+    if (!this.isEnabled(level)) {
+      return;
+    }
+
+    const options: LoggerOptions = this.options ?? config.logging;
+    const entry: LogFields = {
+      time: new Date().toISOString(),
+      level,
+      scope: this.scope,
+      message,
+      ...redact({ ...this.context, ...fields }, options.redact),
+    };
+    const line = options.format === 'text' ? formatText(entry) : JSON.stringify(entry, serialize);
+
+    (options.sink ?? defaultSink)(line, level);
+  }
+}
+
+/**
+ * Logger for a component, named like its class
+ */
+export function createLogger(scope: string, context: LogFields = {}): Logger {
+  return new Logger(scope, context);
+}
+
+function redact(fields: LogFields, policy: RedactionPolicy): LogFields {
+  const result = { ...fields };
+  for (const category of Object.keys(SENSITIVE_FIELDS) as (keyof RedactionPolicy)[]) {
+    if (!policy[category]) {
+      continue;
+    }
+    for (const name of SENSITIVE_FIELDS[category]) {
+      if (name in result) {
+        result[name] = REDACTED;
+      }
+    }
+  }
+  return result;
+}
+
+/** Errors lose their message and stack in JSON.stringify */
+function serialize(_key: string, value: unknown): unknown {
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message, stack: value.stack };
+  }
+  return value;
+}
+
+function formatText(entry: LogFields): string {
+  const { time, level, scope, message, error, ...fields } = entry;
+  const details = Object.entries(fields)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${key}=${typeof value === 'string' ? value : JSON.stringify(value)}`);
+  const line = `${time} ${String(level).toUpperCase()} [${scope}] ${message}${details.length ? ' ' + details.join(' ') : ''}`;
+  return error instanceof Error ? `${line}\n${error.stack}` : error !== undefined ? `${line} error=${String(error)}` : line;
+}
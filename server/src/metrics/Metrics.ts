@@ -0,0 +1,203 @@
+/** Label values of one series, e.g. `{ transport: 'websocket' }` */
+export type Labels = Record<string, string>;
+
+type MetricType = 'counter' | 'gauge' | 'histogram';
+
+/** Latency buckets in seconds, from a fast partial transcript to a slow synthesis */
+export const DEFAULT_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+/**
+ * A named metric holding one series per distinct set of label values
+ */
+abstract class Metric<T> {
+  protected series = new Map<string, { labels: Labels; value: T }>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly type: MetricType
+  ) {}
+
+  /**
+   * Lines of the Prometheus text exposition format
+   */
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${escapeHelp(this.help)}`, `# TYPE ${this.name} ${this.type}`];
+    for (const { labels, value } of this.series.values()) {
+      lines.push(...this.renderSeries(labels, value));
+    }
+    return lines;
+  }
+
+  reset(): void {
+    this.series.clear();
+  }
+
+  protected abstract renderSeries(labels: Labels, value: T): string[];
+
+  protected seriesFor(labels: Labels, initial: () => T): { labels: Labels; value: T } {
+    const key = seriesKey(labels);
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = { labels: { ...labels }, value: initial() };
+      this.series.set(key, entry);
+    }
+    return entry;
+  }
+}
+
+/** A total that only goes up, e.g. bytes received or errors sent */
+export class Counter extends Metric<number> {
+  constructor(name: string, help: string) {
+    super(name, help, 'counter');
+  }
+
+  inc(labels: Labels = {}, value = 1): void {
+    this.seriesFor(labels, () => 0).value += value;
+  }
+
+  get(labels: Labels = {}): number {
+    return this.series.get(seriesKey(labels))?.value ?? 0;
+  }
+
+  protected renderSeries(labels: Labels, value: number): string[] {
+    return [`${this.name}${formatLabels(labels)} ${value}`];
+  }
+}
+
+/** A value that goes up and down, e.g. open connections */
+export class Gauge extends Metric<number> {
+  constructor(name: string, help: string) {
+    super(name, help, 'gauge');
+  }
+
+  set(labels: Labels, value: number): void {
+    this.seriesFor(labels, () => 0).value = value;
+  }
+
+  inc(labels: Labels = {}, value = 1): void {
+    this.seriesFor(labels, () => 0).value += value;
+  }
+
+  dec(labels: Labels = {}, value = 1): void {
+    this.inc(labels, -value);
+  }
+
+  get(labels: Labels = {}): number {
+    return this.series.get(seriesKey(labels))?.value ?? 0;
+  }
+
+  protected renderSeries(labels: Labels, value: number): string[] {
+    return [`${this.name}${formatLabels(labels)} ${value}`];
+  }
+}
+
+interface HistogramValue {
+  /** Observations in each bucket alone; rendering accumulates them */
+  counts: number[];
+  sum: number;
+  count: number;
+}
+
+/** Distribution of observed values, e.g. latencies in seconds */
+export class Histogram extends Metric<HistogramValue> {
+  private buckets: number[];
+
+  constructor(name: string, help: string, buckets: number[] = DEFAULT_BUCKETS) {
+    super(name, help, 'histogram');
+    this.buckets = [...buckets].sort((a, b) => a - b);
+  }
+
+  observe(labels: Labels, value: number): void {
+    const series = this.seriesFor(labels, () => ({ counts: this.buckets.map(() => 0), sum: 0, count: 0 })).value;
+    const bucket = this.buckets.findIndex((bound) => value <= bound);
+    if (bucket !== -1) {
+      series.counts[bucket]++;
+    }
+    series.sum += value;
+    series.count++;
+  }
+
+  /**
+   * Start timing; the returned function observes the seconds elapsed
+   */
+  startTimer(labels: Labels = {}): () => void {
+    const startedAt = Date.now();
+    return () => this.observe(labels, (Date.now() - startedAt) / 1000);
+  }
+
+  getCount(labels: Labels = {}): number {
+    return this.series.get(seriesKey(labels))?.value.count ?? 0;
+  }
+
+  protected renderSeries(labels: Labels, value: HistogramValue): string[] {
+    let cumulative = 0;
+    const lines = this.buckets.map((bound, i) => {
+      cumulative += value.counts[i];
+      return `${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${cumulative}`;
+    });
+    lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${value.count}`);
+    lines.push(`${this.name}_sum${formatLabels(labels)} ${value.sum}`);
+    lines.push(`${this.name}_count${formatLabels(labels)} ${value.count}`);
+    return lines;
+  }
+}
+
+/**
+ * Metrics exposed together on one scrape endpoint
+ */
+export class MetricsRegistry {
+  private metrics = new Map<string, Metric<unknown>>();
+
+  counter(name: string, help: string): Counter {
+    return this.register(new Counter(name, help));
+  }
+
+  gauge(name: string, help: string): Gauge {
+    return this.register(new Gauge(name, help));
+  }
+
+  histogram(name: string, help: string, buckets?: number[]): Histogram {
+    return this.register(new Histogram(name, help, buckets));
+  }
+
+  /**
+   * Every metric in the Prometheus text exposition format
+   */
+  render(): string {
+    return Array.from(this.metrics.values(), (metric) => metric.render().join('\n')).join('\n') + '\n';
+  }
+
+  /**
+   * Drop every recorded series (useful for testing)
+   */
+  reset(): void {
+    this.metrics.forEach((metric) => metric.reset());
+  }
+
+  private register<M extends Metric<any>>(metric: M): M {
+    if (this.metrics.has(metric.name)) {
+      throw new Error(`Metric ${metric.name} is already registered`);
+    }
+    this.metrics.set(metric.name, metric);
+    return metric;
+  }
+}
+
+/** Content type of `MetricsRegistry.render()` */
+export const METRICS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+function seriesKey(labels: Labels): string {
+  return JSON.stringify(Object.keys(labels).sort().map((name) => [name, labels[name]]));
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.keys(labels)
+    .sort()
+    .map((name) => `${name}="${labels[name].replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`);
+  return pairs.length ? `{${pairs.join(',')}}` : '';
+}
+
+function escapeHelp(help: string): string {
+  return help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n');
+}
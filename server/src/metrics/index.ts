@@ -0,0 +1,2 @@
+export * from './Metrics';
+export * from './registry';
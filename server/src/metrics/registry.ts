@@ -0,0 +1,41 @@
+import { MetricsRegistry } from './Metrics';
+
+/** Metrics of this process, served on `GET /metrics` */
+export const registry = new MetricsRegistry();
+
+/**
+ * Instruments shared by the HTTP, WebSocket and gRPC servers. Labels:
+ * `transport` is `http`, `websocket` or `grpc`; `provider` names the engine.
+ */
+export const metrics = {
+  activeConnections: registry.gauge(
+    'audio_stream_active_connections',
+    'Open WebSocket connections and gRPC conversation streams, by transport'
+  ),
+  activeSessions: registry.gauge('audio_stream_active_sessions', 'Sessions a WebSocket connection or gRPC stream is driving'),
+  audioBytesReceived: registry.counter(
+    'audio_stream_audio_received_bytes_total',
+    'Audio received from clients in bytes, by transport'
+  ),
+  sttLatency: registry.histogram(
+    'audio_stream_stt_latency_seconds',
+    'Time to transcribe audio, by provider and mode (final or partial)'
+  ),
+  llmTimeToFirstToken: registry.histogram(
+    'audio_stream_llm_time_to_first_token_seconds',
+    'Time from requesting a reply to its first token, by provider'
+  ),
+  timeToFirstAudio: registry.histogram(
+    'audio_stream_time_to_first_audio_seconds',
+    'Time from the end of an utterance to the first byte of the spoken reply sent, by transport'
+  ),
+  ttsLatency: registry.histogram(
+    'audio_stream_tts_latency_seconds',
+    'Time from requesting speech to receiving all of its audio, by provider'
+  ),
+  errors: registry.counter('audio_stream_errors_total', 'Errors reported to clients, by transport and code'),
+  providerCalls: registry.counter(
+    'audio_stream_provider_calls_total',
+    'Calls to speech and language model providers, by provider, operation and outcome'
+  ),
+};
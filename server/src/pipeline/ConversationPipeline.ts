@@ -0,0 +1,210 @@
+import { randomUUID } from 'crypto';
+import { ProviderSet } from '../services/providers';
+import { ConversationMemory } from '../session/ConversationMemory';
+import { Session } from '../session/Session';
+import { NormalizeOptions, estimateDuration, normalizeAudio } from '../audio';
+import { DeliveryProgress, ErrorCode } from '../protocol';
+import { LimitError, UsageLimiter } from '../limits';
+import { PipelineEmitter, PipelineRun } from './PipelineRun';
+import { Logger, createLogger } from '../logging';
+
+const log = createLogger('ConversationPipeline');
+
+/**
+ * Where a transport receives the output of the runs it starts
+ */
+export interface PipelineListener {
+  /** Pipeline events; `audio.chunk` data carries the raw audio as a Buffer */
+  onEvent: PipelineEmitter;
+  /** The run was cut off; `progress` is exactly what had been delivered */
+  onInterrupted(reason: string, progress: DeliveryProgress): void;
+  /** `retryAfterMs` comes with QUOTA_EXCEEDED */
+  onError(code: ErrorCode, message: string, retryAfterMs?: number): void;
+}
+
+export interface ProcessOptions {
+  /** How to read the audio; defaults to a stream whose header may carry placeholder sizes */
+  format?: NormalizeOptions;
+  /** Stored recording of the utterance, kept with its conversation turn */
+  audioRef?: string;
+  /** Client whose daily quota the run counts against */
+  clientKey?: string;
+  /** Carries the caller's correlation ids; the run adds `sessionId` and `runId` */
+  log?: Logger;
+}
+
+interface ActiveRun {
+  run: PipelineRun;
+  session: Session;
+  listener: PipelineListener;
+  log: Logger;
+}
+
+/**
+ * Runs utterances through speech → chat → speech for any transport.
+ * Each session has at most one run in flight; a new utterance interrupts it.
+ */
+export class ConversationPipeline {
+  private providers: ProviderSet;
+  private memory: ConversationMemory;
+  private limiter: UsageLimiter;
+  private activeRuns = new Map<string, ActiveRun>();
+  // Every process() call still under way, interrupted ones included
+  private inFlight = new Set<Promise<void>>();
+
+  constructor(
+    providers: ProviderSet,
+    memory: ConversationMemory = new ConversationMemory(),
+    limiter: UsageLimiter = new UsageLimiter()
+  ) {
+    this.providers = providers;
+    this.memory = memory;
+    this.limiter = limiter;
+  }
+
+  getProviders(): ProviderSet {
+    return this.providers;
+  }
+
+  /**
+   * Transcribe one recorded utterance and stream the reply.
+   * Resolves once the run has finished, failed or been interrupted; errors go to the listener.
+   */
+  async process(
+    session: Session,
+    audioBuffer: Buffer,
+    listener: PipelineListener,
+    reason: string,
+    options: ProcessOptions = {}
+  ): Promise<void> {
+    const work = this.execute(session, audioBuffer, listener, reason, options);
+    this.inFlight.add(work);
+    try {
+      await work;
+    } finally {
+      this.inFlight.delete(work);
+    }
+  }
+
+  /**
+   * Resolve once no utterance is being processed, including ones started while waiting,
+   * or at `deadline` (epoch ms); true when everything finished in time
+   */
+  async drain(deadline = Infinity): Promise<boolean> {
+    const idle = (async () => {
+      while (this.inFlight.size > 0) {
+        await Promise.allSettled(this.inFlight);
+      }
+      return true;
+    })();
+    if (deadline === Infinity) {
+      return idle;
+    }
+
+    let timer: NodeJS.Timeout | undefined;
+    const expired = new Promise<boolean>((resolve) => {
+      timer = setTimeout(() => resolve(false), Math.max(0, deadline - Date.now()));
+    });
+    try {
+      return await Promise.race([idle, expired]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private async execute(
+    session: Session,
+    audioBuffer: Buffer,
+    listener: PipelineListener,
+    reason: string,
+    options: ProcessOptions
+  ): Promise<void> {
+    const sessionId = session.sessionId;
+    const { clientKey } = options;
+    const runLog = (options.log?.withScope('ConversationPipeline') ?? log).child({ sessionId, runId: randomUUID() });
+
+    // Clients over their daily quota get no more replies, and the current one keeps playing
+    if (clientKey) {
+      try {
+        this.limiter.checkQuota(clientKey);
+      } catch (error) {
+        if (!(error instanceof LimitError)) {
+          throw error;
+        }
+        runLog.warn('Refused utterance', { code: error.code, reason: error.message });
+        listener.onError(error.code, error.message, error.retryAfterMs);
+        return;
+      }
+    }
+
+    // A new utterance replaces any response still in flight
+    this.interrupt(sessionId, reason);
+
+    const run = new PipelineRun(session, this.providers, this.memory, listener.onEvent, runLog);
+    this.activeRuns.set(sessionId, { run, session, listener, log: runLog });
+
+    let transcript: string;
+    try {
+      session.setState('processing');
+      runLog.info('Processing utterance', { reason, audioBytes: audioBuffer.length });
+
+      // Step 1: Transcribe audio, repairing headers captured before recording finished
+      const audio = normalizeAudio(audioBuffer, options.format ?? { streamed: true });
+      if (clientKey) {
+        // Compressed audio that doesn't state its length is charged by size
+        this.limiter.recordUsage(clientKey, { audioSeconds: audio.duration ?? estimateDuration(audio.data, audio.format) });
+      }
+      transcript = await run.transcribe(audio.data, options.audioRef);
+      runLog.info('Transcribed utterance', { transcript, audioDuration: audio.duration });
+    } catch (error) {
+      this.finishRun(sessionId, run);
+      if (run.isAborted()) {
+        return;
+      }
+      runLog.error('Error transcribing audio', { error });
+      listener.onError('AUDIO_END_ERROR', 'Failed to process audio');
+      return;
+    }
+
+    // Steps 2 and 3: stream the reply and its speech
+    try {
+      await run.respond(transcript);
+      session.setState('complete');
+      runLog.info('Response complete');
+    } catch (error) {
+      if (!run.isAborted()) {
+        runLog.error('Error processing response', { error });
+        listener.onError('PROCESSING_ERROR', 'Error processing audio response');
+      }
+    } finally {
+      this.finishRun(sessionId, run);
+      if (clientKey) {
+        this.limiter.recordUsage(clientKey, { ttsCharacters: run.getCharactersSynthesized() });
+      }
+    }
+  }
+
+  /**
+   * Abort the session's in-flight run, if any, and tell its listener what was delivered
+   */
+  interrupt(sessionId: string, reason: string): boolean {
+    const active = this.activeRuns.get(sessionId);
+    if (!active || active.run.isComplete()) {
+      return false;
+    }
+
+    const progress = active.run.abort();
+    this.activeRuns.delete(sessionId);
+    active.session.setState('recording');
+    active.listener.onInterrupted(reason, progress);
+
+    active.log.info('Response interrupted', { reason, stage: progress.stage });
+    return true;
+  }
+
+  private finishRun(sessionId: string, run: PipelineRun): void {
+    if (this.activeRuns.get(sessionId)?.run === run) {
+      this.activeRuns.delete(sessionId);
+    }
+  }
+}
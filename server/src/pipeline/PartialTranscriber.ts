@@ -0,0 +1,219 @@
+import { config } from '../config/config';
+import { findPcmOffset, normalizeAudio } from '../audio';
+import { LimitError, UsageLimiter } from '../limits';
+import { SpeechToTextProvider } from '../services/providers';
+import { Session } from '../session/Session';
+import { Logger, createLogger } from '../logging';
+
+export interface PartialTranscript {
+  text: string;
+  /** Leading words that consecutive hypotheses agree on; they are not expected to change */
+  stable: string;
+  /** Trailing words that may still be revised */
+  unstable: string;
+}
+
+export interface PartialTranscriberOptions {
+  interval?: number;
+  windowDuration?: number;
+  minAudioDuration?: number;
+  /** Charges each request to `clientKey`'s rate limit and audio quota */
+  limiter?: UsageLimiter;
+  clientKey?: string;
+  /** Carries the session's correlation ids */
+  log?: Logger;
+}
+
+/**
+ * Periodically re-transcribes the audio a session has received so far.
+ * Each request covers at most one window of audio; once a window is full, its
+ * last hypothesis is committed and the next window starts where it ended.
+ */
+export class PartialTranscriber {
+  private session: Session;
+  private stt: SpeechToTextProvider;
+  private onPartial: (partial: PartialTranscript) => void;
+  private interval: number;
+  private windowBytes: number;
+  private minAudioBytes: number;
+  private bytesPerSecond: number;
+  private limiter: UsageLimiter | null;
+  private clientKey: string | undefined;
+  private timer: NodeJS.Timeout | null = null;
+  private controller: AbortController | null = null;
+  private header: Buffer | null = null;
+  private committedText = '';
+  private windowStart = 0;
+  private windowEnd = 0;
+  private windowText = '';
+  private previousWords: string[] = [];
+  private lastPartial: PartialTranscript | null = null;
+  private generation = 0;
+  private log: Logger;
+
+  constructor(
+    session: Session,
+    stt: SpeechToTextProvider,
+    onPartial: (partial: PartialTranscript) => void,
+    options: PartialTranscriberOptions = {}
+  ) {
+    this.session = session;
+    this.stt = stt;
+    this.onPartial = onPartial;
+    this.interval = options.interval ?? config.transcription.partialInterval;
+    this.limiter = options.limiter ?? null;
+    this.clientKey = options.clientKey;
+    this.log = options.log?.withScope('PartialTranscriber') ?? createLogger('PartialTranscriber', { sessionId: session.sessionId });
+
+    this.bytesPerSecond = config.audio.sampleRate * config.audio.channels * 2;
+    const bytesPerMs = this.bytesPerSecond / 1000;
+    this.windowBytes = Math.round((options.windowDuration ?? config.transcription.partialWindow) * bytesPerMs);
+    this.minAudioBytes = Math.round((options.minAudioDuration ?? config.transcription.minPartialAudio) * bytesPerMs);
+  }
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => {
+      this.transcribeNow().catch((error) => {
+        this.log.error('Interim transcription failed', { error });
+      });
+    }, this.interval);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.reset();
+  }
+
+  /**
+   * Forget the current utterance, e.g. once it has been handed to the pipeline
+   */
+  reset(): void {
+    this.controller?.abort();
+    this.controller = null;
+    this.committedText = '';
+    this.windowStart = 0;
+    this.windowEnd = 0;
+    this.windowText = '';
+    this.previousWords = [];
+    this.lastPartial = null;
+    this.generation++;
+  }
+
+  /**
+   * Transcribe the current window and report the result if it changed
+   */
+  async transcribeNow(): Promise<void> {
+    // One request at a time, and hands-free sessions only while the user is speaking
+    if (this.controller || (this.session.isHandsFree() && !this.session.isSpeaking())) {
+      return;
+    }
+
+    const audio = this.session.getAudioBuffer();
+    const pcmOffset = findPcmOffset(audio);
+    if (pcmOffset === null) {
+      return;
+    }
+    if (pcmOffset > 0) {
+      this.header = Buffer.from(audio.subarray(0, pcmOffset));
+    }
+
+    const pcm = audio.subarray(pcmOffset);
+    if (pcm.length <= this.windowEnd || pcm.length - this.windowStart < this.minAudioBytes) {
+      return;
+    }
+
+    // Once the window is full, commit its last hypothesis and start the next one
+    if (pcm.length - this.windowStart > this.windowBytes && this.windowEnd > this.windowStart) {
+      this.committedText = joinWords(this.committedText, this.windowText);
+      this.windowStart = this.windowEnd;
+      this.windowText = '';
+      this.previousWords = [];
+    }
+
+    const window = pcm.subarray(this.windowStart);
+    if (!this.admit(window.length)) {
+      return;
+    }
+    const wav = normalizeAudio(this.header ? Buffer.concat([this.header, window]) : window, { streamed: true }).data;
+    const controller = new AbortController();
+    const generation = this.generation;
+    this.controller = controller;
+
+    try {
+      const text = await this.stt.transcribe(wav, {
+        signal: controller.signal,
+        log: this.log,
+        partial: true,
+        prompt: this.committedText || undefined,
+      });
+      if (generation !== this.generation) {
+        return;
+      }
+
+      this.windowEnd = pcm.length;
+      this.windowText = text.trim();
+      this.report(this.windowText.split(/\s+/).filter(Boolean));
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        throw error;
+      }
+    } finally {
+      if (this.controller === controller) {
+        this.controller = null;
+      }
+    }
+  }
+
+  /**
+   * Charge a request for `bytes` of audio to the client; false when it is over
+   * a limit, in which case interim transcripts pause until the final one
+   */
+  private admit(bytes: number): boolean {
+    if (!this.limiter || !this.clientKey) {
+      return true;
+    }
+
+    try {
+      this.limiter.checkQuota(this.clientKey);
+      this.limiter.consume('partials', this.clientKey);
+    } catch (error) {
+      if (!(error instanceof LimitError)) {
+        throw error;
+      }
+      this.log.debug('Skipped interim transcription', { code: error.code });
+      return false;
+    }
+    this.limiter.recordUsage(this.clientKey, { audioSeconds: bytes / this.bytesPerSecond });
+    return true;
+  }
+
+  private report(words: string[]): void {
+    // Words that two hypotheses in a row agree on are treated as stable
+    let agreed = 0;
+    while (agreed < words.length && agreed < this.previousWords.length && words[agreed] === this.previousWords[agreed]) {
+      agreed++;
+    }
+    this.previousWords = words;
+
+    const stable = joinWords(this.committedText, words.slice(0, agreed).join(' '));
+    const unstable = words.slice(agreed).join(' ');
+    const partial = { text: joinWords(stable, unstable), stable, unstable };
+
+    if (this.lastPartial && this.lastPartial.text === partial.text && this.lastPartial.stable === partial.stable) {
+      return;
+    }
+    this.lastPartial = partial;
+    this.onPartial(partial);
+  }
+}
+
+function joinWords(first: string, second: string): string {
+  return first && second ? `${first} ${second}` : first || second;
+}
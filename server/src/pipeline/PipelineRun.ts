@@ -0,0 +1,214 @@
+import { ChatMessage, ProviderCallOptions, ProviderSet } from '../services/providers';
+import { ConversationMemory } from '../session/ConversationMemory';
+import { ConversationTurn, Session } from '../session/Session';
+import { SentenceSegmenter } from './SentenceSegmenter';
+import { SpeechSegmentQueue } from './SpeechSegmentQueue';
+import { DeliveryProgress, PipelineStage } from '../protocol';
+import { Logger, createLogger } from '../logging';
+
+/**
+ * Receives pipeline events; `audio.chunk` data carries the raw audio as a Buffer
+ */
+export type PipelineEmitter = (type: string, data: any) => void;
+
+/**
+ * One speech → chat → speech run for a session.
+ * Every provider call is tied to the run's abort signal, and nothing is
+ * emitted once the run has been aborted.
+ */
+export class PipelineRun {
+  private session: Session;
+  private providers: ProviderSet;
+  private memory: ConversationMemory;
+  private emitter: PipelineEmitter;
+  private controller = new AbortController();
+  private turn: ConversationTurn | null = null;
+  private history: ChatMessage[] = [];
+  private stage: PipelineStage = 'transcribing';
+  private deliveredText = '';
+  private audioChunksDelivered = 0;
+  private audioBytesDelivered = 0;
+  private segmentsDelivered = 0;
+  private sequenceNumber = 0;
+  private charactersSynthesized = 0;
+  private log: Logger;
+
+  constructor(
+    session: Session,
+    providers: ProviderSet,
+    memory: ConversationMemory,
+    emitter: PipelineEmitter,
+    log: Logger = createLogger('PipelineRun')
+  ) {
+    this.session = session;
+    this.providers = providers;
+    this.memory = memory;
+    this.emitter = emitter;
+    this.log = log.withScope('PipelineRun');
+  }
+
+  get signal(): AbortSignal {
+    return this.controller.signal;
+  }
+
+  /**
+   * Options for provider calls: the run's abort signal and correlation ids
+   */
+  private get callOptions(): ProviderCallOptions {
+    return { signal: this.signal, log: this.log };
+  }
+
+  isAborted(): boolean {
+    return this.controller.signal.aborted;
+  }
+
+  isComplete(): boolean {
+    return this.stage === 'complete';
+  }
+
+  /**
+   * Step 1: transcribe the recorded audio and open a new conversation turn
+   */
+  async transcribe(audioBuffer: Buffer, audioRef?: string): Promise<string> {
+    const transcript = await this.providers.stt.transcribe(audioBuffer, this.callOptions);
+    this.throwIfAborted();
+
+    this.history = this.memory.buildHistory(this.session);
+    this.turn = this.session.startTurn(transcript, audioRef);
+
+    this.emit('transcript.complete', {
+      transcript,
+      language: 'en',
+      turnIndex: this.turn.index,
+    });
+
+    return transcript;
+  }
+
+  /**
+   * Steps 2 and 3: stream the chat reply, synthesizing each sentence as soon as it is complete
+   */
+  async respond(transcript: string): Promise<void> {
+    this.stage = 'generating';
+    const segmenter = new SentenceSegmenter();
+    let fullResponse = '';
+
+    // Send each segment's TTS audio in order, in 4KB chunks tagged with the segment
+    const speechQueue = new SpeechSegmentQueue(this.providers.tts, (segment) => {
+      const chunkSize = 4096;
+      for (let i = 0; i < segment.audio.length && !this.isAborted(); i += chunkSize) {
+        const chunk = segment.audio.subarray(i, i + chunkSize);
+
+        this.emit('audio.chunk', {
+          chunk,
+          sequenceNumber: this.sequenceNumber++,
+          segmentIndex: segment.index,
+          isLastInSegment: i + chunkSize >= segment.audio.length,
+        });
+        this.audioChunksDelivered++;
+        this.audioBytesDelivered += chunk.length;
+      }
+
+      if (!this.isAborted()) {
+        this.segmentsDelivered++;
+      }
+      this.log.debug('Sent TTS segment', { segmentIndex: segment.index, audioBytes: segment.audio.length });
+    }, this.callOptions);
+
+    for await (const chunk of this.providers.chat.streamCompletion(transcript, this.history, this.callOptions)) {
+      this.throwIfAborted();
+      fullResponse += chunk;
+      this.session.appendLlmResponse(chunk);
+
+      // Send text chunk to client for real-time display
+      this.emit('llm.chunk', {
+        content: chunk,
+      });
+      this.deliveredText += chunk;
+
+      for (const segment of segmenter.push(chunk)) {
+        this.synthesize(speechQueue, segment);
+      }
+    }
+    this.throwIfAborted();
+
+    for (const segment of segmenter.flush()) {
+      this.synthesize(speechQueue, segment);
+    }
+
+    this.session.completeTurn(fullResponse);
+    this.stage = 'synthesizing';
+
+    this.emit('llm.complete', {
+      fullText: fullResponse,
+    });
+
+    await speechQueue.drain();
+    this.throwIfAborted();
+
+    this.emit('audio.complete', {
+      totalSize: this.audioBytesDelivered,
+      segmentCount: speechQueue.getSegmentCount(),
+    });
+    this.stage = 'complete';
+
+    // Fold turns that fell out of the history window into the summary
+    try {
+      await this.memory.compact(this.session, this.providers.chat, { log: this.log });
+    } catch (error) {
+      this.log.error('Failed to summarize conversation', { error });
+    }
+  }
+
+  /**
+   * Stop the run and report exactly what reached the client
+   */
+  abort(): DeliveryProgress {
+    const progress = this.getProgress();
+    this.controller.abort();
+
+    // Only what the user actually received becomes part of the conversation
+    if (this.turn && this.stage !== 'complete') {
+      const response = this.turn.completedAt === null ? this.deliveredText : this.turn.assistantResponse;
+      this.session.completeTurn(response, true);
+    }
+
+    return progress;
+  }
+
+  getProgress(): DeliveryProgress {
+    return {
+      turnIndex: this.turn ? this.turn.index : null,
+      stage: this.stage,
+      deliveredText: this.deliveredText,
+      audioChunksDelivered: this.audioChunksDelivered,
+      audioBytesDelivered: this.audioBytesDelivered,
+      segmentsDelivered: this.segmentsDelivered,
+      lastSequenceNumber: this.sequenceNumber > 0 ? this.sequenceNumber - 1 : null,
+    };
+  }
+
+  /**
+   * Characters sent to text-to-speech so far, for usage quotas
+   */
+  getCharactersSynthesized(): number {
+    return this.charactersSynthesized;
+  }
+
+  private synthesize(speechQueue: SpeechSegmentQueue, segment: string): void {
+    this.charactersSynthesized += segment.length;
+    speechQueue.enqueue(segment);
+  }
+
+  private emit(type: string, data: any): void {
+    if (!this.isAborted()) {
+      this.emitter(type, data);
+    }
+  }
+
+  private throwIfAborted(): void {
+    if (this.isAborted()) {
+      throw new Error('Pipeline run aborted');
+    }
+  }
+}
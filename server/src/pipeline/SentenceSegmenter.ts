@@ -0,0 +1,72 @@
+import { config } from '../config/config';
+
+export interface SentenceSegmenterOptions {
+  minSegmentLength: number;
+  clauseSplitLength: number;
+  maxSegmentLength: number;
+}
+
+// Sentence ends (with trailing quotes/brackets) and clause punctuation followed by whitespace, or a newline
+const BOUNDARY_PATTERN = /[.!?…]+["')\]]*(?=\s)|[,;:](?=\s)|\n/g;
+
+/**
+ * Splits streamed LLM text into speakable segments at sentence or clause boundaries
+ */
+export class SentenceSegmenter {
+  private buffer = '';
+  private options: SentenceSegmenterOptions;
+
+  constructor(options: SentenceSegmenterOptions = config.speech) {
+    this.options = options;
+  }
+
+  /**
+   * Add streamed text and return any segments that are now complete
+   */
+  push(text: string): string[] {
+    this.buffer += text;
+
+    const segments: string[] = [];
+    let boundary = this.findBoundary();
+    while (boundary > 0) {
+      const segment = this.buffer.slice(0, boundary).trim();
+      this.buffer = this.buffer.slice(boundary).replace(/^\s+/, '');
+      if (segment) {
+        segments.push(segment);
+      }
+      boundary = this.findBoundary();
+    }
+
+    return segments;
+  }
+
+  /**
+   * Return whatever text remains once the stream has ended
+   */
+  flush(): string[] {
+    const segment = this.buffer.trim();
+    this.buffer = '';
+    return segment ? [segment] : [];
+  }
+
+  private findBoundary(): number {
+    BOUNDARY_PATTERN.lastIndex = 0;
+
+    let match: RegExpExecArray | null;
+    while ((match = BOUNDARY_PATTERN.exec(this.buffer))) {
+      const end = match.index + match[0].length;
+      const isClause = /^[,;:]$/.test(match[0]);
+      const minLength = isClause ? this.options.clauseSplitLength : this.options.minSegmentLength;
+      if (end >= minLength) {
+        return end;
+      }
+    }
+
+    if (this.buffer.length > this.options.maxSegmentLength) {
+      const lastSpace = this.buffer.lastIndexOf(' ', this.options.maxSegmentLength);
+      return lastSpace > 0 ? lastSpace : this.options.maxSegmentLength;
+    }
+
+    return -1;
+  }
+}
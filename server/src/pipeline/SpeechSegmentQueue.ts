@@ -0,0 +1,66 @@
+import { ProviderCallOptions, TextToSpeechProvider } from '../services/providers';
+
+export interface SynthesizedSegment {
+  index: number;
+  text: string;
+  audio: Buffer;
+}
+
+/**
+ * Starts TTS for each text segment as soon as it is queued, and hands the
+ * results to the consumer strictly in queue order.
+ */
+export class SpeechSegmentQueue {
+  private tts: TextToSpeechProvider;
+  private onSegment: (segment: SynthesizedSegment) => void | Promise<void>;
+  private options: ProviderCallOptions;
+  private chain: Promise<void> = Promise.resolve();
+  private error: unknown = null;
+  private nextIndex = 0;
+
+  constructor(
+    tts: TextToSpeechProvider,
+    onSegment: (segment: SynthesizedSegment) => void | Promise<void>,
+    options: ProviderCallOptions = {}
+  ) {
+    this.tts = tts;
+    this.onSegment = onSegment;
+    this.options = options;
+  }
+
+  enqueue(text: string): void {
+    const index = this.nextIndex++;
+    const synthesis = this.tts.synthesizeSpeech(text, this.options);
+    // Failures are reported in order through the chain below
+    synthesis.catch(() => undefined);
+
+    this.chain = this.chain
+      .then(async () => {
+        if (this.error || this.options.signal?.aborted) {
+          return;
+        }
+        const audio = await synthesis;
+        if (this.options.signal?.aborted) {
+          return;
+        }
+        await this.onSegment({ index, text, audio });
+      })
+      .catch((error) => {
+        this.error = this.error || error;
+      });
+  }
+
+  getSegmentCount(): number {
+    return this.nextIndex;
+  }
+
+  /**
+   * Wait until every queued segment has been delivered
+   */
+  async drain(): Promise<void> {
+    await this.chain;
+    if (this.error) {
+      throw this.error;
+    }
+  }
+}
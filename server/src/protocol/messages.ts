@@ -0,0 +1,307 @@
+/**
+ * WebSocket protocol shared by the server and the client.
+ *
+ * This file is the single source of the message shapes: the client imports its
+ * types from here, so it must stay free of Node-only APIs and runtime imports.
+ */
+
+/** Bumped whenever a message changes in a way older peers cannot handle */
+export const PROTOCOL_VERSION = 1;
+
+/** Versions this build can speak, oldest first */
+export const SUPPORTED_PROTOCOL_VERSIONS: readonly number[] = [1];
+
+export type ProtocolVersion = typeof PROTOCOL_VERSION;
+
+/** Longest session id in UTF-8 bytes; binary audio frames carry its length in one byte */
+export const MAX_SESSION_ID_BYTES = 255;
+
+export type AudioTransport = 'json' | 'binary';
+
+interface Envelope<T extends string, D> {
+  type: T;
+  sessionId: string;
+  timestamp: number;
+  /** Server events only: position in the session's event stream, starting at 1 */
+  seq?: number;
+  data: D;
+}
+
+// Client → server
+
+/**
+ * Leave out `sessionId` to have the server create a session; its id comes back in
+ * `session.ready`. Sending an id resumes that session.
+ */
+export type SessionStartMessage = Omit<SessionStartEnvelope, 'sessionId'> & { sessionId?: string };
+
+type SessionStartEnvelope = Envelope<'session.start', {
+  protocolVersion?: number;
+  audioTransport?: AudioTransport;
+  /** Let the server detect the end of each utterance instead of waiting for audio.end */
+  handsFree?: boolean;
+  /** Ask for transcript.partial captions while recording */
+  partialTranscripts?: boolean;
+  sampleRate?: number;
+  channels?: number;
+}>;
+
+/** `chunk` is base64 in JSON; binary frames arrive as raw bytes */
+export type AudioChunkMessage = Envelope<'audio.chunk', {
+  chunk: string | Uint8Array;
+  sequenceNumber?: number;
+}>;
+
+export type AudioEndMessage = Envelope<'audio.end', {
+  totalChunks?: number;
+}>;
+
+export type SessionCancelMessage = Envelope<'session.cancel', Record<string, never>>;
+
+/**
+ * Take a session over on a new connection after losing the old one. The server
+ * replays the events after `lastSeq`, the last `seq` the client received.
+ */
+export type SessionResumeMessage = Envelope<'session.resume', {
+  lastSeq: number;
+  audioTransport?: AudioTransport;
+}>;
+
+export type ResponseInterruptMessage = Envelope<'response.interrupt', Record<string, never>>;
+
+/** Heartbeat for clients that can't see WebSocket ping frames; answered with `pong` */
+export interface PingMessage {
+  type: 'ping';
+  sessionId?: string;
+  timestamp: number;
+  data: Record<string, never>;
+}
+
+export type ClientMessage =
+  | SessionStartMessage
+  | AudioChunkMessage
+  | AudioEndMessage
+  | SessionCancelMessage
+  | SessionResumeMessage
+  | ResponseInterruptMessage
+  | PingMessage;
+
+export type ClientMessageType = ClientMessage['type'];
+
+export const CLIENT_MESSAGE_TYPES: readonly ClientMessageType[] = [
+  'session.start',
+  'audio.chunk',
+  'audio.end',
+  'session.cancel',
+  'session.resume',
+  'response.interrupt',
+  'ping',
+];
+
+// Server → client
+
+export interface ConnectionEstablishedMessage {
+  type: 'connection.established';
+  timestamp: number;
+  data: {
+    message: string;
+    protocolVersion: number;
+    supportedVersions: readonly number[];
+  };
+}
+
+/**
+ * The server is shutting down: replies in flight may finish until `deadline`
+ * (epoch ms), then the connection closes. Resume on a new connection afterwards.
+ */
+export interface ServerDrainingMessage {
+  type: 'server.draining';
+  timestamp: number;
+  data: {
+    message: string;
+    deadline: number;
+  };
+}
+
+export interface PongMessage {
+  type: 'pong';
+  timestamp: number;
+  data: {
+    /** `timestamp` of the ping being answered, for measuring round trips */
+    pingTimestamp: number;
+  };
+}
+
+export type SessionReadyMessage = Envelope<'session.ready', {
+  status: 'ready';
+  protocolVersion: number;
+  resumed: boolean;
+  turnCount: number;
+  audioTransport: AudioTransport;
+  handsFree: boolean;
+  partialTranscripts: boolean;
+  config: {
+    maxAudioDuration: number;
+    maxAudioBytes: number;
+    chunkSize: number;
+    chunkDuration: number;
+    firstSequenceNumber: number;
+  };
+}>;
+
+export type AudioReceivedMessage = Envelope<'audio.received', {
+  sequenceNumber?: number;
+  status: 'accepted' | 'buffered';
+  missing: number[];
+  message: string;
+}>;
+
+/** Offsets are milliseconds from the start of the recording */
+export type SpeechStartedMessage = Envelope<'speech.started', {
+  offsetMs: number;
+}>;
+
+export type SpeechEndedMessage = Envelope<'speech.ended', {
+  offsetMs: number;
+  durationMs: number;
+}>;
+
+/** Interim transcript of the utterance being recorded; `text` is `stable` followed by `unstable` */
+export type TranscriptPartialMessage = Envelope<'transcript.partial', {
+  text: string;
+  stable: string;
+  unstable: string;
+}>;
+
+export type TranscriptCompleteMessage = Envelope<'transcript.complete', {
+  transcript: string;
+  language: string;
+  turnIndex: number;
+}>;
+
+export type LlmChunkMessage = Envelope<'llm.chunk', {
+  content: string;
+}>;
+
+export type LlmCompleteMessage = Envelope<'llm.complete', {
+  fullText: string;
+}>;
+
+/** Base64 TTS audio; clients that negotiated binary frames decode them into this shape */
+export type AudioOutputMessage = Envelope<'audio.chunk', {
+  chunk: string;
+  sequenceNumber: number;
+  segmentIndex?: number;
+  isLastInSegment?: boolean;
+}>;
+
+export type AudioCompleteMessage = Envelope<'audio.complete', {
+  totalSize: number;
+  segmentCount: number;
+}>;
+
+export type PipelineStage = 'transcribing' | 'generating' | 'synthesizing' | 'complete';
+
+export interface DeliveryProgress {
+  turnIndex: number | null;
+  stage: PipelineStage;
+  deliveredText: string;
+  audioChunksDelivered: number;
+  audioBytesDelivered: number;
+  segmentsDelivered: number;
+  lastSequenceNumber: number | null;
+}
+
+export type ResponseInterruptedMessage = Envelope<'response.interrupted', {
+  reason: string;
+  wasActive: boolean;
+} & Partial<DeliveryProgress>>;
+
+export type SessionCancelledMessage = Envelope<'session.cancelled', {
+  message: string;
+}>;
+
+/**
+ * Reply to session.resume, followed by the `replayed` missed events. `complete` is
+ * false when some missed events were no longer kept; none are replayed then.
+ */
+export type SessionResumedMessage = Envelope<'session.resumed', {
+  /** Latest `seq` of the session */
+  lastSeq: number;
+  replayed: number;
+  complete: boolean;
+  turnCount: number;
+  audioTransport: AudioTransport;
+}>;
+
+export type ErrorCode =
+  | 'MESSAGE_PARSE_ERROR'
+  | 'INVALID_MESSAGE'
+  | 'UNKNOWN_MESSAGE_TYPE'
+  | 'UNSUPPORTED_PROTOCOL_VERSION'
+  | 'HANDLER_ERROR'
+  | 'SESSION_NOT_FOUND'
+  | 'SESSION_FORBIDDEN'
+  | 'CONNECTION_LIMIT_EXCEEDED'
+  | 'SESSION_LIMIT_EXCEEDED'
+  | 'AUDIO_LIMIT_EXCEEDED'
+  | 'RATE_LIMITED'
+  | 'QUOTA_EXCEEDED'
+  | 'AUDIO_CHUNK_ERROR'
+  | 'DUPLICATE_AUDIO_CHUNK'
+  | 'AUDIO_END_ERROR'
+  | 'PROCESSING_ERROR'
+  | 'SERVER_DRAINING';
+
+/** One problem found while validating a message; `field` is a dotted path such as `data.sequenceNumber` */
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+export interface ErrorMessage {
+  type: 'error';
+  sessionId?: string;
+  timestamp: number;
+  seq?: number;
+  data: {
+    code: ErrorCode;
+    message: string;
+    details?: FieldError[];
+    sequenceNumber?: number;
+    supportedVersions?: readonly number[];
+    /** The limits in force, on limit errors */
+    limit?: number;
+    maxAudioDuration?: number;
+    maxAudioBytes?: number;
+    /** How long (ms) to wait before retrying, on RATE_LIMITED and QUOTA_EXCEEDED */
+    retryAfterMs?: number;
+    error?: string;
+  };
+}
+
+export type ServerMessage =
+  | ConnectionEstablishedMessage
+  | ServerDrainingMessage
+  | PongMessage
+  | SessionReadyMessage
+  | AudioReceivedMessage
+  | SpeechStartedMessage
+  | SpeechEndedMessage
+  | TranscriptPartialMessage
+  | TranscriptCompleteMessage
+  | LlmChunkMessage
+  | LlmCompleteMessage
+  | AudioOutputMessage
+  | AudioCompleteMessage
+  | ResponseInterruptedMessage
+  | SessionCancelledMessage
+  | SessionResumedMessage
+  | ErrorMessage;
+
+export type ServerMessageType = ServerMessage['type'];
+
+/** Look up a server message by its type, e.g. `ServerMessageOf<'llm.chunk'>` */
+export type ServerMessageOf<T extends ServerMessageType> = Extract<ServerMessage, { type: T }>;
+
+export type ClientMessageOf<T extends ClientMessageType> = Extract<ClientMessage, { type: T }>;
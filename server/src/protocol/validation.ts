@@ -0,0 +1,157 @@
+import {
+  CLIENT_MESSAGE_TYPES,
+  ClientMessage,
+  ClientMessageType,
+  FieldError,
+  MAX_SESSION_ID_BYTES,
+  PROTOCOL_VERSION,
+  SUPPORTED_PROTOCOL_VERSIONS,
+} from './messages';
+
+type FieldKind = 'integer' | 'boolean' | 'audio' | 'transport';
+
+interface FieldRule {
+  kind: FieldKind;
+  required?: boolean;
+  min?: number;
+}
+
+/** Expected `data` fields per client message; fields not listed are ignored */
+const DATA_RULES: Record<ClientMessageType, Record<string, FieldRule>> = {
+  'session.start': {
+    protocolVersion: { kind: 'integer' },
+    audioTransport: { kind: 'transport' },
+    handsFree: { kind: 'boolean' },
+    partialTranscripts: { kind: 'boolean' },
+    sampleRate: { kind: 'integer', min: 1 },
+    channels: { kind: 'integer', min: 1 },
+  },
+  'audio.chunk': {
+    chunk: { kind: 'audio', required: true },
+    sequenceNumber: { kind: 'integer', min: 0 },
+  },
+  'audio.end': {
+    totalChunks: { kind: 'integer', min: 0 },
+  },
+  'session.cancel': {},
+  'session.resume': {
+    lastSeq: { kind: 'integer', required: true, min: 0 },
+    audioTransport: { kind: 'transport' },
+  },
+  'response.interrupt': {},
+  ping: {},
+};
+
+export type ValidationResult =
+  | { valid: true; message: ClientMessage }
+  | { valid: false; unknownType: boolean; errors: FieldError[] };
+
+/**
+ * Check a decoded client message against the protocol before it reaches a handler
+ */
+export function validateClientMessage(input: unknown): ValidationResult {
+  if (!isObject(input)) {
+    return invalid([{ field: '', message: 'must be an object' }]);
+  }
+
+  const errors: FieldError[] = [];
+
+  if (typeof input.type !== 'string') {
+    return invalid([{ field: 'type', message: 'must be a string' }]);
+  }
+  if (!CLIENT_MESSAGE_TYPES.includes(input.type as ClientMessageType)) {
+    return { valid: false, unknownType: true, errors: [{ field: 'type', message: `unknown message type "${input.type}"` }] };
+  }
+  const type = input.type as ClientMessageType;
+
+  // session.start may leave the id out to get a new session; pings belong to the connection
+  const sessionIdOptional = (type === 'session.start' || type === 'ping') && input.sessionId === undefined;
+  if (!sessionIdOptional && (typeof input.sessionId !== 'string' || input.sessionId.length === 0)) {
+    errors.push({ field: 'sessionId', message: 'must be a non-empty string' });
+  } else if (typeof input.sessionId === 'string' && Buffer.byteLength(input.sessionId, 'utf8') > MAX_SESSION_ID_BYTES) {
+    errors.push({ field: 'sessionId', message: `must be at most ${MAX_SESSION_ID_BYTES} bytes` });
+  }
+  if (input.timestamp !== undefined && !isFiniteNumber(input.timestamp)) {
+    errors.push({ field: 'timestamp', message: 'must be a number' });
+  }
+
+  const data = input.data === undefined ? {} : input.data;
+  if (!isObject(data)) {
+    errors.push({ field: 'data', message: 'must be an object' });
+  } else {
+    for (const [name, rule] of Object.entries(DATA_RULES[type])) {
+      const error = checkField(data[name], rule);
+      if (error) {
+        errors.push({ field: `data.${name}`, message: error });
+      }
+    }
+  }
+
+  if (errors.length > 0) {
+    return invalid(errors);
+  }
+
+  return {
+    valid: true,
+    message: {
+      ...input,
+      timestamp: input.timestamp ?? Date.now(),
+      data,
+    } as ClientMessage,
+  };
+}
+
+/**
+ * Pick the protocol version for a session; clients that predate versioning get version 1.
+ * Returns null when the requested version is not supported.
+ */
+export function negotiateProtocolVersion(requested?: number): number | null {
+  if (requested === undefined) {
+    return SUPPORTED_PROTOCOL_VERSIONS[0];
+  }
+  if (requested >= PROTOCOL_VERSION) {
+    return PROTOCOL_VERSION;
+  }
+  return SUPPORTED_PROTOCOL_VERSIONS.includes(requested) ? requested : null;
+}
+
+function checkField(value: unknown, rule: FieldRule): string | null {
+  if (value === undefined || value === null) {
+    return rule.required ? 'is required' : null;
+  }
+
+  switch (rule.kind) {
+    case 'integer':
+      if (!Number.isInteger(value)) {
+        return 'must be an integer';
+      }
+      return rule.min !== undefined && (value as number) < rule.min ? `must be at least ${rule.min}` : null;
+
+    case 'boolean':
+      return typeof value === 'boolean' ? null : 'must be a boolean';
+
+    case 'audio':
+      if (value instanceof Uint8Array) {
+        return null;
+      }
+      if (typeof value !== 'string') {
+        return 'must be a base64 string';
+      }
+      return /^[A-Za-z0-9+/]*={0,2}$/.test(value) ? null : 'must be valid base64';
+
+    case 'transport':
+      return value === 'json' || value === 'binary' ? null : 'must be "json" or "binary"';
+  }
+}
+
+function invalid(errors: FieldError[]): ValidationResult {
+  return { valid: false, unknownType: false, errors };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
@@ -0,0 +1,163 @@
+import * as path from 'path';
+import { config } from '../config/config';
+import { AudioGenerator } from '../audio/AudioGenerator';
+import { findPcmOffset } from '../audio/wav';
+import {
+  ChatMessage,
+  ChatProvider,
+  ProviderCallOptions,
+  SpeechToTextProvider,
+  TextToSpeechProvider,
+  TranscriptionOptions,
+} from './providers';
+
+export interface EchoServiceOptions {
+  transcripts?: string[];
+  responseTemplate?: string;
+  tokenDelay?: number;
+}
+
+/**
+ * Deterministic offline provider for development and tests.
+ * Never calls an outside service: transcripts are scripted or derived from the
+ * input, replies are templated and TTS audio is generated locally.
+ */
+export class EchoService implements SpeechToTextProvider, ChatProvider, TextToSpeechProvider {
+  readonly name = 'echo';
+  private transcripts: string[];
+  private responseTemplate: string;
+  private tokenDelay: number;
+  private transcriptIndex = 0;
+  private generator = new AudioGenerator({ sampleRate: config.audio.sampleRate });
+
+  constructor(options: EchoServiceOptions = {}) {
+    this.transcripts = options.transcripts ?? config.echo.transcripts;
+    this.responseTemplate = options.responseTemplate ?? config.echo.responseTemplate;
+    this.tokenDelay = options.tokenDelay ?? config.echo.tokenDelay;
+  }
+
+  /**
+   * Return the next scripted transcript, or one derived from the filename or audio size
+   */
+  async transcribe(audioBuffer: Buffer, options: TranscriptionOptions = {}): Promise<string> {
+    if (options.partial) {
+      return this.partialTranscript(audioBuffer);
+    }
+
+    if (this.transcripts.length > 0) {
+      const transcript = this.transcripts[this.transcriptIndex % this.transcripts.length];
+      this.transcriptIndex++;
+      return transcript;
+    }
+
+    if (options.filename) {
+      const base = path.basename(options.filename, path.extname(options.filename));
+      const words = base.replace(/[_\-.]+/g, ' ').trim();
+      if (words) {
+        return words;
+      }
+    }
+
+    return `Received ${audioBuffer.length} bytes of audio`;
+  }
+
+  /**
+   * Reveal the upcoming transcript word by word as audio accumulates, without consuming it
+   */
+  private partialTranscript(audioBuffer: Buffer): string {
+    const upcoming = this.transcripts.length > 0
+      ? this.transcripts[this.transcriptIndex % this.transcripts.length]
+      : `Received ${audioBuffer.length} bytes of audio`;
+    const pcmBytes = audioBuffer.length - (findPcmOffset(audioBuffer) ?? 0);
+    const seconds = pcmBytes / (config.audio.sampleRate * 2);
+    const maxLength = Math.floor(seconds / config.echo.speechDurationPerChar);
+
+    let text = '';
+    for (const word of upcoming.split(/\s+/)) {
+      const next = text ? `${text} ${word}` : word;
+      if (next.length > maxLength) {
+        break;
+      }
+      text = next;
+    }
+    return text;
+  }
+
+  /**
+   * Stream the templated reply word by word with a fixed delay between tokens
+   */
+  async *streamCompletion(
+    transcript: string,
+    history: ChatMessage[] = [],
+    options: ProviderCallOptions = {}
+  ): AsyncGenerator<string, void, unknown> {
+    const reply = this.responseTemplate.replace(/\{transcript\}/g, transcript);
+    const words = reply.split(/\s+/).filter(Boolean);
+
+    for (let i = 0; i < words.length; i++) {
+      await this.delay(this.tokenDelay, options.signal);
+      // Tokens after the first carry their leading space, as chat APIs do
+      yield i === 0 ? words[i] : ` ${words[i]}`;
+    }
+  }
+
+  /**
+   * Summarize by keeping any previous summary and listing what the user said
+   */
+  async summarize(messages: ChatMessage[]): Promise<string> {
+    const previous = messages
+      .filter((message) => message.role === 'system')
+      .map((message) => message.content);
+    const userLines = messages
+      .filter((message) => message.role === 'user')
+      .map((message) => message.content);
+
+    if (userLines.length > 0) {
+      previous.push(`The user said: ${userLines.join('; ')}`);
+    }
+    return previous.join(' ');
+  }
+
+  /**
+   * Generate a speech-like WAV whose length follows the text length
+   */
+  async synthesizeSpeech(text: string, options: ProviderCallOptions = {}): Promise<Buffer> {
+    if (options.signal?.aborted) {
+      throw new Error('Speech synthesis aborted');
+    }
+    const duration = Math.min(
+      Math.max(text.length * config.echo.speechDurationPerChar, 0.2),
+      config.echo.maxSpeechDuration
+    );
+    return this.generator.generateSpeechLike(duration);
+  }
+
+  /**
+   * Stream the generated WAV in 4KB pieces
+   */
+  async *streamSynthesizeSpeech(text: string, options: ProviderCallOptions = {}): AsyncGenerator<Buffer, void, unknown> {
+    const audioBuffer = await this.synthesizeSpeech(text, options);
+    const chunkSize = 4096;
+    for (let i = 0; i < audioBuffer.length; i += chunkSize) {
+      yield audioBuffer.subarray(i, i + chunkSize);
+    }
+  }
+
+  private delay(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new Error('Echo completion aborted'));
+        return;
+      }
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(new Error('Echo completion aborted'));
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+}
@@ -2,8 +2,41 @@ import OpenAI from 'openai';
 import * as fs from 'fs';
 import * as path from 'path';
 import { config } from '../config/config';
+import { normalizeAudio } from '../audio';
+import {
+  ChatMessage,
+  ChatProvider,
+  ProviderCallOptions,
+  SpeechToTextProvider,
+  TextToSpeechProvider,
+  TranscriptionOptions,
+} from './providers';
+import { Logger, createLogger } from '../logging';
+import { metrics } from '../metrics';
 
-export class OpenAIService {
+const SYSTEM_PROMPT = 'You are a helpful, concise assistant. Keep responses brief (2-3 sentences max).';
+const SUMMARY_PROMPT =
+  'Summarize the following conversation in a few sentences, keeping names, facts and open questions.';
+
+const defaultLog = createLogger('OpenAIService');
+
+/**
+ * Log under the caller's correlation ids when it passed them
+ */
+function logFor(options: ProviderCallOptions): Logger {
+  return options.log?.withScope('OpenAIService') ?? defaultLog;
+}
+
+/**
+ * Count a finished call; calls cut short by an interruption are not failures
+ */
+function countCall(operation: 'transcribe' | 'chat' | 'summarize' | 'tts', options: ProviderCallOptions, error?: unknown): void {
+  const outcome = error === undefined ? 'ok' : options.signal?.aborted ? 'aborted' : 'error';
+  metrics.providerCalls.inc({ provider: 'openai', operation, outcome });
+}
+
+export class OpenAIService implements SpeechToTextProvider, ChatProvider, TextToSpeechProvider {
+  readonly name = 'openai';
   private client: OpenAI;
 
   constructor(apiKey: string = config.openai.apiKey) {
@@ -16,22 +49,31 @@ export class OpenAIService {
   /**
    * Transcribe audio using Whisper API
    */
-  async transcribe(audioBuffer: Buffer): Promise<string> {
+  async transcribe(audioBuffer: Buffer, options: TranscriptionOptions = {}): Promise<string> {
+    const log = logFor(options);
     try {
-      console.log('[OpenAIService] Transcribing audio...');
+      log.debug('Transcribing audio', { audioBytes: audioBuffer.length, partial: options.partial ?? false });
+      const transcribed = metrics.sttLatency.startTimer({ provider: 'openai', mode: options.partial ? 'partial' : 'final' });
+
+      // Whisper needs a well-formed file whose extension matches its contents
+      const audio = normalizeAudio(audioBuffer);
 
       // Create a temporary file to pass to the API
-      const tempFile = path.join('/tmp', `audio_${Date.now()}.wav`);
-      fs.writeFileSync(tempFile, audioBuffer);
+      // Interim and final transcriptions can overlap, so the name must be unique
+      const tempFile = path.join('/tmp', `audio_${Date.now()}_${Math.random().toString(36).slice(2, 8)}${audio.extension}`);
+      fs.writeFileSync(tempFile, audio.data);
 
       try {
         const response = await this.client.audio.transcriptions.create({
           file: fs.createReadStream(tempFile),
           model: config.openai.whisper.model,
           language: config.openai.whisper.language,
-        } as any);
+          prompt: options.prompt,
+        } as any, { signal: options.signal });
 
-        console.log('[OpenAIService] Transcription complete:', response.text);
+        transcribed();
+        countCall('transcribe', options);
+        log.debug('Transcription complete', { transcript: response.text });
         return response.text;
       } finally {
         // Cleanup temp file
@@ -40,7 +82,8 @@ export class OpenAIService {
         }
       }
     } catch (error) {
-      console.error('[OpenAIService] Transcription failed:', error);
+      countCall('transcribe', options, error);
+      log.error('Transcription failed', { error });
       throw new Error(`Failed to transcribe audio: ${error}`);
     }
   }
@@ -48,17 +91,24 @@ export class OpenAIService {
   /**
    * Stream GPT response for given transcript
    */
-  async *streamCompletion(transcript: string): AsyncGenerator<string, void, unknown> {
+  async *streamCompletion(
+    transcript: string,
+    history: ChatMessage[] = [],
+    options: ProviderCallOptions = {}
+  ): AsyncGenerator<string, void, unknown> {
+    const log = logFor(options);
     try {
-      console.log('[OpenAIService] Starting GPT stream for transcript:', transcript);
+      log.debug('Starting GPT stream', { transcript, historyLength: history.length });
+      const firstToken = metrics.llmTimeToFirstToken.startTimer({ provider: 'openai' });
 
       const stream = await this.client.chat.completions.create({
         model: config.openai.gpt.model,
         messages: [
           {
             role: 'system',
-            content: 'You are a helpful, concise assistant. Keep responses brief (2-3 sentences max).',
+            content: SYSTEM_PROMPT,
           },
+          ...history,
           {
             role: 'user',
             content: transcript,
@@ -67,29 +117,73 @@ export class OpenAIService {
         stream: true,
         temperature: config.openai.gpt.temperature,
         max_tokens: config.openai.gpt.maxTokens,
-      });
+      }, { signal: options.signal });
 
+      let chunks = 0;
       for await (const chunk of stream) {
         const content = chunk.choices[0]?.delta?.content || '';
         if (content) {
-          console.log('[OpenAIService] GPT chunk:', content);
+          if (chunks++ === 0) {
+            firstToken();
+          }
           yield content;
         }
       }
 
-      console.log('[OpenAIService] GPT stream complete');
+      countCall('chat', options);
+      log.debug('GPT stream complete', { chunks });
     } catch (error) {
-      console.error('[OpenAIService] GPT streaming failed:', error);
+      countCall('chat', options, error);
+      log.error('GPT streaming failed', { error });
       throw new Error(`Failed to get GPT response: ${error}`);
     }
   }
 
+  /**
+   * Summarize earlier conversation turns
+   */
+  async summarize(messages: ChatMessage[], options: ProviderCallOptions = {}): Promise<string> {
+    const log = logFor(options);
+    try {
+      log.debug('Summarizing conversation', { messages: messages.length });
+
+      const conversation = messages
+        .map((message) => `${message.role}: ${message.content}`)
+        .join('\n');
+
+      const response = await this.client.chat.completions.create({
+        model: config.openai.gpt.model,
+        messages: [
+          {
+            role: 'system',
+            content: SUMMARY_PROMPT,
+          },
+          {
+            role: 'user',
+            content: conversation,
+          },
+        ],
+        temperature: 0,
+        max_tokens: config.openai.gpt.maxTokens,
+      }, { signal: options.signal });
+
+      countCall('summarize', options);
+      return response.choices[0]?.message?.content?.trim() || '';
+    } catch (error) {
+      countCall('summarize', options, error);
+      log.error('Summarization failed', { error });
+      throw new Error(`Failed to summarize conversation: ${error}`);
+    }
+  }
+
   /**
    * Synthesize speech from text
    */
-  async synthesizeSpeech(text: string): Promise<Buffer> {
+  async synthesizeSpeech(text: string, options: ProviderCallOptions = {}): Promise<Buffer> {
+    const log = logFor(options);
     try {
-      console.log('[OpenAIService] Generating speech for:', text);
+      log.debug('Generating speech', { response: text });
+      const synthesized = metrics.ttsLatency.startTimer({ provider: 'openai' });
 
       const response = await this.client.audio.speech.create({
         model: config.openai.tts.model,
@@ -97,7 +191,7 @@ export class OpenAIService {
         input: text,
         response_format: config.openai.tts.format as 'mp3' | 'opus' | 'aac' | 'flac',
         speed: config.openai.tts.speed,
-      });
+      }, { signal: options.signal });
 
       // Convert response to buffer
       const chunks: Buffer[] = [];
@@ -116,10 +210,13 @@ export class OpenAIService {
       }
 
       const audioBuffer = Buffer.concat(chunks);
-      console.log('[OpenAIService] Speech synthesis complete:', audioBuffer.length, 'bytes');
+      synthesized();
+      countCall('tts', options);
+      log.debug('Speech synthesis complete', { audioBytes: audioBuffer.length });
       return audioBuffer;
     } catch (error) {
-      console.error('[OpenAIService] Speech synthesis failed:', error);
+      countCall('tts', options, error);
+      log.error('Speech synthesis failed', { error });
       throw new Error(`Failed to synthesize speech: ${error}`);
     }
   }
@@ -127,9 +224,13 @@ export class OpenAIService {
   /**
    * Stream speech synthesis (yields chunks as they're generated)
    */
-  async *streamSynthesizeSpeech(text: string): AsyncGenerator<Buffer, void, unknown> {
+  async *streamSynthesizeSpeech(text: string, options: ProviderCallOptions = {}): AsyncGenerator<Buffer, void, unknown> {
+    const log = logFor(options);
     try {
-      console.log('[OpenAIService] Starting speech stream for:', text);
+      log.debug('Starting speech stream', { response: text });
+      // Time spent waiting on the caller between chunks is not synthesis time
+      const startedAt = Date.now();
+      let paused = 0;
 
       const response = await this.client.audio.speech.create({
         model: config.openai.tts.model,
@@ -137,24 +238,30 @@ export class OpenAIService {
         input: text,
         response_format: config.openai.tts.format as 'mp3' | 'opus' | 'aac' | 'flac',
         speed: config.openai.tts.speed,
-      });
+      }, { signal: options.signal });
 
       const reader = response.body?.getReader?.();
+      let audioBytes = 0;
 
       if (reader) {
         while (true) {
           const { done, value } = await reader.read();
           if (done) break;
           if (value) {
-            console.log('[OpenAIService] TTS chunk:', value.length, 'bytes');
+            audioBytes += value.length;
+            const yieldedAt = Date.now();
             yield Buffer.from(value);
+            paused += Date.now() - yieldedAt;
           }
         }
       }
 
-      console.log('[OpenAIService] Speech stream complete');
+      metrics.ttsLatency.observe({ provider: 'openai' }, (Date.now() - startedAt - paused) / 1000);
+      countCall('tts', options);
+      log.debug('Speech stream complete', { audioBytes });
     } catch (error) {
-      console.error('[OpenAIService] Speech stream failed:', error);
+      countCall('tts', options, error);
+      log.error('Speech stream failed', { error });
       throw new Error(`Failed to stream speech: ${error}`);
     }
   }
@@ -0,0 +1,88 @@
+import { config } from '../config/config';
+import { EchoService } from './EchoService';
+import { OpenAIService } from './OpenAIService';
+import {
+  ChatProvider,
+  ProviderSelection,
+  ProviderSet,
+  SpeechToTextProvider,
+  TextToSpeechProvider,
+} from './providers';
+
+type ProviderFactory<T> = () => T;
+
+export class ProviderRegistry {
+  private sttFactories = new Map<string, ProviderFactory<SpeechToTextProvider>>();
+  private chatFactories = new Map<string, ProviderFactory<ChatProvider>>();
+  private ttsFactories = new Map<string, ProviderFactory<TextToSpeechProvider>>();
+
+  registerSpeechToText(name: string, factory: ProviderFactory<SpeechToTextProvider>): void {
+    this.sttFactories.set(name, factory);
+  }
+
+  registerChat(name: string, factory: ProviderFactory<ChatProvider>): void {
+    this.chatFactories.set(name, factory);
+  }
+
+  registerTextToSpeech(name: string, factory: ProviderFactory<TextToSpeechProvider>): void {
+    this.ttsFactories.set(name, factory);
+  }
+
+  /**
+   * Register a single engine that implements every pipeline stage.
+   * The engine is created lazily and shared between the three stages.
+   */
+  registerEngine(
+    name: string,
+    factory: ProviderFactory<SpeechToTextProvider & ChatProvider & TextToSpeechProvider>
+  ): void {
+    let instance: SpeechToTextProvider & ChatProvider & TextToSpeechProvider | null = null;
+    const getInstance = () => {
+      if (!instance) {
+        instance = factory();
+      }
+      return instance;
+    };
+
+    this.registerSpeechToText(name, getInstance);
+    this.registerChat(name, getInstance);
+    this.registerTextToSpeech(name, getInstance);
+  }
+
+  createSpeechToText(name: string): SpeechToTextProvider {
+    return this.resolve(this.sttFactories, name, 'speech-to-text');
+  }
+
+  createChat(name: string): ChatProvider {
+    return this.resolve(this.chatFactories, name, 'chat');
+  }
+
+  createTextToSpeech(name: string): TextToSpeechProvider {
+    return this.resolve(this.ttsFactories, name, 'text-to-speech');
+  }
+
+  /**
+   * Build the provider set for the pipeline, defaulting to the configured engines
+   */
+  createProviderSet(selection: ProviderSelection = config.providers): ProviderSet {
+    return {
+      stt: this.createSpeechToText(selection.stt),
+      chat: this.createChat(selection.chat),
+      tts: this.createTextToSpeech(selection.tts),
+    };
+  }
+
+  private resolve<T>(factories: Map<string, ProviderFactory<T>>, name: string, kind: string): T {
+    const factory = factories.get(name);
+    if (!factory) {
+      const available = Array.from(factories.keys()).join(', ');
+      throw new Error(`Unknown ${kind} provider: ${name} (available: ${available})`);
+    }
+    return factory();
+  }
+}
+
+export const providerRegistry = new ProviderRegistry();
+
+providerRegistry.registerEngine('openai', () => new OpenAIService());
+providerRegistry.registerEngine('echo', () => new EchoService());
@@ -0,0 +1,79 @@
+/**
+ * Provider interfaces for the speech → chat → speech pipeline.
+ * Each stage can be served by a different engine, selected via config.
+ */
+import type { Logger } from '../logging';
+
+export interface ProviderCallOptions {
+  /** Aborts the call when the response is interrupted */
+  signal?: AbortSignal;
+  /** Logs the call with the correlation ids of the run that made it */
+  log?: Logger;
+}
+
+export interface TranscriptionOptions extends ProviderCallOptions {
+  /** Original name of the uploaded file, when known */
+  filename?: string;
+  /** Interim transcription of audio that is still being recorded */
+  partial?: boolean;
+  /** Text already transcribed before this audio, so windowed transcripts stay consistent */
+  prompt?: string;
+}
+
+export interface SpeechToTextProvider {
+  readonly name: string;
+
+  /**
+   * Transcribe a complete audio recording to text
+   */
+  transcribe(audioBuffer: Buffer, options?: TranscriptionOptions): Promise<string>;
+}
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatProvider {
+  readonly name: string;
+
+  /**
+   * Stream a reply for the given user transcript, with earlier conversation as context
+   */
+  streamCompletion(
+    transcript: string,
+    history?: ChatMessage[],
+    options?: ProviderCallOptions
+  ): AsyncGenerator<string, void, unknown>;
+
+  /**
+   * Condense earlier conversation into a short summary
+   */
+  summarize(messages: ChatMessage[], options?: ProviderCallOptions): Promise<string>;
+}
+
+export interface TextToSpeechProvider {
+  readonly name: string;
+
+  /**
+   * Synthesize the full text into a single audio buffer
+   */
+  synthesizeSpeech(text: string, options?: ProviderCallOptions): Promise<Buffer>;
+
+  /**
+   * Stream synthesized audio as it is generated
+   */
+  streamSynthesizeSpeech(text: string, options?: ProviderCallOptions): AsyncGenerator<Buffer, void, unknown>;
+}
+
+export interface ProviderSet {
+  stt: SpeechToTextProvider;
+  chat: ChatProvider;
+  tts: TextToSpeechProvider;
+}
+
+export interface ProviderSelection {
+  stt: string;
+  chat: string;
+  tts: string;
+}
@@ -0,0 +1,111 @@
+import { config } from '../config/config';
+import { ChatMessage, ChatProvider, ProviderCallOptions } from '../services/providers';
+import { ConversationTurn, Session } from './Session';
+import { createLogger } from '../logging';
+
+const log = createLogger('ConversationMemory');
+
+export interface ConversationMemoryOptions {
+  maxTurns: number;
+  maxHistoryTokens: number;
+  summarizeOlderTurns: boolean;
+}
+
+/**
+ * Builds the chat history for a session from its turns, keeping a bounded window
+ * of recent turns and folding older ones into a running summary.
+ */
+export class ConversationMemory {
+  private options: ConversationMemoryOptions;
+
+  constructor(options: ConversationMemoryOptions = config.conversation) {
+    this.options = options;
+  }
+
+  /**
+   * Chat messages to send ahead of the current user transcript
+   */
+  buildHistory(session: Session): ChatMessage[] {
+    const messages: ChatMessage[] = [];
+
+    if (session.summary) {
+      messages.push({
+        role: 'system',
+        content: `Summary of the earlier conversation: ${session.summary}`,
+      });
+    }
+
+    for (const turn of this.selectWindow(session.getCompletedTurns())) {
+      messages.push(...this.toMessages(turn));
+    }
+
+    return messages;
+  }
+
+  /**
+   * Summarize completed turns that no longer fit in the history window
+   */
+  async compact(session: Session, chat: ChatProvider, options: ProviderCallOptions = {}): Promise<void> {
+    if (!this.options.summarizeOlderTurns) {
+      return;
+    }
+
+    const turns = session.getCompletedTurns();
+    const overflow = turns.length - this.selectWindow(turns).length;
+    if (overflow <= 0) {
+      return;
+    }
+
+    const messages: ChatMessage[] = [];
+    if (session.summary) {
+      messages.push({ role: 'system', content: session.summary });
+    }
+    const folded = turns.slice(0, overflow);
+    for (const turn of folded) {
+      messages.push(...this.toMessages(turn));
+    }
+
+    const summary = await chat.summarize(messages, options);
+    session.applySummary(summary, folded[folded.length - 1]);
+    (options.log?.withScope('ConversationMemory') ?? log).info('Summarized older turns', { sessionId: session.sessionId, turns: overflow });
+  }
+
+  /**
+   * Most recent turns that fit within both the turn and token limits
+   */
+  private selectWindow(turns: ConversationTurn[]): ConversationTurn[] {
+    if (this.options.maxTurns <= 0) {
+      return [];
+    }
+
+    const recent = turns.slice(-this.options.maxTurns);
+    let budget = this.options.maxHistoryTokens;
+    let start = recent.length;
+
+    while (start > 0) {
+      const turn = recent[start - 1];
+      const cost = this.estimateTokens(turn.userTranscript) + this.estimateTokens(turn.assistantResponse);
+      if (cost > budget) {
+        break;
+      }
+      budget -= cost;
+      start--;
+    }
+
+    return recent.slice(start);
+  }
+
+  private toMessages(turn: ConversationTurn): ChatMessage[] {
+    return [
+      { role: 'user', content: turn.userTranscript },
+      { role: 'assistant', content: turn.assistantResponse },
+    ];
+  }
+
+  /**
+   * Rough token estimate (~4 characters per token for English text)
+   */
+  private estimateTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+  }
+}
@@ -0,0 +1,53 @@
+import { config } from '../config/config';
+
+interface LoggedEvent<T> {
+  event: T;
+  size: number;
+}
+
+/**
+ * Numbers a session's outgoing events and keeps the most recent ones, up to a
+ * byte budget, so a client that reconnects can be sent what it missed.
+ * Sequence numbers start at 1; 0 means nothing has been sent yet.
+ */
+export class EventLog<T extends { seq?: number }> {
+  private events: LoggedEvent<T>[] = [];
+  private bytes = 0;
+  private lastSeq = 0;
+  private maxBytes: number;
+
+  constructor(maxBytes: number = config.session.eventBufferBytes) {
+    this.maxBytes = maxBytes;
+  }
+
+  /**
+   * Give the event the next sequence number and keep it, dropping the oldest
+   * events once over budget. `size` is roughly what it costs to keep.
+   */
+  append(event: T, size: number): T {
+    event.seq = ++this.lastSeq;
+    this.events.push({ event, size });
+    this.bytes += size;
+
+    while (this.bytes > this.maxBytes && this.events.length > 1) {
+      this.bytes -= this.events.shift()!.size;
+    }
+    return event;
+  }
+
+  /**
+   * Events after `seq`, oldest first, or null when some of them are no longer kept
+   */
+  since(seq: number): T[] | null {
+    if (seq > this.lastSeq) {
+      return null;
+    }
+    const missed = this.events.filter(({ event }) => event.seq! > seq).map(({ event }) => event);
+    const firstKept = this.events.length > 0 ? this.events[0].event.seq! : this.lastSeq + 1;
+    return firstKept <= seq + 1 ? missed : null;
+  }
+
+  getLastSeq(): number {
+    return this.lastSeq;
+  }
+}
@@ -0,0 +1,66 @@
+import { randomUUID } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { SessionRecord, SessionStore } from './SessionStore';
+import { createLogger } from '../logging';
+
+const log = createLogger('FileSessionStore');
+
+/**
+ * Stores each session as a JSON file, so conversations survive restarts and
+ * replicas that mount the same directory see the same sessions.
+ */
+export class FileSessionStore implements SessionStore {
+  private dir: string;
+
+  constructor(dir: string) {
+    this.dir = dir;
+    fs.mkdirSync(this.dir, { recursive: true });
+  }
+
+  load(sessionId: string): SessionRecord | undefined {
+    return this.read(this.pathFor(sessionId));
+  }
+
+  save(record: SessionRecord): void {
+    // Write to a temporary file first so readers never see a partial record
+    const target = this.pathFor(record.sessionId);
+    // Unique per write: replicas sharing the directory may all run as pid 1
+    const temp = `${target}.${randomUUID()}.tmp`;
+    fs.writeFileSync(temp, JSON.stringify(record));
+    fs.renameSync(temp, target);
+  }
+
+  delete(sessionId: string): void {
+    fs.rmSync(this.pathFor(sessionId), { force: true });
+  }
+
+  list(): SessionRecord[] {
+    const records: SessionRecord[] = [];
+    for (const name of fs.readdirSync(this.dir)) {
+      if (name.endsWith('.json')) {
+        const record = this.read(path.join(this.dir, name));
+        if (record) {
+          records.push(record);
+        }
+      }
+    }
+    return records;
+  }
+
+  private read(file: string): SessionRecord | undefined {
+    try {
+      return JSON.parse(fs.readFileSync(file, 'utf8'));
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        log.error('Failed to read session file', { file, error });
+      }
+      return undefined;
+    }
+  }
+
+  /** Session ids come from clients, so they are encoded into a safe file name */
+  private pathFor(sessionId: string): string {
+    return path.join(this.dir, `${encodeURIComponent(sessionId)}.json`);
+  }
+}
@@ -0,0 +1,25 @@
+import { SessionRecord, SessionStore } from './SessionStore';
+
+/**
+ * Keeps sessions for the lifetime of the process
+ */
+export class InMemorySessionStore implements SessionStore {
+  private records = new Map<string, SessionRecord>();
+
+  load(sessionId: string): SessionRecord | undefined {
+    const record = this.records.get(sessionId);
+    return record && structuredClone(record);
+  }
+
+  save(record: SessionRecord): void {
+    this.records.set(record.sessionId, structuredClone(record));
+  }
+
+  delete(sessionId: string): void {
+    this.records.delete(sessionId);
+  }
+
+  list(): SessionRecord[] {
+    return Array.from(this.records.values(), (record) => structuredClone(record));
+  }
+}
@@ -1,24 +1,377 @@
+import { VoiceActivityDetector, VoiceActivityEvent, VoiceActivityOptions } from '../audio/VoiceActivityDetector';
+import type { SessionRecord } from './SessionStore';
+import type { Principal } from '../auth';
+import { WAV_HEADER_SIZE } from '../audio/wav';
+import { config } from '../config/config';
+
 export type SessionState = 'recording' | 'processing' | 'complete' | 'error';
 
+export type AudioChunkStatus = 'accepted' | 'buffered' | 'duplicate' | 'limit_exceeded';
+
+export interface AudioChunkResult {
+  status: AudioChunkStatus;
+  /** Sequence numbers still missing before the highest one received */
+  missing: number[];
+}
+
+/** Sequence number of the first chunk of every utterance */
+export const FIRST_SEQUENCE_NUMBER = 1;
+
+/** How much audio one recording may buffer */
+export interface AudioLimits {
+  /** Longest recording, in ms */
+  maxDuration: number;
+  maxBytes: number;
+}
+
+/**
+ * The configured limits for 16-bit PCM in the given format: the duration cap
+ * in bytes, bounded by the size cap
+ */
+export function audioLimitsFor(
+  sampleRate: number = config.audio.sampleRate,
+  channels: number = config.audio.channels
+): AudioLimits {
+  const { maxDuration, maxAudioBytes } = config.session;
+  const durationBytes = Math.ceil((maxDuration / 1000) * sampleRate * channels * 2) + WAV_HEADER_SIZE;
+  return { maxDuration, maxBytes: Math.min(durationBytes, maxAudioBytes) };
+}
+
+export interface ConversationTurn {
+  index: number;
+  userTranscript: string;
+  assistantResponse: string;
+  startedAt: number;
+  completedAt: number | null;
+  audioRef: string | null;
+  interrupted: boolean;
+}
+
 export class Session {
   public sessionId: string;
+  /** Principal that created the session; null when it isn't tied to one */
+  public principalId: string | null;
   public audioChunks: Buffer[] = [];
   public transcript: string = '';
   public llmResponse: string = '';
   public state: SessionState = 'recording';
   public createdAt: number = Date.now();
   public audioBuffer: Buffer | null = null;
+  public turns: ConversationTurn[] = [];
+  public summary: string = '';
+  public summarizedTurnCount: number = 0;
+  private nextSequenceNumber = FIRST_SEQUENCE_NUMBER;
+  private pendingChunks = new Map<number, Buffer>();
+  private vad: VoiceActivityDetector | null = null;
+  private vadOptions: VoiceActivityOptions = {};
+  private speechEvents: VoiceActivityEvent[] = [];
+  // A finished utterance whose run was refused is still in the buffer
+  private utteranceHeld = false;
+  private updatedAt: number = this.createdAt;
+  private changeListener: ((session: Session) => void) | null = null;
+  // Connection or stream currently driving the session; not persisted
+  private connection: object | null = null;
+  // When the connection holding the session dropped without ending it
+  private orphanedAt: number | null = null;
+  private audioLimits: AudioLimits = audioLimitsFor();
 
-  constructor(sessionId: string) {
+  constructor(sessionId: string, principalId: string | null = null) {
     this.sessionId = sessionId;
+    this.principalId = principalId;
+  }
+
+  /**
+   * Restore a session from its stored record
+   */
+  static fromRecord(record: SessionRecord): Session {
+    const session = new Session(record.sessionId, record.principalId ?? null);
+    session.restore(record);
+    return session;
+  }
+
+  /**
+   * Replace the stored part of the session with a newer record, e.g. one
+   * another server wrote; recording and connection state are kept
+   */
+  restore(record: SessionRecord): void {
+    this.principalId = record.principalId ?? null;
+    this.state = record.state;
+    this.createdAt = record.createdAt;
+    this.updatedAt = record.updatedAt;
+    this.transcript = record.transcript;
+    this.llmResponse = record.llmResponse;
+    this.summary = record.summary;
+    this.summarizedTurnCount = record.summarizedTurnCount;
+    this.turns = record.turns;
+  }
+
+  toRecord(): SessionRecord {
+    return {
+      sessionId: this.sessionId,
+      principalId: this.principalId,
+      state: this.state,
+      createdAt: this.createdAt,
+      updatedAt: this.updatedAt,
+      transcript: this.transcript,
+      llmResponse: this.llmResponse,
+      summary: this.summary,
+      summarizedTurnCount: this.summarizedTurnCount,
+      turns: this.turns,
+    };
+  }
+
+  /**
+   * Whether `principal` may use this session
+   */
+  belongsTo(principal: Principal): boolean {
+    return this.principalId === null || this.principalId === principal.id;
+  }
+
+  /**
+   * Bind the session to the connection driving it; fails while another connection holds it
+   */
+  attach(connection: object): boolean {
+    if (this.connection && this.connection !== connection) {
+      return false;
+    }
+    this.connection = connection;
+    this.orphanedAt = null;
+    return true;
+  }
+
+  /**
+   * Release the session so another connection of the same principal can resume it
+   */
+  detach(connection: object): void {
+    if (this.connection === connection) {
+      this.connection = null;
+    }
+  }
+
+  /**
+   * Release the session of a connection that went away; it is deleted unless
+   * another connection resumes it within the grace period
+   */
+  orphan(connection: object): void {
+    if (this.connection === connection) {
+      this.connection = null;
+      this.orphanedAt = Date.now();
+    }
+  }
+
+  /**
+   * The connection or stream currently driving the session, if any
+   */
+  getConnection(): object | null {
+    return this.connection;
+  }
+
+  isAttachedTo(connection: object): boolean {
+    return this.connection === connection;
+  }
+
+  /**
+   * Last time the stored part of the session changed
+   */
+  getUpdatedAt(): number {
+    return this.updatedAt;
+  }
+
+  /**
+   * Time the session was orphaned, or null while it is attached or was released cleanly
+   */
+  getOrphanedAt(): number | null {
+    return this.orphanedAt;
+  }
+
+  /**
+   * Be told whenever the stored part of the session changes
+   */
+  onChange(listener: ((session: Session) => void) | null): void {
+    this.changeListener = listener;
+  }
+
+  private changed(): void {
+    this.updatedAt = Date.now();
+    this.changeListener?.(this);
+  }
+
+  /**
+   * Size the audio limits for the format the client records in
+   */
+  setAudioFormat(sampleRate?: number, channels?: number): void {
+    this.audioLimits = audioLimitsFor(sampleRate, channels);
+  }
+
+  getAudioLimits(): AudioLimits {
+    return this.audioLimits;
   }
 
-  addAudioChunk(chunk: Buffer | string): void {
+  /**
+   * Add a chunk of the current utterance. Chunks with a sequence number are
+   * put back in order: early ones wait for the gap to fill and repeats are rejected.
+   * Chunks that would take the recording past its limits are refused.
+   */
+  addAudioChunk(chunk: Uint8Array | string, sequenceNumber?: number): AudioChunkResult {
     // If it's a base64 string, convert to buffer
     const buffer = typeof chunk === 'string'
       ? Buffer.from(chunk, 'base64')
-      : chunk;
+      : Buffer.from(chunk.buffer, chunk.byteOffset, chunk.byteLength);
+
+    if (sequenceNumber !== undefined && (sequenceNumber < this.nextSequenceNumber || this.pendingChunks.has(sequenceNumber))) {
+      return { status: 'duplicate', missing: this.getMissingSequenceNumbers() };
+    }
+
+    if (!this.makeRoomFor(buffer.length)) {
+      return { status: 'limit_exceeded', missing: this.getMissingSequenceNumbers() };
+    }
+
+    if (sequenceNumber === undefined) {
+      this.appendChunk(buffer);
+      return { status: 'accepted', missing: this.getMissingSequenceNumbers() };
+    }
+
+    if (sequenceNumber > this.nextSequenceNumber) {
+      this.pendingChunks.set(sequenceNumber, buffer);
+      return { status: 'buffered', missing: this.getMissingSequenceNumbers() };
+    }
+
+    this.appendChunk(buffer);
+    this.nextSequenceNumber++;
+
+    // Release any chunks that were waiting on this one
+    while (this.pendingChunks.has(this.nextSequenceNumber)) {
+      this.appendChunk(this.pendingChunks.get(this.nextSequenceNumber)!);
+      this.pendingChunks.delete(this.nextSequenceNumber);
+      this.nextSequenceNumber++;
+    }
+
+    return { status: 'accepted', missing: this.getMissingSequenceNumbers() };
+  }
+
+  /**
+   * Sequence numbers not yet received below the highest buffered chunk
+   */
+  getMissingSequenceNumbers(): number[] {
+    if (this.pendingChunks.size === 0) {
+      return [];
+    }
+
+    const highest = Math.max(...this.pendingChunks.keys());
+    const missing: number[] = [];
+    for (let n = this.nextSequenceNumber; n < highest; n++) {
+      if (!this.pendingChunks.has(n)) {
+        missing.push(n);
+      }
+    }
+    return missing;
+  }
+
+  /**
+   * Check that `length` more bytes fit in the recording. Between utterances in
+   * hands-free mode the buffer only holds silence, so the oldest of it is dropped instead.
+   */
+  private makeRoomFor(length: number): boolean {
+    let buffered = this.getBufferedSize();
+    if (buffered + length <= this.audioLimits.maxBytes) {
+      return true;
+    }
+    if (!this.vad || this.vad.isSpeaking()) {
+      return false;
+    }
+
+    while (this.audioChunks.length > 0 && buffered + length > this.audioLimits.maxBytes) {
+      buffered -= this.audioChunks.shift()!.length;
+    }
+    this.audioBuffer = null;
+    return buffered + length <= this.audioLimits.maxBytes;
+  }
+
+  /**
+   * Bytes held for the current recording, including chunks waiting behind a gap
+   */
+  getBufferedSize(): number {
+    let size = 0;
+    for (const chunk of this.audioChunks) {
+      size += chunk.length;
+    }
+    for (const chunk of this.pendingChunks.values()) {
+      size += chunk.length;
+    }
+    return size;
+  }
+
+  private appendChunk(buffer: Buffer): void {
     this.audioChunks.push(buffer);
+    this.audioBuffer = null;
+
+    if (this.vad) {
+      this.speechEvents.push(...this.vad.push(buffer));
+    }
+  }
+
+  /**
+   * Hands-free mode: run voice activity detection over the in-order audio stream
+   */
+  enableVoiceActivityDetection(options: VoiceActivityOptions = {}): void {
+    this.vadOptions = options;
+    this.vad = new VoiceActivityDetector(options);
+    this.speechEvents = [];
+  }
+
+  disableVoiceActivityDetection(): void {
+    this.vad = null;
+    this.speechEvents = [];
+  }
+
+  isHandsFree(): boolean {
+    return this.vad !== null;
+  }
+
+  /**
+   * Whether the user is mid-utterance according to voice activity detection
+   */
+  isSpeaking(): boolean {
+    return this.vad?.isSpeaking() ?? false;
+  }
+
+  /**
+   * Speech transitions detected since the last call
+   */
+  takeSpeechEvents(): VoiceActivityEvent[] {
+    const events = this.speechEvents;
+    this.speechEvents = [];
+    return events;
+  }
+
+  /**
+   * Hand over the audio received so far as one utterance while the stream keeps going.
+   * Unlike takeAudioBuffer, the chunk sequence carries on, and each later utterance
+   * is given the stream's WAV header so it can be decoded on its own.
+   */
+  takeUtterance(): Buffer {
+    const header = this.vad?.getHeader();
+    const audio = this.getAudioBuffer();
+    this.audioChunks = [];
+    this.audioBuffer = null;
+    this.utteranceHeld = false;
+
+    if (header && audio.toString('ascii', 0, 4) !== 'RIFF') {
+      return Buffer.concat([header, audio]);
+    }
+    return audio;
+  }
+
+  /**
+   * Leave a finished utterance in the buffer because its run was refused; it
+   * goes out with the next utterance or audio end
+   */
+  holdUtterance(): void {
+    this.utteranceHeld = true;
+  }
+
+  hasHeldUtterance(): boolean {
+    return this.utteranceHeld;
   }
 
   getAudioBuffer(): Buffer {
@@ -28,21 +381,107 @@ export class Session {
     return this.audioBuffer;
   }
 
+  /**
+   * Hand over the recorded audio for processing and start buffering the next utterance
+   */
+  takeAudioBuffer(): Buffer {
+    // Chunks still waiting behind a gap are used as-is, in sequence order
+    const pending = Array.from(this.pendingChunks.keys())
+      .sort((a, b) => a - b)
+      .map((sequenceNumber) => this.pendingChunks.get(sequenceNumber)!);
+    const buffer = Buffer.concat([this.getAudioBuffer(), ...pending]);
+
+    this.audioChunks = [];
+    this.audioBuffer = null;
+    this.pendingChunks.clear();
+    this.nextSequenceNumber = FIRST_SEQUENCE_NUMBER;
+    this.utteranceHeld = false;
+
+    // The next recording is a new stream with its own header
+    if (this.vad) {
+      this.enableVoiceActivityDetection(this.vadOptions);
+    }
+    return buffer;
+  }
+
   setTranscript(transcript: string): void {
     this.transcript = transcript;
+    this.changed();
   }
 
   appendLlmResponse(chunk: string): void {
     this.llmResponse += chunk;
+    this.changed();
   }
 
   setState(state: SessionState): void {
     this.state = state;
+    this.changed();
+  }
+
+  /**
+   * Open a new conversation turn for the given user transcript
+   */
+  startTurn(userTranscript: string, audioRef: string | null = null): ConversationTurn {
+    this.transcript = userTranscript;
+    this.llmResponse = '';
+
+    const turn: ConversationTurn = {
+      index: this.turns.length,
+      userTranscript,
+      assistantResponse: '',
+      startedAt: Date.now(),
+      completedAt: null,
+      audioRef,
+      interrupted: false,
+    };
+    this.turns.push(turn);
+    this.changed();
+    return turn;
+  }
+
+  /**
+   * Record the assistant reply for the current turn
+   */
+  completeTurn(assistantResponse: string, interrupted: boolean = false): void {
+    const turn = this.getCurrentTurn();
+    if (turn) {
+      turn.assistantResponse = assistantResponse;
+      turn.completedAt = turn.completedAt ?? Date.now();
+      turn.interrupted = turn.interrupted || interrupted;
+      this.changed();
+    }
+  }
+
+  getCurrentTurn(): ConversationTurn | undefined {
+    return this.turns[this.turns.length - 1];
+  }
+
+  /**
+   * Completed turns that have not yet been folded into the summary
+   */
+  getCompletedTurns(): ConversationTurn[] {
+    return this.turns
+      .slice(this.summarizedTurnCount)
+      .filter((turn) => turn.completedAt !== null);
+  }
+
+  /**
+   * Fold every turn up to and including `lastTurn` into the running summary.
+   * `summarizedTurnCount` counts raw turns, so turns that never completed
+   * inside that range are folded too.
+   */
+  applySummary(summary: string, lastTurn: ConversationTurn): void {
+    this.summary = summary;
+    this.summarizedTurnCount = Math.max(this.summarizedTurnCount, lastTurn.index + 1);
+    this.changed();
   }
 
   cleanup(): void {
     this.audioChunks = [];
     this.audioBuffer = null;
+    this.pendingChunks.clear();
+    this.speechEvents = [];
   }
 
   isExpired(maxDuration: number): boolean {
@@ -1,70 +1,236 @@
 import { Session } from './Session';
+import { SessionStore, createSessionStore } from './SessionStore';
 import { config } from '../config/config';
+import { createLogger } from '../logging';
 
+const log = createLogger('SessionManager');
+
+/** Thrown when creating a session while `config.session.maxConcurrentSessions` are in use */
+export class SessionLimitError extends Error {
+  constructor(public readonly limit: number) {
+    super(`Too many active sessions (limit ${limit})`);
+    this.name = 'SessionLimitError';
+  }
+}
+
+/** Thrown when creating a session while the server is shutting down */
+export class ServerDrainingError extends Error {
+  constructor() {
+    super('Server is shutting down; start the session on another server');
+    this.name = 'ServerDrainingError';
+  }
+}
+
+/**
+ * Hands out live Session objects backed by a SessionStore.
+ * Sessions are loaded from the store on first use and written back shortly
+ * after they change, so a burst of streamed tokens costs a single write.
+ * Sessions no connection here is driving are read again on each use, so
+ * changes other servers sharing the store made are picked up.
+ */
 export class SessionManager {
+  private store: SessionStore;
   private sessions = new Map<string, Session>();
+  private dirty = new Set<Session>();
+  private saveTimer: NodeJS.Timeout | null = null;
   private cleanupInterval: NodeJS.Timeout | null = null;
+  private draining = false;
 
-  constructor() {
+  constructor(store: SessionStore = createSessionStore()) {
+    this.store = store;
     this.startCleanupInterval();
   }
 
-  createSession(sessionId: string): Session {
-    const session = new Session(sessionId);
-    this.sessions.set(sessionId, session);
-    console.log(`[SessionManager] Created session: ${sessionId}`);
+  /**
+   * Create a session; throws SessionLimitError once the concurrent session limit is reached,
+   * and ServerDrainingError while shutting down
+   */
+  createSession(sessionId: string, principalId: string | null = null): Session {
+    if (this.draining) {
+      throw new ServerDrainingError();
+    }
+    const limit = config.session.maxConcurrentSessions;
+    if (this.getActiveSessionCount() >= limit) {
+      throw new SessionLimitError(limit);
+    }
+
+    const session = new Session(sessionId, principalId);
+    this.track(session);
+    this.store.save(session.toRecord());
+    log.info('Created session', { sessionId, principalId });
     return session;
   }
 
+  /**
+   * Refuse new sessions from now on; existing ones can still be used until the server stops
+   */
+  drain(): void {
+    this.draining = true;
+  }
+
+  isDraining(): boolean {
+    return this.draining;
+  }
+
   getSession(sessionId: string): Session | undefined {
-    return this.sessions.get(sessionId);
+    const live = this.sessions.get(sessionId);
+    if (live && (live.getConnection() || this.dirty.has(live))) {
+      return live;
+    }
+    if (live) {
+      return this.refresh(live);
+    }
+
+    const record = this.store.load(sessionId);
+    if (!record) {
+      return undefined;
+    }
+    const session = Session.fromRecord(record);
+    this.track(session);
+    return session;
   }
 
   deleteSession(sessionId: string): void {
-    const session = this.sessions.get(sessionId);
+    const session = this.getSession(sessionId);
     if (session) {
       session.cleanup();
+      session.onChange(null);
+      this.dirty.delete(session);
       this.sessions.delete(sessionId);
-      console.log(`[SessionManager] Deleted session: ${sessionId}`);
+      this.store.delete(sessionId);
+      log.info('Deleted session', { sessionId });
     }
   }
 
   getAllSessions(): Session[] {
-    return Array.from(this.sessions.values());
+    return this.store.list().map((record) => this.getSession(record.sessionId) ?? Session.fromRecord(record));
   }
 
+  /**
+   * Sessions in the store, finished and orphaned ones included; reads the whole store
+   */
   getSessionCount(): number {
-    return this.sessions.size;
+    return this.store.list().length;
   }
 
-  private startCleanupInterval(): void {
-    this.cleanupInterval = setInterval(() => {
-      const now = Date.now();
-      let cleanedCount = 0;
-
-      for (const [sessionId, session] of this.sessions.entries()) {
-        if (session.isExpired(config.session.expirationTime)) {
-          this.deleteSession(sessionId);
-          cleanedCount++;
-        }
+  /**
+   * Sessions a connection or stream is driving right now
+   */
+  getActiveSessionCount(): number {
+    let count = 0;
+    for (const session of this.sessions.values()) {
+      if (session.getConnection()) {
+        count++;
       }
+    }
+    return count;
+  }
+
+  /**
+   * Write every changed session to the store now
+   */
+  flush(): void {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
 
-      if (cleanedCount > 0) {
-        console.log(`[SessionManager] Cleaned up ${cleanedCount} expired sessions`);
+    for (const session of this.dirty) {
+      try {
+        this.store.save(session.toRecord());
+      } catch (error) {
+        log.error('Failed to save session', { sessionId: session.sessionId, error });
       }
-    }, 60000); // Run cleanup every minute
+    }
+    this.dirty.clear();
+  }
+
+  /**
+   * Bring an idle live session up to date with the store, dropping it once
+   * another server deleted it
+   */
+  private refresh(session: Session): Session | undefined {
+    const record = this.store.load(session.sessionId);
+    if (!record) {
+      session.cleanup();
+      session.onChange(null);
+      this.sessions.delete(session.sessionId);
+      return undefined;
+    }
+    // Unchanged since this manager last loaded or saved it, unless another one wrote it since
+    if (record.updatedAt !== session.getUpdatedAt()) {
+      session.restore(record);
+    }
+    return session;
   }
 
+  private track(session: Session): void {
+    this.sessions.set(session.sessionId, session);
+    session.onChange((changed) => {
+      this.dirty.add(changed);
+      if (!this.saveTimer) {
+        this.saveTimer = setTimeout(() => this.flush(), config.session.persistDelay);
+        this.saveTimer.unref();
+      }
+    });
+  }
+
+  /**
+   * Delete sessions unused for `config.session.expirationTime`, unless a
+   * connection is driving them, and orphans past their grace period
+   */
+  cleanup(now: number = Date.now()): void {
+    let cleanedCount = 0;
+
+    for (const record of this.store.list()) {
+      // The live copy may have changes that are not saved yet
+      const live = this.sessions.get(record.sessionId);
+      if (live?.getConnection()) {
+        continue;
+      }
+      const updatedAt = live?.getUpdatedAt() ?? record.updatedAt;
+      if (now - updatedAt > config.session.expirationTime) {
+        this.deleteSession(record.sessionId);
+        cleanedCount++;
+      }
+    }
+
+    // Nobody came back for these after their connection dropped
+    let orphanCount = 0;
+    for (const session of Array.from(this.sessions.values())) {
+      const orphanedAt = session.getOrphanedAt();
+      if (orphanedAt !== null && now - orphanedAt > config.session.orphanGracePeriod) {
+        this.deleteSession(session.sessionId);
+        orphanCount++;
+      }
+    }
+
+    if (cleanedCount > 0 || orphanCount > 0) {
+      log.info('Cleaned up sessions', { expired: cleanedCount, orphaned: orphanCount });
+    }
+  }
+
+  private startCleanupInterval(): void {
+    // Run cleanup every minute, or sooner for short grace periods
+    this.cleanupInterval = setInterval(() => this.cleanup(), Math.min(60000, config.session.orphanGracePeriod));
+    this.cleanupInterval.unref();
+  }
+
+  /**
+   * Save pending changes and release live sessions; stored sessions are kept
+   */
   stop(): void {
     if (this.cleanupInterval) {
       clearInterval(this.cleanupInterval);
     }
+    this.flush();
 
-    // Cleanup all remaining sessions
-    for (const sessionId of this.sessions.keys()) {
-      this.deleteSession(sessionId);
+    for (const session of this.sessions.values()) {
+      session.cleanup();
+      session.onChange(null);
     }
+    this.sessions.clear();
 
-    console.log('[SessionManager] Stopped');
+    log.info('Stopped');
   }
 }
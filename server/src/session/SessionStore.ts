@@ -0,0 +1,49 @@
+import { config } from '../config/config';
+import { ConversationTurn, SessionState } from './Session';
+import { InMemorySessionStore } from './InMemorySessionStore';
+import { FileSessionStore } from './FileSessionStore';
+
+/**
+ * The persistent part of a session: metadata and the conversation.
+ * Audio being recorded and other per-connection state are not stored.
+ */
+export interface SessionRecord {
+  sessionId: string;
+  /** Principal that created the session; null for sessions anyone may use */
+  principalId: string | null;
+  state: SessionState;
+  createdAt: number;
+  updatedAt: number;
+  transcript: string;
+  llmResponse: string;
+  summary: string;
+  summarizedTurnCount: number;
+  turns: ConversationTurn[];
+}
+
+/**
+ * Where SessionManager keeps sessions between requests and restarts.
+ * Calls are synchronous so sessions can be looked up inline by every transport.
+ */
+export interface SessionStore {
+  load(sessionId: string): SessionRecord | undefined;
+  save(record: SessionRecord): void;
+  delete(sessionId: string): void;
+  list(): SessionRecord[];
+}
+
+export type SessionStoreType = 'memory' | 'file';
+
+/**
+ * Build the store selected by `config.session.store`
+ */
+export function createSessionStore(type: string = config.session.store): SessionStore {
+  switch (type) {
+    case 'memory':
+      return new InMemorySessionStore();
+    case 'file':
+      return new FileSessionStore(config.session.storeDir);
+    default:
+      throw new Error(`Unknown session store "${type}"`);
+  }
+}
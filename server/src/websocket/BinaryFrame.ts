@@ -0,0 +1,99 @@
+/**
+ * Binary WebSocket framing for audio, so raw bytes travel without base64/JSON overhead.
+ *
+ * Layout (big-endian):
+ *   0   u8   version
+ *   1   u8   message type
+ *   2   u8   flags (bit 0: last chunk of a TTS segment)
+ *   3   u8   session id length (N)
+ *   4   u32  sequence number
+ *   8   u32  segment index (0xFFFFFFFF when not set)
+ *   12  u32  event sequence number of the session (version 2 only)
+ *   H   N    session id (UTF-8), H being 12 in version 1 and 16 in version 2
+ *   H+N      audio bytes
+ *
+ * Frames without an event sequence number are written as version 1.
+ */
+import { MAX_SESSION_ID_BYTES } from '../protocol';
+
+export const BINARY_FRAME_VERSION = 2;
+export const BINARY_FRAME_HEADER_SIZE = 16;
+const V1_HEADER_SIZE = 12;
+
+const NO_SEGMENT = 0xffffffff;
+const FLAG_LAST_IN_SEGMENT = 0x01;
+
+export enum BinaryFrameType {
+  AudioChunk = 1,
+}
+
+export interface BinaryFrame {
+  type: BinaryFrameType;
+  sessionId: string;
+  sequenceNumber: number;
+  segmentIndex?: number;
+  isLastInSegment?: boolean;
+  /** Position in the session's event stream, for resuming after a reconnect */
+  eventSeq?: number;
+  payload: Buffer;
+}
+
+export function encodeBinaryFrame(frame: BinaryFrame): Buffer {
+  const sessionId = Buffer.from(frame.sessionId, 'utf8');
+  if (sessionId.length > MAX_SESSION_ID_BYTES) {
+    throw new Error('Session id is too long for a binary frame');
+  }
+
+  const version = frame.eventSeq === undefined ? 1 : BINARY_FRAME_VERSION;
+  const header = Buffer.alloc(version === 1 ? V1_HEADER_SIZE : BINARY_FRAME_HEADER_SIZE);
+  header.writeUInt8(version, 0);
+  header.writeUInt8(frame.type, 1);
+  header.writeUInt8(frame.isLastInSegment ? FLAG_LAST_IN_SEGMENT : 0, 2);
+  header.writeUInt8(sessionId.length, 3);
+  header.writeUInt32BE(frame.sequenceNumber, 4);
+  header.writeUInt32BE(frame.segmentIndex ?? NO_SEGMENT, 8);
+  if (frame.eventSeq !== undefined) {
+    header.writeUInt32BE(frame.eventSeq, 12);
+  }
+
+  return Buffer.concat([header, sessionId, frame.payload]);
+}
+
+export function decodeBinaryFrame(data: Buffer): BinaryFrame {
+  if (data.length < V1_HEADER_SIZE) {
+    throw new Error(`Binary frame too short: ${data.length} bytes`);
+  }
+
+  const version = data.readUInt8(0);
+  if (version !== 1 && version !== BINARY_FRAME_VERSION) {
+    throw new Error(`Unsupported binary frame version: ${version}`);
+  }
+  const headerSize = version === 1 ? V1_HEADER_SIZE : BINARY_FRAME_HEADER_SIZE;
+  if (data.length < headerSize) {
+    throw new Error(`Binary frame too short: ${data.length} bytes`);
+  }
+
+  const type = data.readUInt8(1);
+  if (!Object.values(BinaryFrameType).includes(type)) {
+    throw new Error(`Unknown binary frame type: ${type}`);
+  }
+
+  const flags = data.readUInt8(2);
+  const sessionIdLength = data.readUInt8(3);
+  const payloadStart = headerSize + sessionIdLength;
+  if (data.length < payloadStart) {
+    throw new Error('Binary frame truncated in session id');
+  }
+
+  const segmentIndex = data.readUInt32BE(8);
+
+  return {
+    type,
+    sessionId: data.toString('utf8', headerSize, payloadStart),
+    sequenceNumber: data.readUInt32BE(4),
+    segmentIndex: segmentIndex === NO_SEGMENT ? undefined : segmentIndex,
+    isLastInSegment: (flags & FLAG_LAST_IN_SEGMENT) !== 0,
+    eventSeq: version === 1 ? undefined : data.readUInt32BE(12),
+    payload: data.subarray(payloadStart),
+  };
+}
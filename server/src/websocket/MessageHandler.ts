@@ -1,26 +1,108 @@
 import WebSocket from 'ws';
-import { SessionManager } from '../session/SessionManager';
-import { OpenAIService } from '../services/OpenAIService';
-import { Session } from '../session/Session';
-
-interface WebSocketMessage {
-  type: string;
-  sessionId: string;
-  timestamp: number;
-  data: any;
-}
+import { randomUUID } from 'crypto';
+import { ServerDrainingError, SessionLimitError, SessionManager } from '../session/SessionManager';
+import { ProviderSet } from '../services/providers';
+import { providerRegistry } from '../services/ProviderRegistry';
+import { FIRST_SEQUENCE_NUMBER, Session } from '../session/Session';
+import { EventLog } from '../session/EventLog';
+import { config } from '../config/config';
+import { ConversationPipeline, PipelineListener } from '../pipeline/ConversationPipeline';
+import { PartialTranscriber } from '../pipeline/PartialTranscriber';
+import { BinaryFrameType, encodeBinaryFrame } from './BinaryFrame';
+import { ANONYMOUS_PRINCIPAL, Principal } from '../auth';
+import { LimitError, RateLimitKind, UsageLimiter } from '../limits';
+import { Logger, createLogger } from '../logging';
+import { metrics } from '../metrics';
+import {
+  AudioChunkMessage,
+  AudioEndMessage,
+  AudioOutputMessage,
+  AudioTransport,
+  ClientMessage,
+  ErrorCode,
+  ErrorMessage,
+  ResponseInterruptMessage,
+  ServerMessage,
+  SessionCancelMessage,
+  SessionResumeMessage,
+  SessionStartMessage,
+  SUPPORTED_PROTOCOL_VERSIONS,
+  negotiateProtocolVersion,
+  validateClientMessage,
+} from '../protocol';
+
+const log = createLogger('MessageHandler');
+
+/**
+ * A message kept in a session's event log; `audio.chunk` data holds the raw
+ * audio as a Buffer until it is delivered
+ */
+type SessionEvent =
+  | Exclude<ServerMessage, { type: 'connection.established' | 'server.draining' | 'pong' | 'audio.chunk' }>
+  | (Omit<AudioOutputMessage, 'data'> & { data: Omit<AudioOutputMessage['data'], 'chunk'> & { chunk: Buffer } });
 
 export class MessageHandler {
   private sessionManager: SessionManager;
-  private openaiService: OpenAIService;
-
-  constructor(sessionManager: SessionManager) {
+  private pipeline: ConversationPipeline;
+  private binaryAudioClients = new WeakSet<WebSocket>();
+  private principals = new WeakMap<WebSocket, Principal>();
+  // Key each connection's rate limits and quotas are counted under
+  private clientKeys = new WeakMap<WebSocket, string>();
+  // Carries each connection's correlation ids
+  private loggers = new WeakMap<WebSocket, Logger>();
+  // Sessions each connection has started or resumed, released when it closes
+  private connectionSessions = new Map<WebSocket, Set<string>>();
+  private partialTranscribers = new Map<string, { ws: WebSocket; transcriber: PartialTranscriber }>();
+  // Recent events of each session, replayed to a connection that resumes it
+  private eventLogs = new WeakMap<Session, EventLog<SessionEvent>>();
+  private limiter: UsageLimiter;
+
+  constructor(
+    sessionManager: SessionManager,
+    providers: ProviderSet = providerRegistry.createProviderSet(),
+    limiter: UsageLimiter = new UsageLimiter(),
+    pipeline: ConversationPipeline = new ConversationPipeline(providers, undefined, limiter)
+  ) {
     this.sessionManager = sessionManager;
-    this.openaiService = new OpenAIService();
+    this.limiter = limiter;
+    this.pipeline = pipeline;
+  }
+
+  /**
+   * Remember who an authenticated connection acts for, whose limits it uses
+   * and the logger carrying its correlation ids
+   */
+  handleConnect(ws: WebSocket, principal: Principal, clientKey: string, connectionLog: Logger = log): void {
+    this.principals.set(ws, principal);
+    this.clientKeys.set(ws, clientKey);
+    this.loggers.set(ws, connectionLog.withScope('MessageHandler'));
+    metrics.activeConnections.inc({ transport: 'websocket' });
   }
 
-  async handle(ws: WebSocket, message: WebSocketMessage): Promise<void> {
-    console.log('[MessageHandler] Received message:', message.type, 'sessionId:', message.sessionId);
+  /**
+   * Validate a decoded client message and dispatch it to its handler
+   */
+  async handle(ws: WebSocket, input: unknown): Promise<void> {
+    if (!this.admit(ws, 'messages', echoSessionId((input as Partial<ClientMessage> | null)?.sessionId))) {
+      return;
+    }
+
+    const result = validateClientMessage(input);
+
+    if (!result.valid) {
+      const { type, sessionId } = (input ?? {}) as Partial<ClientMessage>;
+      if (result.unknownType) {
+        this.logFor(ws).warn('Unknown message type', { type });
+        this.sendError(ws, echoSessionId(sessionId), 'UNKNOWN_MESSAGE_TYPE', `Unknown message type: ${type}`);
+      } else {
+        this.logFor(ws).warn('Invalid message', { type, errors: result.errors });
+        this.sendError(ws, echoSessionId(sessionId), 'INVALID_MESSAGE', `Invalid ${type ?? 'message'}`, { details: result.errors });
+      }
+      return;
+    }
+
+    const message = result.message;
+    this.logFor(ws, message.sessionId).debug('Received message', { type: message.type });
 
     try {
       switch (message.type) {
@@ -40,248 +122,598 @@ export class MessageHandler {
           this.handleSessionCancel(ws, message);
           break;
 
-        default:
-          console.warn('[MessageHandler] Unknown message type:', message.type);
-          ws.send(JSON.stringify({
-            type: 'error',
-            sessionId: message.sessionId,
-            timestamp: Date.now(),
-            data: {
-              code: 'UNKNOWN_MESSAGE_TYPE',
-              message: `Unknown message type: ${message.type}`,
-            },
-          }));
+        case 'session.resume':
+          this.handleSessionResume(ws, message);
+          break;
+
+        case 'response.interrupt':
+          this.handleResponseInterrupt(ws, message);
+          break;
+
+        case 'ping':
+          this.send(ws, { type: 'pong', timestamp: Date.now(), data: { pingTimestamp: message.timestamp } });
+          break;
       }
     } catch (error) {
-      console.error('[MessageHandler] Error handling message:', error);
-      ws.send(JSON.stringify({
-        type: 'error',
-        sessionId: message.sessionId,
-        timestamp: Date.now(),
-        data: {
-          code: 'HANDLER_ERROR',
-          message: 'Error processing message',
-          error: String(error),
-        },
-      }));
+      this.logFor(ws, message.sessionId).error('Error handling message', { type: message.type, error });
+      this.sendError(ws, message.sessionId, 'HANDLER_ERROR', 'Error processing message', { error: String(error) });
     }
   }
 
-  private handleSessionStart(ws: WebSocket, message: WebSocketMessage): void {
-    const { sessionId, data } = message;
+  private handleSessionStart(ws: WebSocket, message: SessionStartMessage): void {
+    const { data } = message;
 
-    // Create new session
-    const session = this.sessionManager.createSession(sessionId);
+    const protocolVersion = negotiateProtocolVersion(data.protocolVersion);
+    if (protocolVersion === null) {
+      this.sendError(ws, message.sessionId, 'UNSUPPORTED_PROTOCOL_VERSION', `Protocol version ${data.protocolVersion} is not supported`, {
+        supportedVersions: SUPPORTED_PROTOCOL_VERSIONS,
+      });
+      return;
+    }
+
+    // New sessions get an id from the server unless the client brings its own
+    const sessionId = message.sessionId ?? randomUUID();
+    const principal = this.principalOf(ws);
+    const existing = this.sessionManager.getSession(sessionId);
+    if (existing && (!existing.belongsTo(principal) || !existing.attach(ws))) {
+      this.sendForbidden(ws, sessionId);
+      return;
+    }
+
+    // Keep an existing conversation going, otherwise create a new session
+    let session: Session;
+    try {
+      session = existing || this.sessionManager.createSession(sessionId, principal.id);
+    } catch (error) {
+      if (error instanceof ServerDrainingError) {
+        this.sendError(ws, sessionId, 'SERVER_DRAINING', error.message);
+        return;
+      }
+      if (!(error instanceof SessionLimitError)) {
+        throw error;
+      }
+      this.logFor(ws, sessionId).warn('Refused session', { reason: error.message });
+      this.sendError(ws, sessionId, 'SESSION_LIMIT_EXCEEDED', error.message, { limit: error.limit });
+      return;
+    }
+
+    // Starting a new recording barges in on any response still playing
+    this.pipeline.interrupt(sessionId, 'session.start');
+
+    session.attach(ws);
+    this.trackSession(ws, sessionId);
+    session.setState('recording');
+    session.setAudioFormat(data.sampleRate, data.channels);
+
+    // Hands-free sessions end each utterance on trailing silence
+    if (data.handsFree) {
+      session.enableVoiceActivityDetection();
+    } else {
+      session.disableVoiceActivityDetection();
+    }
+
+    // Live captions while recording, when enabled on the server
+    this.stopPartialTranscripts(sessionId);
+    const partialTranscripts = config.transcription.partials && data.partialTranscripts === true;
+    if (partialTranscripts) {
+      this.startPartialTranscripts(ws, session);
+    }
+
+    const audioTransport = this.negotiateAudioTransport(ws, data.audioTransport);
 
     // Send ready confirmation
-    ws.send(JSON.stringify({
+    this.emit(sessionId, {
       type: 'session.ready',
       sessionId,
       timestamp: Date.now(),
       data: {
         status: 'ready',
+        protocolVersion,
+        resumed: !!existing,
+        turnCount: session.turns.length,
+        audioTransport,
+        handsFree: session.isHandsFree(),
+        partialTranscripts,
         config: {
-          maxAudioDuration: 30000,
-          chunkSize: 16384,
+          maxAudioDuration: session.getAudioLimits().maxDuration,
+          maxAudioBytes: session.getAudioLimits().maxBytes,
+          chunkSize: config.audio.chunkSize,
+          chunkDuration: config.audio.chunkDuration,
+          firstSequenceNumber: FIRST_SEQUENCE_NUMBER,
         },
       },
-    }));
+    });
 
-    console.log('[MessageHandler] Session started:', sessionId);
+    this.logFor(ws, sessionId).info(existing ? 'Session resumed' : 'Session started', { audioTransport, handsFree: session.isHandsFree() });
   }
 
-  private handleAudioChunk(ws: WebSocket, message: WebSocketMessage): void {
+  private handleAudioChunk(ws: WebSocket, message: AudioChunkMessage): void {
     const { sessionId, data } = message;
-    const session = this.sessionManager.getSession(sessionId);
-
+    const session = this.getAttachedSession(ws, sessionId);
     if (!session) {
-      ws.send(JSON.stringify({
-        type: 'error',
-        sessionId,
-        timestamp: Date.now(),
-        data: {
-          code: 'SESSION_NOT_FOUND',
-          message: `Session ${sessionId} not found`,
-        },
-      }));
       return;
     }
 
+    const audioBytes = typeof data.chunk === 'string' ? Buffer.byteLength(data.chunk, 'base64') : data.chunk.byteLength;
+    metrics.audioBytesReceived.inc({ transport: 'websocket' }, audioBytes);
+
     try {
-      // Add audio chunk to session
-      session.addAudioChunk(data.chunk);
+      // Add audio chunk to session, in sequence order
+      const result = session.addAudioChunk(data.chunk, data.sequenceNumber);
+
+      if (result.status === 'duplicate') {
+        this.sendError(ws, sessionId, 'DUPLICATE_AUDIO_CHUNK', `Chunk ${data.sequenceNumber} was already received`, {
+          sequenceNumber: data.sequenceNumber,
+        });
+        return;
+      }
+
+      if (result.status === 'limit_exceeded') {
+        const { maxDuration, maxBytes } = session.getAudioLimits();
+        this.sendError(ws, sessionId, 'AUDIO_LIMIT_EXCEEDED', `Recording exceeds the ${maxDuration}ms / ${maxBytes} byte limit; end it with audio.end`, {
+          sequenceNumber: data.sequenceNumber,
+          maxAudioDuration: maxDuration,
+          maxAudioBytes: maxBytes,
+        });
+        return;
+      }
 
-      // Send acknowledgment
-      ws.send(JSON.stringify({
+      // Send acknowledgment, listing any gaps so the client can resend them
+      this.emit(sessionId, {
         type: 'audio.received',
         sessionId,
         timestamp: Date.now(),
         data: {
           sequenceNumber: data.sequenceNumber,
+          status: result.status,
+          missing: result.missing,
           message: `Received chunk ${data.sequenceNumber}`,
         },
-      }));
+      });
 
-      console.log(`[MessageHandler] Audio chunk received for session ${sessionId}: ${data.chunk.length} bytes`);
+      this.logFor(ws, sessionId).debug('Audio chunk received', { sequenceNumber: data.sequenceNumber, audioBytes });
+
+      this.handleSpeechEvents(ws, session);
     } catch (error) {
-      console.error('[MessageHandler] Error adding audio chunk:', error);
-      ws.send(JSON.stringify({
-        type: 'error',
-        sessionId,
-        timestamp: Date.now(),
-        data: {
-          code: 'AUDIO_CHUNK_ERROR',
-          message: 'Failed to process audio chunk',
-        },
-      }));
+      this.logFor(ws, sessionId).error('Error adding audio chunk', { error });
+      this.sendError(ws, sessionId, 'AUDIO_CHUNK_ERROR', 'Failed to process audio chunk');
     }
   }
 
-  private async handleAudioEnd(ws: WebSocket, message: WebSocketMessage): Promise<void> {
+  private async handleAudioEnd(ws: WebSocket, message: AudioEndMessage): Promise<void> {
     const { sessionId } = message;
-    const session = this.sessionManager.getSession(sessionId);
-
+    const session = this.getAttachedSession(ws, sessionId);
     if (!session) {
-      ws.send(JSON.stringify({
-        type: 'error',
-        sessionId,
-        timestamp: Date.now(),
-        data: {
-          code: 'SESSION_NOT_FOUND',
-          message: `Session ${sessionId} not found`,
-        },
-      }));
       return;
     }
 
-    try {
-      console.log(`[MessageHandler] Audio ended for session ${sessionId}, processing...`);
-      session.setState('processing');
+    // The final transcript replaces the interim ones
+    this.stopPartialTranscripts(sessionId);
 
-      // Get the audio buffer
-      const audioBuffer = session.getAudioBuffer();
-      console.log(`[MessageHandler] Total audio: ${audioBuffer.length} bytes`);
+    // In hands-free mode every finished utterance has already been processed, unless its run was refused;
+    // otherwise only trailing silence is left
+    if (session.isHandsFree() && !session.isSpeaking() && !session.hasHeldUtterance()) {
+      session.takeAudioBuffer();
+      this.logFor(ws, sessionId).debug('Audio ended for hands-free session with no speech pending');
+      return;
+    }
+
+    const missing = session.getMissingSequenceNumbers();
+    if (missing.length > 0) {
+      this.logFor(ws, sessionId).warn('Audio ended with missing chunks', { missing });
+    }
 
-      // Step 1: Transcribe audio
-      const transcript = await this.openaiService.transcribe(audioBuffer);
-      session.setTranscript(transcript);
+    // A refused run keeps the recording, so the client can send audio.end again once allowed
+    if (!this.admit(ws, 'runs', sessionId)) {
+      return;
+    }
+    // Take the recorded audio so the session can buffer the next utterance
+    const audio = session.takeAudioBuffer();
+    await this.pipeline.process(session, audio, this.listenerFor(sessionId), 'audio.end', {
+      clientKey: this.clientKeys.get(ws),
+      log: this.logFor(ws),
+    });
+  }
 
-      // Send transcript to client
-      ws.send(JSON.stringify({
-        type: 'transcript.complete',
+  /**
+   * Pass voice activity transitions on to the client; the end of speech completes an utterance
+   */
+  private handleSpeechEvents(ws: WebSocket, session: Session): void {
+    const sessionId = session.sessionId;
+
+    for (const event of session.takeSpeechEvents()) {
+      if (event.type === 'speech.started') {
+        this.emit(sessionId, { type: 'speech.started', sessionId, timestamp: Date.now(), data: { offsetMs: event.offsetMs } });
+
+        // Talking over the assistant cuts it off, as in push-to-talk
+        this.pipeline.interrupt(sessionId, 'speech.started');
+        continue;
+      }
+
+      this.emit(sessionId, {
+        type: 'speech.ended',
         sessionId,
         timestamp: Date.now(),
-        data: {
-          transcript,
-          language: 'en',
-        },
-      }));
-
-      console.log(`[MessageHandler] Transcript: ${transcript}`);
-
-      // Step 2: Stream GPT response and collect full response
-      let fullResponse = '';
-      const gptChunkHandler = async () => {
-        for await (const chunk of this.openaiService.streamCompletion(transcript)) {
-          fullResponse += chunk;
-
-          // Send text chunk to client for real-time display
-          ws.send(JSON.stringify({
-            type: 'llm.chunk',
-            sessionId,
-            timestamp: Date.now(),
-            data: {
-              content: chunk,
-            },
-          }));
-        }
+        data: { offsetMs: event.offsetMs, durationMs: event.durationMs },
+      });
+      this.logFor(ws, sessionId).debug('End of speech detected', { offsetMs: event.offsetMs, audioDuration: event.durationMs });
+      this.partialTranscribers.get(sessionId)?.transcriber.reset();
 
-        // Send completion signal
-        ws.send(JSON.stringify({
-          type: 'llm.complete',
-          sessionId,
-          timestamp: Date.now(),
-          data: {
-            fullText: fullResponse,
-          },
-        }));
+      // A refused run keeps the utterance, so it goes out with the next one or on audio.end
+      if (!this.admit(ws, 'runs', sessionId)) {
+        session.holdUtterance();
+        continue;
+      }
+      this.pipeline.process(session, session.takeUtterance(), this.listenerFor(sessionId), 'speech.ended', {
+        clientKey: this.clientKeys.get(ws),
+        log: this.logFor(ws),
+      }).catch((error) => {
+        this.logFor(ws, sessionId).error('Error processing utterance', { error });
+      });
+    }
+  }
 
-        // Step 3: Generate TTS audio from full response
-        console.log(`[MessageHandler] Starting TTS for: ${fullResponse}`);
-        const audioBuffer = await this.openaiService.synthesizeSpeech(fullResponse);
-
-        // Send audio in chunks
-        const chunkSize = 4096; // Send 4KB at a time
-        for (let i = 0; i < audioBuffer.length; i += chunkSize) {
-          const chunk = audioBuffer.slice(i, i + chunkSize);
-          const base64Chunk = chunk.toString('base64');
-
-          ws.send(JSON.stringify({
-            type: 'audio.chunk',
-            sessionId,
-            timestamp: Date.now(),
-            data: {
-              chunk: base64Chunk,
-              sequenceNumber: Math.floor(i / chunkSize),
-            },
-          }));
+  /**
+   * Route a run's output to whichever connection holds the session, so it
+   * follows the session when the client reconnects mid-response.
+   * Create one per run: it times the run's first audio.
+   */
+  private listenerFor(sessionId: string): PipelineListener {
+    let firstAudio: (() => void) | null = metrics.timeToFirstAudio.startTimer({ transport: 'websocket' });
+    return {
+      onEvent: (type, data) => {
+        if (type === 'audio.chunk' && firstAudio) {
+          firstAudio();
+          firstAudio = null;
         }
-
-        // Send completion signal
-        ws.send(JSON.stringify({
-          type: 'audio.complete',
+        this.emit(sessionId, { type, sessionId, timestamp: Date.now(), data } as SessionEvent);
+      },
+      onInterrupted: (reason, progress) => {
+        this.emit(sessionId, {
+          type: 'response.interrupted',
           sessionId,
           timestamp: Date.now(),
           data: {
-            totalSize: audioBuffer.length,
+            reason,
+            wasActive: true,
+            ...progress,
           },
-        }));
-
-        // Mark session as complete
-        session.setState('complete');
-        console.log(`[MessageHandler] Session ${sessionId} complete`);
-      };
-
-      // Start processing asynchronously
-      gptChunkHandler().catch((error) => {
-        console.error('[MessageHandler] Error processing response:', error);
-        ws.send(JSON.stringify({
+        });
+      },
+      onError: (code, message, retryAfterMs) => {
+        metrics.errors.inc({ transport: 'websocket', code });
+        this.emit(sessionId, {
           type: 'error',
           sessionId,
           timestamp: Date.now(),
-          data: {
-            code: 'PROCESSING_ERROR',
-            message: 'Error processing audio response',
-          },
-        }));
+          data: { code, message, retryAfterMs },
+        });
+      },
+    };
+  }
+
+  private startPartialTranscripts(ws: WebSocket, session: Session): void {
+    const sessionId = session.sessionId;
+    const transcriber = new PartialTranscriber(session, this.pipeline.getProviders().stt, (partial) => {
+      this.emit(sessionId, {
+        type: 'transcript.partial',
+        sessionId,
+        timestamp: Date.now(),
+        data: partial,
       });
-    } catch (error) {
-      console.error('[MessageHandler] Error in audio.end handler:', error);
-      ws.send(JSON.stringify({
-        type: 'error',
+    }, { limiter: this.limiter, clientKey: this.clientKeys.get(ws), log: this.logFor(ws, sessionId) });
+
+    this.partialTranscribers.set(sessionId, { ws, transcriber });
+    transcriber.start();
+  }
+
+  private stopPartialTranscripts(sessionId: string): void {
+    this.partialTranscribers.get(sessionId)?.transcriber.stop();
+    this.partialTranscribers.delete(sessionId);
+  }
+
+  /**
+   * Stop background work tied to a connection that has closed and orphan its sessions.
+   * Replies already under way are left to finish so the conversation keeps the turn.
+   */
+  handleDisconnect(ws: WebSocket): void {
+    for (const [sessionId, entry] of this.partialTranscribers) {
+      if (entry.ws === ws) {
+        this.stopPartialTranscripts(sessionId);
+      }
+    }
+
+    for (const sessionId of this.getSessionIds(ws)) {
+      this.sessionManager.getSession(sessionId)?.orphan(ws);
+    }
+    this.connectionSessions.delete(ws);
+    metrics.activeConnections.dec({ transport: 'websocket' });
+  }
+
+  /**
+   * Resolve once replies in flight have finished, or at `deadline` (epoch ms);
+   * true when they all finished
+   */
+  drain(deadline?: number): Promise<boolean> {
+    return this.pipeline.drain(deadline);
+  }
+
+  /**
+   * Sessions this connection has started or resumed
+   */
+  getSessionIds(ws: WebSocket): string[] {
+    return Array.from(this.connectionSessions.get(ws) ?? []);
+  }
+
+  /**
+   * Stop a connection driving a session without ending the session
+   */
+  private releaseSession(ws: WebSocket, sessionId: string): void {
+    if (this.partialTranscribers.get(sessionId)?.ws === ws) {
+      this.stopPartialTranscripts(sessionId);
+    }
+    this.sessionManager.getSession(sessionId)?.detach(ws);
+    this.connectionSessions.get(ws)?.delete(sessionId);
+  }
+
+  private trackSession(ws: WebSocket, sessionId: string): void {
+    const sessionIds = this.connectionSessions.get(ws) ?? new Set<string>();
+    sessionIds.add(sessionId);
+    this.connectionSessions.set(ws, sessionIds);
+  }
+
+  private handleResponseInterrupt(ws: WebSocket, message: ResponseInterruptMessage): void {
+    const { sessionId } = message;
+
+    if (this.isForeignSession(ws, sessionId)) {
+      this.sendForbidden(ws, sessionId);
+      return;
+    }
+
+    if (!this.pipeline.interrupt(sessionId, 'client')) {
+      // Nothing in flight (the response may have just finished); report it so the client can settle
+      const interrupted: SessionEvent = {
+        type: 'response.interrupted',
         sessionId,
         timestamp: Date.now(),
         data: {
-          code: 'AUDIO_END_ERROR',
-          message: 'Failed to process audio',
+          reason: 'client',
+          wasActive: false,
         },
-      }));
+      };
+      if (this.sessionManager.getSession(sessionId)) {
+        this.emit(sessionId, interrupted);
+      } else {
+        this.send(ws, interrupted);
+      }
+    }
+  }
+
+  /**
+   * Number a session event, keep it for replay and deliver it to the connection
+   * holding the session; while the session is orphaned it is only kept
+   */
+  private emit(sessionId: string, event: SessionEvent): void {
+    const session = this.sessionManager.getSession(sessionId);
+    if (!session) {
+      return;
+    }
+
+    const size = event.type === 'audio.chunk' ? event.data.chunk.length : JSON.stringify(event).length;
+    this.eventLogFor(session).append(event, size);
+
+    const connection = session.getConnection();
+    if (connection instanceof WebSocket && connection.readyState === WebSocket.OPEN) {
+      this.deliver(connection, event);
+    }
+  }
+
+  /**
+   * Send a session event, as a binary frame for audio when the client negotiated it
+   */
+  private deliver(ws: WebSocket, event: SessionEvent): void {
+    if (event.type === 'audio.chunk') {
+      const { data } = event;
+      if (this.binaryAudioClients.has(ws)) {
+        ws.send(encodeBinaryFrame({
+          type: BinaryFrameType.AudioChunk,
+          sessionId: event.sessionId,
+          sequenceNumber: data.sequenceNumber,
+          segmentIndex: data.segmentIndex,
+          isLastInSegment: data.isLastInSegment,
+          eventSeq: event.seq,
+          payload: data.chunk,
+        }));
+        return;
+      }
+      // The logged event keeps its Buffer for later deliveries
+      this.send(ws, { ...event, data: { ...data, chunk: data.chunk.toString('base64') } });
+      return;
     }
+
+    this.send(ws, event);
   }
 
-  private handleSessionCancel(ws: WebSocket, message: WebSocketMessage): void {
+  private eventLogFor(session: Session): EventLog<SessionEvent> {
+    let log = this.eventLogs.get(session);
+    if (!log) {
+      log = new EventLog<SessionEvent>();
+      this.eventLogs.set(session, log);
+    }
+    return log;
+  }
+
+  /**
+   * Audio travels as binary frames when both sides support it
+   */
+  private negotiateAudioTransport(ws: WebSocket, requested: AudioTransport | undefined): AudioTransport {
+    if (config.server.websocket.binaryAudio && requested === 'binary') {
+      this.binaryAudioClients.add(ws);
+      return 'binary';
+    }
+    this.binaryAudioClients.delete(ws);
+    return 'json';
+  }
+
+  /**
+   * Take a token from the connection's bucket, telling the client when to retry if it is empty
+   */
+  private admit(ws: WebSocket, kind: RateLimitKind, sessionId: string | undefined): boolean {
+    try {
+      this.limiter.consume(kind, this.clientKeys.get(ws) ?? '');
+      return true;
+    } catch (error) {
+      if (!(error instanceof LimitError)) {
+        throw error;
+      }
+      this.sendError(ws, sessionId, error.code, error.message, { retryAfterMs: error.retryAfterMs });
+      return false;
+    }
+  }
+
+  /**
+   * The connection's logger, with the session's id when given
+   */
+  private logFor(ws: WebSocket, sessionId?: string): Logger {
+    const connectionLog = this.loggers.get(ws) ?? log;
+    return sessionId ? connectionLog.child({ sessionId }) : connectionLog;
+  }
+
+  private principalOf(ws: WebSocket): Principal {
+    return this.principals.get(ws) ?? ANONYMOUS_PRINCIPAL;
+  }
+
+  /**
+   * Look up a session this connection has started, reporting an error when it can't use it
+   */
+  private getAttachedSession(ws: WebSocket, sessionId: string): Session | undefined {
+    const session = this.sessionManager.getSession(sessionId);
+    if (!session) {
+      this.sendError(ws, sessionId, 'SESSION_NOT_FOUND', `Session ${sessionId} not found`);
+      return undefined;
+    }
+    if (!session.isAttachedTo(ws)) {
+      this.sendForbidden(ws, sessionId);
+      return undefined;
+    }
+    return session;
+  }
+
+  /**
+   * Whether the session exists but is driven by another connection
+   */
+  private isForeignSession(ws: WebSocket, sessionId: string): boolean {
+    const session = this.sessionManager.getSession(sessionId);
+    return !!session && !session.isAttachedTo(ws);
+  }
+
+  private sendForbidden(ws: WebSocket, sessionId: string): void {
+    this.sendError(ws, sessionId, 'SESSION_FORBIDDEN', `Session ${sessionId} belongs to another connection`);
+  }
+
+  private send(ws: WebSocket, message: ServerMessage): void {
+    ws.send(JSON.stringify(message));
+  }
+
+  private sendError(
+    ws: WebSocket,
+    sessionId: string | undefined,
+    code: ErrorCode,
+    message: string,
+    extra: Omit<ErrorMessage['data'], 'code' | 'message'> = {}
+  ): void {
+    metrics.errors.inc({ transport: 'websocket', code });
+    this.send(ws, {
+      type: 'error',
+      sessionId,
+      timestamp: Date.now(),
+      data: { code, message, ...extra },
+    });
+  }
+
+  private handleSessionCancel(ws: WebSocket, message: SessionCancelMessage): void {
     const { sessionId } = message;
+
+    if (this.isForeignSession(ws, sessionId)) {
+      this.sendForbidden(ws, sessionId);
+      return;
+    }
+
+    this.pipeline.interrupt(sessionId, 'session.cancel');
+    this.stopPartialTranscripts(sessionId);
     this.sessionManager.deleteSession(sessionId);
+    this.connectionSessions.get(ws)?.delete(sessionId);
 
-    ws.send(JSON.stringify({
+    this.send(ws, {
       type: 'session.cancelled',
       sessionId,
       timestamp: Date.now(),
       data: {
         message: 'Session cancelled',
       },
-    }));
+    });
+
+    this.logFor(ws, sessionId).info('Session cancelled');
+  }
+
+  /**
+   * Move a session onto this connection after the client reconnected, then
+   * replay the events it missed. A connection of the same authenticated
+   * principal that still holds the session (half-open, not yet noticed as
+   * dead) is taken over; anonymous clients can only resume a released session.
+   */
+  private handleSessionResume(ws: WebSocket, message: SessionResumeMessage): void {
+    const { sessionId, data } = message;
+    const session = this.sessionManager.getSession(sessionId);
+    if (!session) {
+      this.sendError(ws, sessionId, 'SESSION_NOT_FOUND', `Session ${sessionId} not found`);
+      return;
+    }
+
+    const principal = this.principalOf(ws);
+    if (!session.belongsTo(principal)) {
+      this.sendForbidden(ws, sessionId);
+      return;
+    }
+
+    // Every anonymous client is the same principal, so knowing the id is not enough to take their session over
+    const holder = session.getConnection() as WebSocket | null;
+    if (holder && holder !== ws) {
+      if (principal.method === 'anonymous' || session.principalId !== principal.id) {
+        this.sendForbidden(ws, sessionId);
+        return;
+      }
+      this.releaseSession(holder, sessionId);
+      this.logFor(ws, sessionId).info('Took over session from a stale connection');
+    }
+
+    session.attach(ws);
+    this.trackSession(ws, sessionId);
+    const audioTransport = this.negotiateAudioTransport(ws, data.audioTransport);
+
+    const log = this.eventLogFor(session);
+    const missed = log.since(data.lastSeq);
+    this.send(ws, {
+      type: 'session.resumed',
+      sessionId,
+      timestamp: Date.now(),
+      data: {
+        lastSeq: log.getLastSeq(),
+        replayed: missed?.length ?? 0,
+        complete: missed !== null,
+        turnCount: session.turns.length,
+        audioTransport,
+      },
+    });
+    for (const event of missed ?? []) {
+      this.deliver(ws, event);
+    }
 
-    console.log('[MessageHandler] Session cancelled:', sessionId);
+    this.logFor(ws, sessionId).info('Session resumed', { lastSeq: data.lastSeq, replayed: missed?.length ?? 0 });
   }
 }
+
+/** Echo the session id back on errors only when the client sent a usable one */
+function echoSessionId(sessionId: unknown): string | undefined {
+  return typeof sessionId === 'string' ? sessionId : undefined;
+}
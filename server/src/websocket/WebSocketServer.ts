@@ -1,85 +1,208 @@
-import WebSocket, { WebSocketServer as WSServer } from 'ws';
+import WebSocket, { VerifyClientCallbackAsync, WebSocketServer as WSServer } from 'ws';
+import { IncomingMessage } from 'http';
+import { randomUUID } from 'crypto';
 import { SessionManager } from '../session/SessionManager';
 import { MessageHandler } from './MessageHandler';
+import { ConversationPipeline } from '../pipeline/ConversationPipeline';
+import { decodeBinaryFrame } from './BinaryFrame';
 import { config } from '../config/config';
+import { ProviderSet } from '../services/providers';
+import { AuthError, Authenticator, Principal, credentialFromHeaders } from '../auth';
+import { UsageLimiter, clientKey } from '../limits';
+import { createLogger } from '../logging';
+import { metrics } from '../metrics';
+import {
+  AudioChunkMessage,
+  ConnectionEstablishedMessage,
+  ErrorMessage,
+  PROTOCOL_VERSION,
+  SUPPORTED_PROTOCOL_VERSIONS,
+  ServerDrainingMessage,
+} from '../protocol';
+
+const log = createLogger('WebSocketServer');
 
 export class WebSocketServer {
   private wss: WSServer | null = null;
   private sessionManager: SessionManager;
   private messageHandler: MessageHandler;
   private port: number;
-  private clientSessions = new Map<WebSocket, string>(); // Track which session each client belongs to
+  private authenticator: Authenticator;
+  // Principals authenticated during the upgrade, until the connection is set up
+  private principals = new WeakMap<IncomingMessage, Principal>();
+  // Connections that have shown signs of life since the last ping
+  private alive = new WeakSet<WebSocket>();
+  private heartbeat: NodeJS.Timeout | null = null;
+  // Stopped with the server unless it was shared by the caller
+  private ownsSessionManager: boolean;
 
-  constructor(port: number = config.server.websocket.port) {
+  constructor(
+    port: number = config.server.websocket.port,
+    providers?: ProviderSet,
+    sessionManager?: SessionManager,
+    authenticator: Authenticator = new Authenticator(),
+    limiter: UsageLimiter = new UsageLimiter(),
+    pipeline?: ConversationPipeline
+  ) {
     this.port = port;
-    this.sessionManager = new SessionManager();
-    this.messageHandler = new MessageHandler(this.sessionManager);
+    this.ownsSessionManager = !sessionManager;
+    this.sessionManager = sessionManager ?? new SessionManager();
+    this.authenticator = authenticator;
+    this.messageHandler = new MessageHandler(this.sessionManager, providers, limiter, pipeline);
   }
 
   async start(): Promise<void> {
     return new Promise((resolve, reject) => {
       try {
-        this.wss = new WSServer({ port: this.port }, () => {
-          console.log(`[WebSocketServer] Started on port ${this.port}`);
+        this.wss = new WSServer({ port: this.port, verifyClient: this.verifyClient }, () => {
+          log.info('Started', { port: this.port });
+          this.startHeartbeat();
           resolve();
         });
 
-        this.wss.on('connection', (ws: WebSocket) => {
-          console.log('[WebSocketServer] Client connected');
+        this.wss.on('connection', (ws: WebSocket, req: IncomingMessage) => {
+          const principal = this.principals.get(req)!;
+          this.principals.delete(req);
+          const connectionLog = log.child({ connectionId: randomUUID(), principalId: principal.id });
 
-          ws.on('message', async (data: WebSocket.Data) => {
-            try {
-              const message = JSON.parse(data.toString());
-              const sessionId = message.sessionId;
+          // The new socket already counts towards the clients
+          const limit = config.server.websocket.maxConnections;
+          if (this.wss!.clients.size > limit) {
+            connectionLog.warn('Refused connection', { limit });
+            const refused: ErrorMessage = {
+              type: 'error',
+              timestamp: Date.now(),
+              data: {
+                code: 'CONNECTION_LIMIT_EXCEEDED',
+                message: `Too many connections (limit ${limit}); try again later`,
+                limit,
+              },
+            };
+            metrics.errors.inc({ transport: 'websocket', code: refused.data.code });
+            ws.send(JSON.stringify(refused));
+            ws.close(1013, 'Connection limit exceeded');
+            return;
+          }
 
-              // Track this client's session
-              if (sessionId) {
-                this.clientSessions.set(ws, sessionId);
-              }
+          this.messageHandler.handleConnect(ws, principal, clientKey(principal, req.socket.remoteAddress), connectionLog);
+          connectionLog.info('Client connected');
+
+          this.alive.add(ws);
+          ws.on('pong', () => this.alive.add(ws));
+
+          ws.on('message', async (data: WebSocket.Data, isBinary: boolean) => {
+            this.alive.add(ws);
+            try {
+              const message: unknown = isBinary
+                ? this.parseBinaryMessage(data as Buffer)
+                : JSON.parse(data.toString());
 
               // Handle the message
               await this.messageHandler.handle(ws, message);
             } catch (error) {
-              console.error('[WebSocketServer] Message handling error:', error);
-              ws.send(JSON.stringify({
+              connectionLog.error('Message handling error', { error });
+              const parseError: ErrorMessage = {
                 type: 'error',
+                timestamp: Date.now(),
                 data: {
                   code: 'MESSAGE_PARSE_ERROR',
                   message: 'Failed to process message',
                 },
-              }));
+              };
+              metrics.errors.inc({ transport: 'websocket', code: parseError.data.code });
+              ws.send(JSON.stringify(parseError));
             }
           });
 
           ws.on('close', () => {
-            const sessionId = this.clientSessions.get(ws);
-            this.clientSessions.delete(ws);
-            console.log('[WebSocketServer] Client disconnected', sessionId ? `(session: ${sessionId})` : '');
+            const sessionIds = this.messageHandler.getSessionIds(ws);
+            this.messageHandler.handleDisconnect(ws);
+            connectionLog.info('Client disconnected', { sessionIds });
           });
 
           ws.on('error', (error: Error) => {
-            console.error('[WebSocketServer] WebSocket error:', error);
+            connectionLog.error('WebSocket error', { error });
           });
 
-          // Send initial connection confirmation
-          ws.send(JSON.stringify({
+          // Send initial connection confirmation, advertising the protocol versions we speak
+          const established: ConnectionEstablishedMessage = {
             type: 'connection.established',
             timestamp: Date.now(),
-            data: { message: 'Connected to server' },
-          }));
+            data: {
+              message: 'Connected to server',
+              protocolVersion: PROTOCOL_VERSION,
+              supportedVersions: SUPPORTED_PROTOCOL_VERSIONS,
+            },
+          };
+          ws.send(JSON.stringify(established));
         });
 
         this.wss.on('error', (error: Error) => {
-          console.error('[WebSocketServer] Server error:', error);
+          log.error('Server error', { error });
           reject(error);
         });
       } catch (error) {
-        console.error('[WebSocketServer] Failed to start:', error);
+        log.error('Failed to start', { error });
         reject(error);
       }
     });
   }
 
+  /**
+   * Ping every client each `pingInterval`. Half-open connections never answer,
+   * so a client still silent at the next round is terminated and its sessions orphaned.
+   */
+  private startHeartbeat(): void {
+    this.heartbeat = setInterval(() => {
+      this.wss?.clients.forEach((ws: WebSocket) => {
+        if (!this.alive.has(ws)) {
+          const sessionIds = this.messageHandler.getSessionIds(ws);
+          log.warn('Terminating unresponsive client', { sessionIds });
+          ws.terminate();
+          return;
+        }
+
+        this.alive.delete(ws);
+        ws.ping();
+      });
+    }, config.server.websocket.pingInterval);
+    this.heartbeat.unref();
+  }
+
+  /**
+   * Authenticate the upgrade request. Browsers can't set headers on a WebSocket,
+   * so the credential may also come as an `access_token` query parameter.
+   */
+  private verifyClient: VerifyClientCallbackAsync = ({ req }, done) => {
+    const url = new URL(req.url ?? '/', 'ws://localhost');
+    const credential = credentialFromHeaders(req.headers) ?? url.searchParams.get('access_token') ?? undefined;
+
+    try {
+      this.principals.set(req, this.authenticator.authenticate(credential));
+      done(true);
+    } catch (error) {
+      const message = error instanceof AuthError ? error.message : 'Authentication failed';
+      log.warn('Rejected connection', { address: req.socket.remoteAddress, reason: message });
+      done(false, 401, message, { 'WWW-Authenticate': 'Bearer' });
+    }
+  };
+
+  /**
+   * Turn a binary audio frame into the message shape MessageHandler expects
+   */
+  private parseBinaryMessage(data: Buffer): AudioChunkMessage {
+    const frame = decodeBinaryFrame(data);
+    return {
+      type: 'audio.chunk',
+      sessionId: frame.sessionId,
+      timestamp: Date.now(),
+      data: {
+        chunk: frame.payload,
+        sequenceNumber: frame.sequenceNumber,
+      },
+    };
+  }
+
   /**
    * Broadcast message to all clients in a session
    */
@@ -90,13 +213,13 @@ export class WebSocketServer {
     let count = 0;
 
     this.wss.clients.forEach((client: WebSocket) => {
-      if (this.clientSessions.get(client) === sessionId && client.readyState === WebSocket.OPEN) {
+      if (this.messageHandler.getSessionIds(client).includes(sessionId) && client.readyState === WebSocket.OPEN) {
         client.send(messageStr);
         count++;
       }
     });
 
-    console.log(`[WebSocketServer] Broadcasted to ${count} clients in session ${sessionId}`);
+    log.debug('Broadcast to session', { sessionId, clients: count });
   }
 
   /**
@@ -116,16 +239,45 @@ export class WebSocketServer {
   }
 
   /**
-   * Stop the server
+   * Tell every client the server is going away, then wait for replies in flight
+   * until `deadline` (epoch ms). Call SessionManager.drain() first so no new sessions start meanwhile.
+   */
+  async drain(deadline: number): Promise<void> {
+    const draining: ServerDrainingMessage = {
+      type: 'server.draining',
+      timestamp: Date.now(),
+      data: {
+        message: 'Server is shutting down; reconnect and resume your session',
+        deadline,
+      },
+    };
+    this.wss?.clients.forEach((client: WebSocket) => this.sendToClient(client, draining));
+
+    if (await this.messageHandler.drain(deadline)) {
+      log.info('Drained');
+    } else {
+      log.warn('Drain deadline reached with replies still in flight');
+    }
+  }
+
+  /**
+   * Stop the server, closing every connection as going away. A session manager
+   * passed in is left running for its owner to stop.
    */
   stop(): void {
+    if (this.heartbeat) {
+      clearInterval(this.heartbeat);
+      this.heartbeat = null;
+    }
     if (this.wss) {
       this.wss.clients.forEach((client: WebSocket) => {
-        client.close();
+        client.close(1001, 'Server shutting down');
       });
       this.wss.close();
-      this.sessionManager.stop();
-      console.log('[WebSocketServer] Stopped');
+      if (this.ownsSessionManager) {
+        this.sessionManager.stop();
+      }
+      log.info('Stopped');
     }
   }
 }